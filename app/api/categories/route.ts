@@ -0,0 +1,27 @@
+import { isSyncRecord, type SyncRecord } from "../../../lib/sync";
+import { authorize, readJson, serverStore } from "../../../lib/syncStore";
+
+export const dynamic = 'force-dynamic';
+
+const KEYS = ['categories', 'categoryStyles', 'incomeCategories', 'incomeCategoryStyles'] as const;
+
+/** Expense and income category lists with their colors and icons. Keys never synced are left out. */
+export async function GET(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const stored = await serverStore().values('settings');
+  return Response.json(Object.fromEntries(stored.filter(r => (KEYS as readonly string[]).includes(r.id)).map(r => [r.id, r.value])));
+}
+
+/** Replaces any of the four values given in the body; the others are left alone. */
+export async function PUT(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const body = await readJson(req);
+  const updatedAt = new Date().toISOString();
+  const records: SyncRecord[] = KEYS.filter(k => body && k in body).map(k => ({ kind: 'settings', id: k, value: body[k], updatedAt }));
+  const invalid = records.filter(r => !isSyncRecord(r)).map(r => `${r.id}: invalid value`);
+  if (!records.length || invalid.length) return Response.json({ error: `Expected any of ${KEYS.join(', ')}`, errors: invalid }, { status: 400 });
+  await serverStore().apply(records);
+  return Response.json(Object.fromEntries(records.map(r => [r.id, r.value])));
+}
@@ -0,0 +1,25 @@
+import { normalizeBudgets } from "../../../lib/schema";
+import { isSyncRecord, type SyncRecord } from "../../../lib/sync";
+import { authorize, readJson, serverStore } from "../../../lib/syncStore";
+
+export const dynamic = 'force-dynamic';
+
+/** Budget settings: `{ budgets: { limits, warnAt } }`. */
+export async function GET(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const budgets = await serverStore().get('settings', 'budgets');
+  return Response.json({ budgets: budgets?.value ?? null });
+}
+
+export async function PUT(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const body = await readJson(req);
+  const record: SyncRecord = { kind: 'settings', id: 'budgets', value: body?.budgets, updatedAt: new Date().toISOString() };
+  if (!isSyncRecord(record)) return Response.json({ error: 'Expected { budgets: { limits, warnAt } }' }, { status: 400 });
+  // Stored as clients will read it: positive whole limits and a warning level of 1–100
+  record.value = normalizeBudgets(record.value);
+  await serverStore().apply([record]);
+  return Response.json({ budgets: record.value });
+}
@@ -0,0 +1,20 @@
+import { isSyncRecord, type SyncResponse } from "../../../lib/sync";
+import { authorize, readJson, serverStore } from "../../../lib/syncStore";
+
+export const dynamic = 'force-dynamic';
+
+/** Takes a client's queued changes (newest write per id wins) and returns everything stored after its cursor. */
+export async function POST(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const body = await readJson(req);
+  const since = Number(body?.since);
+  if (!body || !Array.isArray(body.changes) || !Number.isInteger(since) || since < 0){
+    return Response.json({ error: 'Expected { since, changes }' }, { status: 400 });
+  }
+  const store = serverStore();
+  await store.apply(body.changes.filter(isSyncRecord));
+  const { cursor, records } = await store.since(since);
+  const response: SyncResponse = { cursor, records: records.map(({ seq, ...r }) => r) };
+  return Response.json(response);
+}
@@ -0,0 +1,49 @@
+import { expenseRowErrors, incomeRowErrors } from "../../../../lib/schema";
+import { authorize, readJson, serverStore } from "../../../../lib/syncStore";
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+async function find(id: string){
+  const store = serverStore();
+  const income = await store.get('income', id);
+  if (income) return { type: 'income' as const, record: income };
+  const expense = await store.get('expenses', id);
+  return expense ? { type: 'expense' as const, record: expense } : null;
+}
+
+export async function GET(req: Request, { params }: Params){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const found = await find(params.id);
+  if (!found) return Response.json({ error: 'Not found' }, { status: 404 });
+  return Response.json({ type: found.type, row: found.record.value });
+}
+
+/** Replaces a row. `type` may be omitted for an existing row; changing it moves the row. */
+export async function PUT(req: Request, { params }: Params){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const body = await readJson(req);
+  const found = await find(params.id);
+  const type = body?.type ?? found?.type;
+  if (type !== 'income' && type !== 'expense') return Response.json({ error: "type must be 'income' or 'expense'" }, { status: 400 });
+  const row = { ...body?.row, id: params.id };
+  const errors = type === 'income' ? incomeRowErrors(row) : expenseRowErrors(row);
+  if (errors.length) return Response.json({ error: 'Invalid row', errors }, { status: 400 });
+  const updatedAt = new Date().toISOString();
+  const kind = type === 'income' ? 'income' : 'expenses';
+  const moved = found && found.type !== type ? [{ kind: found.record.kind, id: params.id, value: null, deleted: true, updatedAt }] : [];
+  await serverStore().apply([...moved, { kind, id: params.id, value: row, updatedAt }]);
+  return Response.json({ type, row });
+}
+
+export async function DELETE(req: Request, { params }: Params){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const found = await find(params.id);
+  if (!found) return Response.json({ error: 'Not found' }, { status: 404 });
+  await serverStore().apply([{ kind: found.record.kind, id: params.id, value: null, deleted: true, updatedAt: new Date().toISOString() }]);
+  return new Response(null, { status: 204 });
+}
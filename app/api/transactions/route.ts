@@ -0,0 +1,27 @@
+import { uid } from "../../../lib/ids";
+import { expenseRowErrors, incomeRowErrors } from "../../../lib/schema";
+import { authorize, readJson, serverStore } from "../../../lib/syncStore";
+
+export const dynamic = 'force-dynamic';
+
+/** All income and expense rows currently stored on the server. */
+export async function GET(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const store = serverStore();
+  const [income, expenses] = await Promise.all([store.values('income'), store.values('expenses')]);
+  return Response.json({ income: income.map(r => r.value), expenses: expenses.map(r => r.value) });
+}
+
+/** Adds (or replaces, when `row.id` exists) one row: `{ type: 'income' | 'expense', row }`. */
+export async function POST(req: Request){
+  const denied = authorize(req);
+  if (denied) return denied;
+  const body = await readJson(req);
+  if (body?.type !== 'income' && body?.type !== 'expense') return Response.json({ error: "type must be 'income' or 'expense'" }, { status: 400 });
+  const row = { ...body.row, id: typeof body.row?.id === 'string' && body.row.id ? body.row.id : uid() };
+  const errors = body.type === 'income' ? incomeRowErrors(row) : expenseRowErrors(row);
+  if (errors.length) return Response.json({ error: 'Invalid row', errors }, { status: 400 });
+  await serverStore().apply([{ kind: body.type === 'income' ? 'income' : 'expenses', id: row.id, value: row, updatedAt: new Date().toISOString() }]);
+  return Response.json({ type: body.type, row }, { status: 201 });
+}
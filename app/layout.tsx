@@ -1,6 +1,15 @@
+import type { Viewport } from "next";
+
 export const metadata = {
   title: "Personal Budget Tracker — KRW ⇄ USD",
-  description: "Track income and expenses with KRW→USD conversion, local storage, and JSON import/export."
+  description: "Track income and expenses in KRW, USD, JPY and EUR, stored locally and offline, with optional sync between devices and JSON import/export.",
+  applicationName: "Budget",
+  appleWebApp: { capable: true, title: "Budget", statusBarStyle: "black-translucent" as const },
+  icons: { icon: "/favicon.png", apple: "/apple-touch-icon.png" }
+};
+
+export const viewport: Viewport = {
+  themeColor: "#0f172a"
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
@@ -9,4 +18,4 @@ export default function RootLayout({ children }: { children: React.ReactNode })
       <body>{children}</body>
     </html>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+/** Served as /manifest.webmanifest; the icons are the favicon colors scaled up with the app mark. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Personal Budget Tracker',
+    short_name: 'Budget',
+    description: 'Track income and expenses in KRW, USD, JPY and EUR. Works offline.',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#0b1220',
+    theme_color: '#0f172a',
+    icons: [
+      { src: '/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+    ]
+  };
+}
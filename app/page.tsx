@@ -1,54 +1,174 @@
 
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./globals.css";
+import {
+  CURRENCIES, DEFAULT_RATES, defaultRateSource, isCurrency, normalizeHistory, normalizeRates, ratesAreStale, ratesOn, refreshRates, removeRate, upsertRate,
+  type Currency, type RateHistory, type Rates
+} from "../lib/rates";
+import { planMerge, type MergeDecision, type MergePlan } from "../lib/merge";
+import { uid } from "../lib/ids";
+import {
+  DEFAULT_CATEGORIES, DEFAULT_INCOME_CATEGORIES, DEFAULT_WARN_AT, SCHEMA_VERSION, parseExportFile, type BudgetData, type ExportFile
+} from "../lib/schema";
+import type { Account, BudgetSettings, CategoryStyle, ExpenseRow, GoalEntry, IncomeRow, Loan, RecurringTemplate, SavingsGoal, Schedule, Transfer } from "../lib/types";
+import { CURRENCY_DECIMALS, conversionHint, fmtKRW, fmtMoney, fmtUSD, krwToUsd, rowCurrency, rowOriginal, rowValue } from "../lib/money";
+import { PERIOD_OPTIONS, currentMonthKey, daysInMonth, inRange, isoDate, monthKey, periodRange, type Period, type PeriodKind } from "../lib/dates";
+import {
+  MONTHS, WEEKDAYS, describeSchedule, emptyRecurringForm, isEnded, nextOccurrence, parseRecurringForm, runRecurring, type RecurringForm
+} from "../lib/recurring";
+import {
+  emptyLedger, emptyTransactionForm, parseTransactionForm, rowBudgetAlerts, rowsFromCsv, transactionForm, withCategories, type TransactionForm
+} from "../lib/ledger";
+import { categoryTotals, cumulativeSpend, monthlyTotals, periodTotals, sumByCategory, valuer, type Valuation } from "../lib/aggregate";
+import { buildExportFile, buildFullBackup, exportFileName, fullBackupFileName, ledgerFromFile, mergeFile, mergeRateHistory } from "../lib/backup";
+import { createIndexedDbReceiptStore, receiptErrorMessage, storeReceiptFiles, unusedReceipts, withReceipts, withoutReceipt, type ReceiptStore } from "../lib/receipts";
+import CsvImport, { type ImportedTransaction } from "../components/CsvImport";
+import ImportReview from "../components/ImportReview";
+import HistoryPanel from "../components/HistoryPanel";
+import SyncPanel, { type SyncStatus } from "../components/SyncPanel";
+import ReceiptViewer, { ReceiptPicker } from "../components/ReceiptViewer";
+import Report from "../components/Report";
+import { buildReport, csvFileName, monthRange, rangeMonth, reportCsv, rowsCsv } from "../lib/report";
+import { allTags, tagTotals, type TagTotal } from "../lib/tags";
+import { isTyping, moveIndex, tabStop } from "../lib/keyboard";
+import { parseQuickAdd, quickHistory, type QuickDraft } from "../lib/quickAdd";
+import { FilterBar, SortTh, TagList } from "../components/TableControls";
+import SplitEditor, { SplitLines } from "../components/SplitEditor";
+import QuickAdd from "../components/QuickAdd";
+import { CategoryDonut, CumulativeChart, MonthlyChart } from "../components/Charts";
+import CategoryManager, { CategoryLabel } from "../components/CategoryManager";
+import Accounts, { AccountSelect, Reconciliation, accountName } from "../components/Accounts";
+import Goals, { type GoalDraft } from "../components/Goals";
+import Debts, { type LoanDraft, type RepaymentDraft, type RowLink } from "../components/Debts";
+import { DEFAULT_ACCOUNTS, accountBalances, accountInUse } from "../lib/accounts";
+import { debtTotals, linkedRowType } from "../lib/loans";
+import { allocatedKRW, averageMonthlyNet } from "../lib/goals";
+import { createIndexedDbRepository, diffLedger, isEmptyChange, openLedger, type BudgetRepository } from "../lib/storage";
+import {
+  EMPTY_HISTORY, addRestorePoint, recordChange, redoChange, serializeRestorePoints, undoChange,
+  type HistoryEntry, type Snapshot, type UndoHistory
+} from "../lib/history";
+import {
+  SyncAuthError, applyRemote, initialUpload, queueRecords, readSyncState, recordKey, recordsFromChanges, syncOnce,
+  type SyncKind, type SyncState
+} from "../lib/sync";
+import { isNetworkError, onReconnect, registerServiceWorker, requestReplay } from "../lib/pwa";
+import { countByCategory, countTemplates, deleteCategory, moveCategory, renameCategory, retargetForm, type Categorized, type CategoryData, type CategoryKind } from "../lib/categories";
+import { DEFAULT_FILTER, filterRows, isFiltered, readFilterParams, sortRows, writeFilterParams, type TableFilter } from "../lib/filters";
 
-type IncomeRow = { id: string; date: string; desc: string; amount: number; notes?: string };
-type ExpenseRow = { id: string; date: string; category: string; desc: string; amount: number; notes?: string };
-type Tab = "income" | "expenses" | "summary";
+type EditState =
+  | { type: "income"; id: string; form: TransactionForm }
+  | { type: "expense"; id: string; form: TransactionForm };
+type PendingImport = { fileName: string; data: ExportFile; plan: MergePlan<IncomeRow, ExpenseRow> };
+type Tab = "income" | "expenses" | "recurring" | "debts" | "accounts" | "goals" | "summary" | "report";
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'income', label: 'Income' }, { id: 'expenses', label: 'Expenses' }, { id: 'recurring', label: 'Recurring' }, { id: 'debts', label: 'Debts' },
+  { id: 'accounts', label: 'Accounts' }, { id: 'goals', label: 'Goals' }, { id: 'summary', label: 'Summary' }, { id: 'report', label: 'Report' }
+];
 type ToastType = "info" | "success" | "error";
-type Toast = { id: string; message: string; type: ToastType };
+type ToastAction = { label: string; run: () => void };
+type Toast = { id: string; message: string; type: ToastType; action?: ToastAction };
 
 const RATE_STORAGE_KEY = 'budget_rate';
+const RATES_STORAGE_KEY = 'budget_rates';
+const DISPLAY_CURRENCY_KEY = 'budget_display_currency';
+const RATE_HISTORY_KEY = 'budget_rate_history';
+const VALUATION_KEY = 'budget_valuation';
 const RATE_FETCHED_AT_KEY = 'budget_rate_timestamp';
-const RATE_MAX_AGE_MS = 1000 * 60 * 60 * 12;
-
-const fmtKRW = new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW', maximumFractionDigits: 0 });
-const fmtUSD = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
-
-const DEFAULT_CATEGORIES = [
-  'Room and Utility',
-  'Daily Expense',
-  'Borrow Others',
-  'Food & Drinks',
-  'Transportation',
-  'Entertainment',
-  'Shopping',
-  'Other'
-] as const;
-
-function uid(){ return 'id-' + Date.now().toString(36) + '-' + Math.random().toString(36).slice(2,8); }
-function krwToUsd(krw:number, rate:number){
-  const normalizedRate = Number(rate);
-  if (!Number.isFinite(normalizedRate) || normalizedRate <= 0) return 0;
-  return Number(krw) / normalizedRate;
-}
-function esc(str: string){ return String(str).replace(/[&<>"']/g, s => ({'&':'&','<':'<','>':'>','"':'"','\'':"'" }[s] as string)); }
+const PERIOD_STORAGE_KEY = 'budget_period';
+const SYNC_PASSPHRASE_KEY = 'budget_sync_passphrase';
+const SYNC_DEBOUNCE_MS = 2000;
+const SYNC_INTERVAL_MS = 1000 * 60;
 
 export default function Page(){
-  const [rate, setRate] = useState(1388);
+  const [rates, setRates] = useState<Rates>(DEFAULT_RATES);
+  const rate = rates.USD;
+  const [displayCurrency, setDisplayCurrency] = useState<Currency>('KRW');
+  const [rateHistory, setRateHistory] = useState<RateHistory>([]);
+  const [valuation, setValuation] = useState<Valuation>('historical');
   useEffect(()=>{
     try {
-      const saved = localStorage.getItem(RATE_STORAGE_KEY);
-      if (!saved) return;
-      const parsed = Number(saved);
-      if (!Number.isFinite(parsed) || parsed <= 0) return;
-      setRate(parsed);
+      const savedTable = localStorage.getItem(RATES_STORAGE_KEY);
+      if (savedTable){
+        setRates(normalizeRates(JSON.parse(savedTable)));
+      } else {
+        // Older versions only stored the USD rate.
+        const saved = Number(localStorage.getItem(RATE_STORAGE_KEY));
+        if (Number.isFinite(saved) && saved > 0) setRates(r => ({ ...r, USD: saved }));
+      }
+      const display = localStorage.getItem(DISPLAY_CURRENCY_KEY);
+      if (isCurrency(display)) setDisplayCurrency(display);
+      setRateHistory(normalizeHistory(JSON.parse(localStorage.getItem(RATE_HISTORY_KEY) || '[]')));
+      if (localStorage.getItem(VALUATION_KEY) === 'today') setValuation('today');
     } catch (err) {
       console.error('Failed to load saved exchange rate', err);
     }
   }, []);
+  function saveRates(next: Rates){
+    setRates(next);
+    try {
+      localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(next));
+      localStorage.setItem(RATE_STORAGE_KEY, String(next.USD));
+    } catch (storageErr) {
+      console.error('Failed to persist exchange rate', storageErr);
+    }
+  }
+  function saveHistory(update: (h: RateHistory) => RateHistory){
+    setRateHistory(h => {
+      const next = update(h);
+      try {
+        localStorage.setItem(RATE_HISTORY_KEY, JSON.stringify(next));
+      } catch (storageErr) {
+        console.error('Failed to persist rate history', storageErr);
+      }
+      return next;
+    });
+  }
+  function onSetRate(currency: Currency, value: string){
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0 || n === rates[currency]) return;
+    const next = { ...rates, [currency]: n };
+    saveRates(next);
+    saveHistory(h => upsertRate(h, { date: isoDate(new Date()), rates: next, source: 'manual' }));
+  }
+  // Rate history overrides
+  const [rateForm, setRateForm] = useState<{ date: string; values: Record<Currency, string> } | null>(null);
+  function startRateOverride(date: string){
+    const base = ratesOn(rateHistory, date, rates);
+    const values = {} as Record<Currency, string>;
+    for (const c of CURRENCIES) values[c] = String(Number(base[c].toFixed(4)));
+    setRateForm({ date, values });
+  }
+  function onSaveRateOverride(e: React.FormEvent){
+    e.preventDefault();
+    if (!rateForm) return;
+    const next = { ...DEFAULT_RATES };
+    for (const c of CURRENCIES){
+      if (c === 'KRW') continue;
+      const n = Number(rateForm.values[c]);
+      if (!rateForm.date || !Number.isFinite(n) || n <= 0) { toast("Please enter a date and positive rates.", "error", 3500); return; }
+      next[c] = n;
+    }
+    saveHistory(h => upsertRate(h, { date: rateForm.date, rates: next, source: 'manual' }));
+    setRateForm(null);
+    toast("Rate override saved", "success");
+  }
+  function onDeleteRate(date: string){
+    const ok = window.confirm(`Remove the rates recorded for ${date}?`);
+    if (!ok) return;
+    saveHistory(h => removeRate(h, date));
+    toast("Rate removed", "success");
+  }
+  function onSetValuation(v: Valuation){
+    setValuation(v);
+    try { localStorage.setItem(VALUATION_KEY, v); } catch { /* non-critical preference */ }
+  }
+  function onSetDisplayCurrency(currency: Currency){
+    setDisplayCurrency(currency);
+    try { localStorage.setItem(DISPLAY_CURRENCY_KEY, currency); } catch { /* non-critical preference */ }
+  }
   // Tabs
   const [tab, setTab] = useState<Tab>('income');
   useEffect(()=>{
@@ -56,85 +176,353 @@ export default function Page(){
     if (last) setTab(last);
   }, []);
   useEffect(()=>{ localStorage.setItem('budget_active_tab', tab); }, [tab]);
+  // Arrow keys move between tabs (focus follows the selection)
+  function onTabKeyDown(e: React.KeyboardEvent){
+    const next = moveIndex(e.key, TABS.findIndex(t => t.id === tab), TABS.length, 'tabs');
+    if (next === null) return;
+    e.preventDefault();
+    setTab(TABS[next].id);
+    document.getElementById(`tab-btn-${TABS[next].id}`)?.focus();
+  }
+
+  // Period filter
+  const [period, setPeriod] = useState<Period>({ kind: 'all', from: '', to: '' });
+  useEffect(()=>{
+    try {
+      const saved = JSON.parse(localStorage.getItem(PERIOD_STORAGE_KEY) || 'null');
+      if (saved && PERIOD_OPTIONS.some(o => o.value === saved.kind)){
+        setPeriod({ kind: saved.kind, from: String(saved.from || ''), to: String(saved.to || '') });
+      }
+    } catch (err) {
+      console.error('Failed to load saved period', err);
+    }
+  }, []);
+  useEffect(()=>{ localStorage.setItem(PERIOD_STORAGE_KEY, JSON.stringify(period)); }, [period]);
 
   // Data
   const [income, setIncome] = useState<IncomeRow[]>([]);
   const [expenses, setExpenses] = useState<ExpenseRow[]>([]);
   const [categories, setCategories] = useState<string[]>([...DEFAULT_CATEGORIES]);
+  const [categoryStyles, setCategoryStyles] = useState<Record<string, CategoryStyle>>({});
+  const [incomeCategories, setIncomeCategories] = useState<string[]>([...DEFAULT_INCOME_CATEGORIES]);
+  const [incomeCategoryStyles, setIncomeCategoryStyles] = useState<Record<string, CategoryStyle>>({});
+  const [budgets, setBudgets] = useState<BudgetSettings>({ limits: {}, warnAt: DEFAULT_WARN_AT });
+  const [recurring, setRecurring] = useState<RecurringTemplate[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>(DEFAULT_ACCOUNTS);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
 
   // Toasts
   const [toasts, setToasts] = useState<Toast[]>([]);
-  function toast(message: string, type: ToastType = 'info', timeout = 2500){
+  function toast(message: string, type: ToastType = 'info', timeout = 2500, action?: ToastAction){
     const id = uid();
-    setToasts(t => [...t, { id, message, type }]);
+    setToasts(t => [...t, { id, message, type, action }]);
     setTimeout(()=> setToasts(t => t.filter(x => x.id !== id)), timeout);
   }
 
   useEffect(()=>{
     let cancelled = false;
+    // Set when a refresh failed for lack of a connection; it is retried once the connection is back
+    let pending = false;
     async function refreshRate(){
       try {
-        const res = await fetch('https://open.er-api.com/v6/latest/KRW');
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
-        const usdPerKrw = Number(data?.rates?.USD);
-        if (!Number.isFinite(usdPerKrw) || usdPerKrw <= 0) throw new Error('Invalid rate data');
-        const krwPerUsd = 1 / usdPerKrw;
+        const next = await refreshRates(defaultRateSource, isoDate(new Date()));
         if (cancelled) return;
-        setRate(krwPerUsd);
+        saveRates(next.rates);
+        saveHistory(h => upsertRate(h, next.entry));
         try {
-          localStorage.setItem(RATE_STORAGE_KEY, String(krwPerUsd));
           localStorage.setItem(RATE_FETCHED_AT_KEY, String(Date.now()));
         } catch (storageErr) {
           console.error('Failed to persist exchange rate', storageErr);
         }
       } catch (err) {
         if (cancelled) return;
-        console.error('Failed to fetch KRW to USD rate', err);
+        if (isNetworkError(err)){
+          // The offline indicator already says so; no need for an error toast
+          console.warn('Offline, exchange rates will be refreshed when the connection is back', err);
+          pending = true;
+          requestReplay();
+          return;
+        }
+        console.error(`Failed to fetch KRW exchange rates from ${defaultRateSource.name}`, err);
         toast('Unable to refresh exchange rate. Using the last known value.', 'error', 4000);
       }
     }
+    const stopReplay = onReconnect(()=>{
+      if (!pending) return;
+      pending = false;
+      refreshRate();
+    });
 
     try {
-      const lastFetched = Number(localStorage.getItem(RATE_FETCHED_AT_KEY));
-      if (!Number.isFinite(lastFetched) || (Date.now() - lastFetched) > RATE_MAX_AGE_MS){
-        refreshRate();
-      }
+      if (ratesAreStale(Number(localStorage.getItem(RATE_FETCHED_AT_KEY)))) refreshRate();
     } catch (err) {
       console.error('Failed to read stored exchange rate timestamp', err);
       refreshRate();
     }
 
-    return () => { cancelled = true; };
+    return () => {
+      cancelled = true;
+      stopReplay();
+    };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Load / Save
+  // Offline support: the service worker caches the app shell; the indicator replaces error toasts
+  const [online, setOnline] = useState(true);
   useEffect(()=>{
-    try {
-      const inc = JSON.parse(localStorage.getItem('budget_income') || '[]');
-      const exp = JSON.parse(localStorage.getItem('budget_expenses') || '[]');
-      const cat = JSON.parse(localStorage.getItem('budget_categories') || '[]');
-      setIncome(Array.isArray(inc) ? inc : []);
-      setExpenses(Array.isArray(exp) ? exp : []);
-      const catArr = Array.isArray(cat) && cat.length ? cat : [...DEFAULT_CATEGORIES];
-      const expCats = Array.isArray(exp) ? exp.map((e:any)=>e.category).filter(Boolean) : [];
-      setCategories(Array.from(new Set([...catArr, ...expCats])));
-    } catch {
-      setIncome([]); setExpenses([]); setCategories([...DEFAULT_CATEGORIES]);
-      toast("Local data was corrupted and has been reset.", "error", 4000);
+    registerServiceWorker();
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Load / Save. Only what changed since the last save is written (see lib/storage.ts).
+  const [loaded, setLoaded] = useState(false);
+  const repoRef = useRef<BudgetRepository | null>(null);
+  const savedRef = useRef<BudgetData | null>(null);
+  useEffect(()=>{
+    let cancelled = false;
+    async function load(){
+      try {
+        const repo = createIndexedDbRepository();
+        const stored = await openLedger(repo, localStorage);
+        if (cancelled) return;
+        repoRef.current = repo;
+        savedRef.current = stored.baseline;
+        syncBaseRef.current = stored.baseline;
+        syncRef.current = readSyncState(stored.sync);
+        setSyncPassphrase(localStorage.getItem(SYNC_PASSPHRASE_KEY) || '');
+        const run = runRecurring(stored.data.recurring, stored.data.income, stored.data.expenses, isoDate(new Date()));
+        setIncome([...stored.data.income, ...run.newIncome]);
+        setExpenses([...stored.data.expenses, ...run.newExpenses]);
+        setRecurring(run.templates);
+        setLoans(stored.data.loans);
+        setAccounts(stored.data.accounts);
+        setTransfers(stored.data.transfers);
+        setGoals(stored.data.goals);
+        setRestorePoints(stored.restorePoints);
+        setCategories(stored.data.categories);
+        setCategoryStyles(stored.data.categoryStyles);
+        setIncomeCategories(stored.data.incomeCategories);
+        setIncomeCategoryStyles(stored.data.incomeCategoryStyles);
+        setBudgets(stored.data.budgets);
+        pruneReceipts([stored.data, ...stored.restorePoints.map(p => p.data)]);
+        if (stored.errors.length){
+          console.warn('Skipped invalid stored data', stored.errors);
+          toast(`${stored.errors.length} stored item${stored.errors.length === 1 ? ' was' : 's were'} invalid and skipped. The original data was backed up.`, "error", 6000);
+        }
+        const created = run.newIncome.length + run.newExpenses.length;
+        if (created) toast(`Added ${created} recurring transaction${created === 1 ? '' : 's'}`, 'info', 4000);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load local data', err);
+        toast("Local data could not be loaded.", "error", 4000);
+      }
+      setLoaded(true);
     }
+    load();
+    return () => { cancelled = true; };
   }, []);
 
+  // Receipt images live in their own store; ones no row or restore point uses are removed at start
+  const receiptStoreRef = useRef<ReceiptStore | null>(null);
+  function pruneReceipts(ledgers: { expenses: ExpenseRow[] }[]){
+    const store = createIndexedDbReceiptStore();
+    receiptStoreRef.current = store;
+    store.all()
+      .then(all => store.remove(unusedReceipts(all.map(r => r.id), ledgers)))
+      .catch(err => console.error('Failed to clean up receipts', err));
+  }
+
+  useEffect(()=>{
+    // Never write before the stored data has been read, or it would be overwritten with empty state.
+    const repo = repoRef.current;
+    if (!loaded || !repo) return;
+    const next: BudgetData = { version: SCHEMA_VERSION, income, expenses, categories, categoryStyles, incomeCategories, incomeCategoryStyles, budgets, recurring, loans, accounts, transfers, goals };
+    const changes = diffLedger(savedRef.current, next);
+    savedRef.current = next;
+    // Diffed separately from what is saved, so a full rewrite after a failed save is not sent as a change to everything
+    const local = recordsFromChanges(diffLedger(syncBaseRef.current, next), new Date().toISOString(), isRemoteEcho);
+    syncBaseRef.current = next;
+    const queued = syncPassphrase && local.length > 0;
+    if (queued){
+      syncRef.current = { ...syncRef.current, outbox: queueRecords(syncRef.current.outbox, local) };
+      setSyncStatus(st => ({ ...st, waiting: syncRef.current.outbox.length }));
+      clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(()=>latest.current.sync(), SYNC_DEBOUNCE_MS);
+    }
+    if (isEmptyChange(changes)) return;
+    repo.write(queued ? { ...changes, settings: { ...changes.settings, sync: syncRef.current } } : changes).catch(err => {
+      console.error('Failed to save local data', err);
+      // The next save rewrites everything, so nothing from this one is lost
+      savedRef.current = null;
+      toast("Failed to save your data.", "error", 3500);
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded, income, expenses, categories, categoryStyles, incomeCategories, incomeCategoryStyles, budgets, recurring, loans, accounts, transfers, goals]);
+
+  // Undo / redo. `remember` is called before each change with the state it is about to replace;
+  // destructive changes also keep that state as a restore point that survives a reload.
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  const [restorePoints, setRestorePoints] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  function snapshot(): Snapshot {
+    return { income, expenses, categories, categoryStyles, incomeCategories, incomeCategoryStyles, budgets, recurring, loans, accounts, transfers, goals };
+  }
+  function applySnapshot(d: Snapshot){
+    setEditing(null);
+    setLedger(d);
+  }
+  function setLedger(d: Snapshot){
+    setIncome(d.income); setExpenses(d.expenses); setCategories(d.categories); setCategoryStyles(d.categoryStyles);
+    setIncomeCategories(d.incomeCategories); setIncomeCategoryStyles(d.incomeCategoryStyles);
+    setBudgets(d.budgets); setRecurring(d.recurring); setLoans(d.loans);
+    setAccounts(d.accounts); setTransfers(d.transfers); setGoals(d.goals);
+  }
+  function remember(label: string, restorePoint = false){
+    const entry: HistoryEntry = { id: uid(), label, at: new Date().toISOString(), data: snapshot() };
+    setHistory(h => recordChange(h, entry));
+    if (restorePoint) setRestorePoints(p => addRestorePoint(p, { ...entry, label: `Before: ${label}` }));
+  }
+  function onUndo(){
+    const step = undoChange(history, snapshot());
+    if (!step) { toast('Nothing to undo', 'info'); return; }
+    setHistory(step.history);
+    applySnapshot(step.entry.data);
+    toast(`Undone: ${step.entry.label}`, 'info', 5000, { label: 'Redo', run: () => latest.current.redo() });
+  }
+  function onRedo(){
+    const step = redoChange(history, snapshot());
+    if (!step) { toast('Nothing to redo', 'info'); return; }
+    setHistory(step.history);
+    applySnapshot(step.entry.data);
+    toast(`Redone: ${step.entry.label}`, 'info', 5000, { label: 'Undo', run: () => latest.current.undo() });
+  }
+  /** Success toast with an Undo button, for changes that remove or replace data. */
+  function undoable(message: string){
+    toast(message, 'success', 6000, { label: 'Undo', run: () => latest.current.undo() });
+  }
+  function onRestorePoint(point: HistoryEntry){
+    const ok = window.confirm(`Restore the data saved ${new Date(point.at).toLocaleString()}? Your current data is kept as a restore point.`);
+    if (!ok) return;
+    remember('Restore an earlier version', true);
+    applySnapshot(point.data);
+    setHistoryOpen(false);
+    undoable('Restore point applied');
+  }
+  // Toast buttons and the keyboard shortcut outlive the render they were created in
+  const latest = useRef({ undo: onUndo, redo: onRedo, sync: runSync, snapshot });
+  latest.current = { undo: onUndo, redo: onRedo, sync: runSync, snapshot };
   useEffect(()=>{
+    function onKeyDown(e: KeyboardEvent){
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      // Text fields keep their own undo
+      if (isTyping(e.target)) return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) latest.current.redo();
+      else latest.current.undo();
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+  useEffect(()=>{
+    if (!loaded || !repoRef.current) return;
+    repoRef.current.write({ settings: { restorePoints: serializeRestorePoints(restorePoints) } })
+      .catch(err => console.error('Failed to save restore points', err));
+  }, [loaded, restorePoints]);
+
+  // Optional server sync (lib/sync.ts). Local changes wait in an outbox saved with the data and
+  // are sent whenever the server can be reached, so nothing here ever blocks working offline.
+  const [syncPassphrase, setSyncPassphrase] = useState('');
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'off', waiting: 0 });
+  const syncRef = useRef<SyncState>({ outbox: [], cursor: 0 });
+  const syncBaseRef = useRef<BudgetData | null>(null);
+  const syncingRef = useRef(false);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // Values just pulled from the server, so saving them does not queue them to be sent back
+  const remoteValues = useRef(new WeakSet<object>());
+  const remoteDeletes = useRef(new Set<string>());
+  function isRemoteEcho(kind: SyncKind, id: string, value?: unknown){
+    if (value === undefined) return remoteDeletes.current.delete(recordKey({ kind, id }));
+    return typeof value === 'object' && value !== null && remoteValues.current.has(value);
+  }
+  function saveSyncState(){
+    repoRef.current?.write({ settings: { sync: syncRef.current } }).catch(err => console.error('Failed to save sync state', err));
+  }
+  async function runSync(passphrase = syncPassphrase){
+    if (!passphrase || syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncStatus(st => ({ ...st, state: 'syncing' }));
+    const sent = syncRef.current.outbox;
     try {
-      localStorage.setItem('budget_income', JSON.stringify(income));
-      localStorage.setItem('budget_expenses', JSON.stringify(expenses));
-      localStorage.setItem('budget_categories', JSON.stringify(categories));
-    } catch {
-      toast("Failed to save to local storage.", "error", 3500);
+      const res = await syncOnce('', passphrase, { since: syncRef.current.cursor, changes: sent });
+      const current = latest.current.snapshot();
+      // What was just sent comes back too; being in the outbox still, it is skipped as a tie
+      const pulled = applyRemote(current, res.records, syncRef.current.outbox);
+      for (const r of pulled.applied){
+        if (r.deleted) remoteDeletes.current.add(recordKey(r));
+        else remoteValues.current.add(r.value as object);
+      }
+      if (pulled.data !== current) setLedger(pulled.data);
+      syncRef.current = { outbox: syncRef.current.outbox.filter(r => !sent.includes(r)), cursor: res.cursor };
+      saveSyncState();
+      setSyncStatus({ state: 'synced', waiting: syncRef.current.outbox.length, lastSynced: new Date().toISOString() });
+      // Changes made while this request was out go in the next one
+      if (syncRef.current.outbox.length){
+        clearTimeout(syncTimerRef.current);
+        syncTimerRef.current = setTimeout(()=>latest.current.sync(), SYNC_DEBOUNCE_MS);
+      }
+    } catch (err) {
+      console.warn('Sync failed', err);
+      const waiting = syncRef.current.outbox.length;
+      if (err instanceof SyncAuthError) setSyncStatus(st => ({ ...st, state: 'error', message: err.message, waiting }));
+      else {
+        setSyncStatus(st => ({ ...st, state: 'offline', waiting }));
+        requestReplay();
+      }
+    } finally {
+      syncingRef.current = false;
     }
-  }, [income, expenses, categories]);
+  }
+  function onEnableSync(passphrase: string){
+    try {
+      localStorage.setItem(SYNC_PASSPHRASE_KEY, passphrase);
+    } catch (err) {
+      console.error('Failed to persist sync passphrase', err);
+    }
+    syncRef.current = { outbox: initialUpload({ version: SCHEMA_VERSION, ...snapshot() }), cursor: 0 };
+    saveSyncState();
+    setSyncPassphrase(passphrase);
+    runSync(passphrase);
+  }
+  function onDisableSync(){
+    const waiting = syncRef.current.outbox.length;
+    if (waiting && !window.confirm(`${waiting} change${waiting === 1 ? ' has' : 's have'} not reached the server yet. Turn off sync anyway? They stay in this browser.`)) return;
+    localStorage.removeItem(SYNC_PASSPHRASE_KEY);
+    clearTimeout(syncTimerRef.current);
+    syncRef.current = { outbox: [], cursor: 0 };
+    saveSyncState();
+    setSyncPassphrase('');
+    setSyncStatus({ state: 'off', waiting: 0 });
+  }
+  useEffect(()=>{
+    if (!loaded || !syncPassphrase) return;
+    latest.current.sync();
+    const stopReplay = onReconnect(()=>latest.current.sync());
+    const timer = setInterval(()=>{ if (document.visibilityState === 'visible' && navigator.onLine) latest.current.sync(); }, SYNC_INTERVAL_MS);
+    return () => {
+      stopReplay();
+      clearInterval(timer);
+    };
+  }, [loaded, syncPassphrase]);
 
   // Forms refs
   const incomeDateRef = useRef<HTMLInputElement>(null);
@@ -151,83 +539,301 @@ export default function Page(){
     setToday(expenseDateRef.current);
   }, [tab]);
 
-  // Totals
-  const totals = useMemo(()=>{
-    const incomeKRW = income.reduce((s,r)=> s + Number(r.amount||0), 0);
-    const expenseKRW = expenses.reduce((s,r)=> s + Number(r.amount||0), 0);
-    const remainingKRW = incomeKRW - expenseKRW;
-    return {
-      incomeKRW, expenseKRW, remainingKRW,
-      incomeUSD: krwToUsd(incomeKRW, rate),
-      expenseUSD: krwToUsd(expenseKRW, rate),
-      remainingUSD: krwToUsd(remainingKRW, rate)
-    };
-  }, [income, expenses, rate]);
+  // Records in the selected period
+  const range = useMemo(()=> periodRange(period), [period]);
+  const visibleIncome = useMemo(()=> income.filter(r => inRange(r.date, range)), [income, range]);
+  const visibleExpenses = useMemo(()=> expenses.filter(r => inRange(r.date, range)), [expenses, range]);
+
+  // Table search / filter / sort, mirrored in the query string so a view can be bookmarked
+  const [incomeFilter, setIncomeFilter] = useState<TableFilter>(DEFAULT_FILTER);
+  const [expenseFilter, setExpenseFilter] = useState<TableFilter>(DEFAULT_FILTER);
+  const [filtersReady, setFiltersReady] = useState(false);
+  useEffect(()=>{
+    const params = new URLSearchParams(window.location.search);
+    setIncomeFilter(readFilterParams(params, 'inc'));
+    setExpenseFilter(readFilterParams(params, 'exp'));
+    setFiltersReady(true);
+  }, []);
+  useEffect(()=>{
+    if (!filtersReady) return;
+    const params = new URLSearchParams(window.location.search);
+    writeFilterParams(params, 'inc', incomeFilter);
+    writeFilterParams(params, 'exp', expenseFilter);
+    const query = params.toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [filtersReady, incomeFilter, expenseFilter]);
+  const patchIncomeFilter = (patch: Partial<TableFilter>) => setIncomeFilter(f => ({ ...f, ...patch }));
+  const patchExpenseFilter = (patch: Partial<TableFilter>) => setExpenseFilter(f => ({ ...f, ...patch }));
+  const tagOptions = useMemo(()=> allTags(income, expenses), [income, expenses]);
+  const incomeRows = useMemo(()=> sortRows(filterRows(visibleIncome, incomeFilter), incomeFilter.sort, incomeFilter.dir), [visibleIncome, incomeFilter]);
+  const expenseRows = useMemo(()=> sortRows(filterRows(visibleExpenses, expenseFilter), expenseFilter.sort, expenseFilter.dir), [visibleExpenses, expenseFilter]);
 
-  const breakdown = useMemo(()=>{
-    const byCat: Record<string, number> = {};
-    for (const e of expenses) byCat[e.category] = (byCat[e.category]||0) + Number(e.amount||0);
-    return byCat;
-  }, [expenses]);
+  // Summary figures (lib/aggregate.ts), valued per `valuation`
+  const valueAt = useMemo(()=> valuer(valuation, rates, rateHistory), [valuation, rates, rateHistory]);
+  const totals = useMemo(()=> periodTotals(visibleIncome, visibleExpenses, displayCurrency, valueAt), [visibleIncome, visibleExpenses, displayCurrency, valueAt]);
+  const breakdown = useMemo(()=> sumByCategory(visibleExpenses), [visibleExpenses]);
+  const incomeBreakdown = useMemo(()=> categoryTotals(visibleIncome, valueAt), [visibleIncome, valueAt]);
+  const tagBreakdown = useMemo(()=> tagTotals(visibleIncome, visibleExpenses, valueAt), [visibleIncome, visibleExpenses, valueAt]);
+  // Same valuation as the cards, so chart tooltips agree with the totals
+  const breakdownUSD = useMemo(()=> sumByCategory(visibleExpenses, r => valueAt(r, 'USD')), [visibleExpenses, valueAt]);
+  const monthly = useMemo(()=> monthlyTotals(visibleIncome, visibleExpenses, valueAt), [visibleIncome, visibleExpenses, valueAt]);
+
+  // Spending per category for the current month, compared against the monthly limits
+  const thisMonth = currentMonthKey();
+  const monthBreakdown = useMemo(()=> sumByCategory(expenses.filter(e => monthKey(e.date) === thisMonth)), [expenses, thisMonth]);
+  const dailySpend = useMemo(()=> cumulativeSpend(expenses, isoDate(new Date()), valueAt), [expenses, valueAt]);
 
   // Form state
-  const [incomeForm, setIncomeForm] = useState({ date: "", desc: "", amount: "", notes: "" });
-  const [expenseForm, setExpenseForm] = useState({ date: "", category: "", desc: "", amount: "", notes: "" });
+  const [incomeForm, setIncomeForm] = useState<TransactionForm>(emptyTransactionForm);
+  const [expenseForm, setExpenseForm] = useState<TransactionForm>(emptyTransactionForm);
+  const [editing, setEditing] = useState<EditState | null>(null);
   useEffect(()=>{
     // initialize date fields when forms mount
-    if (!incomeForm.date && incomeDateRef.current){
-      const t = new Date(); const m = String(t.getMonth()+1).padStart(2,'0'); const d = String(t.getDate()).padStart(2,'0');
-      setIncomeForm(f=>({ ...f, date: `${t.getFullYear()}-${m}-${d}` }));
-    }
-    if (!expenseForm.date && expenseDateRef.current){
-      const t = new Date(); const m = String(t.getMonth()+1).padStart(2,'0'); const d = String(t.getDate()).padStart(2,'0');
-      setExpenseForm(f=>({ ...f, date: `${t.getFullYear()}-${m}-${d}` }));
-    }
+    if (!incomeForm.date && incomeDateRef.current) setIncomeForm(f=>({ ...f, date: isoDate(new Date()) }));
+    if (!expenseForm.date && expenseDateRef.current) setExpenseForm(f=>({ ...f, date: isoDate(new Date()) }));
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Helpers
-  const incomeUSD = useMemo(()=>{
-    const v = Number(incomeForm.amount || 0);
-    return fmtUSD.format(krwToUsd(v, rate));
-  }, [incomeForm.amount, rate]);
-  const expenseUSD = useMemo(()=>{
-    const v = Number(expenseForm.amount || 0);
-    return fmtUSD.format(krwToUsd(v, rate));
-  }, [expenseForm.amount, rate]);
+  // Table USD columns always use the rate in effect on the row's date
+  function rowUSD(r: IncomeRow | ExpenseRow){ return rowValue(r, 'USD', ratesOn(rateHistory, r.date, rates)); }
+  const incomeUSD = useMemo(()=> conversionHint(incomeForm.amount, incomeForm.currency, rates), [incomeForm.amount, incomeForm.currency, rates]);
+  const expenseUSD = useMemo(()=> conversionHint(expenseForm.amount, expenseForm.currency, rates), [expenseForm.amount, expenseForm.currency, rates]);
 
   function onAddIncome(e: React.FormEvent){
     e.preventDefault();
-    const date = incomeForm.date.trim();
-    const desc = incomeForm.desc.trim();
-    const amount = Math.round(Number(incomeForm.amount));
-    let ok = true;
-    if (!date) ok = false;
-    if (!desc) ok = false;
-    if (!(amount > 0)) ok = false;
-    if (!ok) { toast("Please fix the errors above.", "error", 3500); return; }
-    const row: IncomeRow = { id: uid(), date, desc, amount, notes: incomeForm.notes.trim() };
+    const parsed = parseTransactionForm(incomeForm, rates);
+    if (!parsed) { toast("Please fix the errors above.", "error", 3500); return; }
+    const row: IncomeRow = { id: uid(), ...parsed };
+    remember('Add income');
     setIncome(v => [...v, row]);
     toast("Income added", "success");
-    setIncomeForm(f => ({ date: f.date, desc: "", amount: "", notes: "" }));
+    setIncomeForm(f => emptyTransactionForm(f.date, f.currency, f.accountId));
   }
 
-  function onAddExpense(e: React.FormEvent){
+  async function onAddExpense(e: React.FormEvent){
     e.preventDefault();
-    const date = expenseForm.date.trim();
-    const category = expenseForm.category.trim();
-    const desc = expenseForm.desc.trim();
-    const amount = Math.round(Number(expenseForm.amount));
-    let ok = true;
-    if (!date) ok = false;
-    if (!category) ok = false;
-    if (!desc) ok = false;
-    if (!(amount > 0)) ok = false;
-    if (!ok) { toast("Please fix the errors above.", "error", 3500); return; }
-    const row: ExpenseRow = { id: uid(), date, category, desc, amount, notes: expenseForm.notes.trim() };
+    const parsed = parseTransactionForm(expenseForm, rates);
+    if (!parsed) { toast("Please fix the errors above.", "error", 3500); return; }
+    let receiptIds: string[] = [];
+    if (expenseReceipts.length){
+      const ids = await storeReceipts(expenseReceipts);
+      if (!ids) return;
+      receiptIds = ids;
+    }
+    const row: ExpenseRow = withReceipts({ id: uid(), ...parsed }, receiptIds);
+    remember('Add expense');
     setExpenses(v => [...v, row]);
     toast("Expense added", "success");
-    setExpenseForm(f => ({ date: f.date, category: "", desc: "", amount: "", notes: "" }));
+    checkRowBudgets(row);
+    setExpenseForm(f => emptyTransactionForm(f.date, f.currency, f.accountId));
+    setExpenseReceipts([]);
+  }
+
+  // Quick add: "/" opens a one-line entry bar; new rows use the account last picked in the forms
+  const [quickAddOpen, setQuickAddOpen] = useState(false);
+  const quickRows = useMemo(()=> quickHistory(income, expenses), [income, expenses]);
+  const parseQuick = useCallback((input: string) => parseQuickAdd(input, {
+    today: new Date(), categories, incomeCategories, history: quickRows, currency: expenseForm.currency
+  }), [categories, incomeCategories, quickRows, expenseForm.currency]);
+  function onQuickAdd(draft: QuickDraft){
+    const accountId = (draft.type === 'income' ? incomeForm : expenseForm).accountId;
+    const parsed = parseTransactionForm({ ...draft.form, accountId }, rates);
+    if (!parsed) { toast("That entry could not be added.", "error", 3500); return false; }
+    if (draft.type === 'income'){
+      remember('Add income');
+      setIncome(v => [...v, { id: uid(), ...parsed }]);
+      undoable(`Income added: ${parsed.desc}`);
+    } else {
+      const row: ExpenseRow = { id: uid(), ...parsed };
+      remember('Add expense');
+      setExpenses(v => [...v, row]);
+      undoable(`Expense added: ${parsed.desc}`);
+      checkRowBudgets(row);
+    }
+    return true;
+  }
+  useEffect(()=>{
+    function onKeyDown(e: KeyboardEvent){
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target) || document.querySelector('[aria-modal="true"]')) return;
+      if (e.key === '/'){
+        e.preventDefault();
+        setQuickAddOpen(true);
+      } else if (/^[1-9]$/.test(e.key) && TABS[Number(e.key) - 1]){
+        setTab(TABS[Number(e.key) - 1].id);
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Receipts: images are stored first, then the row is changed to point at them
+  const [expenseReceipts, setExpenseReceipts] = useState<File[]>([]);
+  const [receiptRowId, setReceiptRowId] = useState<string | null>(null);
+  const [receiptVersion, setReceiptVersion] = useState(0);
+  const [savingReceipts, setSavingReceipts] = useState(false);
+  const receiptRow = receiptRowId ? expenses.find(r => r.id === receiptRowId) : undefined;
+  /** Makes thumbnails and stores the images; returns their ids, or null (after a toast) on failure. */
+  async function storeReceipts(files: File[]): Promise<string[] | null> {
+    const store = receiptStoreRef.current;
+    if (!store) { toast("Receipts cannot be stored until local data has loaded.", "error", 4000); return null; }
+    setSavingReceipts(true);
+    try {
+      const ids = await storeReceiptFiles(store, files);
+      setReceiptVersion(v => v + 1);
+      return ids;
+    } catch (err) {
+      console.error('Failed to store receipts', err);
+      toast(receiptErrorMessage(err), "error", 4500);
+      return null;
+    } finally {
+      setSavingReceipts(false);
+    }
+  }
+  async function onAttachReceipts(rowId: string, files: File[]){
+    const ids = await storeReceipts(files);
+    if (!ids) return;
+    remember(ids.length === 1 ? 'Attach receipt' : 'Attach receipts');
+    setExpenses(v => v.map(r => r.id === rowId ? withReceipts(r, ids) : r));
+    toast(ids.length === 1 ? "Receipt attached" : `${ids.length} receipts attached`, "success");
+  }
+  function onRemoveReceipt(rowId: string, receiptId: string){
+    remember('Remove receipt');
+    setExpenses(v => v.map(r => r.id === rowId ? withoutReceipt(r, receiptId) : r));
+    undoable("Receipt removed");
+  }
+
+  // Budgets
+  function checkRowBudgets(row: ExpenseRow){
+    for (const alert of rowBudgetAlerts(budgets, expenses, row)) toast(alert.message, alert.type, alert.type === 'error' ? 5000 : 4500);
+  }
+  const budgetTotal = Object.values(budgets.limits).reduce((s, v)=> s + (v || 0), 0);
+
+  // Donut click: narrow the expense table to that category (clicking it again clears the filter)
+  function onShowCategory(category: string){
+    const next = expenseFilter.category === category ? '' : category;
+    setExpenseFilter(f => ({ ...f, category: next }));
+    if (next) setTab('expenses');
+  }
+  // Tag totals: open the table the tag is mostly used in, filtered to it
+  function onShowTag(t: TagTotal){
+    if (t.expense || !t.income){
+      patchExpenseFilter({ tag: t.tag });
+      setTab('expenses');
+    } else {
+      patchIncomeFilter({ tag: t.tag });
+      setTab('income');
+    }
+  }
+
+  function onSetLimit(category: string, value: string){
+    const n = Math.round(Number(value));
+    setBudgets(b => {
+      const limits = { ...b.limits };
+      if (Number.isFinite(n) && n > 0) limits[category] = n;
+      else delete limits[category];
+      return { ...b, limits };
+    });
+  }
+  function onSetWarnAt(value: string){
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0 || n > 100) return;
+    setBudgets(b => ({ ...b, warnAt: n }));
+  }
+
+  // Recurring templates
+  const [recurringForm, setRecurringForm] = useState<RecurringForm>(emptyRecurringForm);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const today = isoDate(new Date());
+
+  function applyRecurring(templates: RecurringTemplate[]){
+    const run = runRecurring(templates, income, expenses, today);
+    setRecurring(run.templates);
+    if (run.newIncome.length) setIncome(v => [...v, ...run.newIncome]);
+    if (run.newExpenses.length) setExpenses(v => [...v, ...run.newExpenses]);
+    return run.newIncome.length + run.newExpenses.length;
+  }
+  function onSaveTemplate(e: React.FormEvent){
+    e.preventDefault();
+    const parsed = parseRecurringForm(recurringForm);
+    if (!parsed) { toast("Please fix the errors above.", "error", 3500); return; }
+    const next = editingTemplateId
+      ? recurring.map(t => t.id === editingTemplateId ? { ...t, ...parsed } : t)
+      : [...recurring, { id: uid(), paused: false, ...parsed }];
+    remember(editingTemplateId ? 'Edit recurring template' : 'Add recurring template');
+    const created = applyRecurring(next);
+    toast(editingTemplateId ? "Recurring template updated" : "Recurring template added", "success");
+    if (created) toast(`Added ${created} recurring transaction${created === 1 ? '' : 's'}`, 'info', 4000);
+    setEditingTemplateId(null);
+    setRecurringForm(emptyRecurringForm());
+  }
+  function startEditTemplate(t: RecurringTemplate){
+    const base = emptyRecurringForm();
+    setEditingTemplateId(t.id);
+    setRecurringForm({
+      ...base,
+      type: t.type, desc: t.desc, amount: String(t.amount), category: t.category || '', notes: t.notes || '', accountId: t.accountId || '',
+      freq: t.schedule.freq, startDate: t.startDate, endDate: t.endDate || '',
+      day: 'day' in t.schedule ? String(t.schedule.day) : base.day,
+      weekday: t.schedule.freq === 'weekly' ? String(t.schedule.weekday) : base.weekday,
+      month: t.schedule.freq === 'yearly' ? String(t.schedule.month) : base.month
+    });
+  }
+  function onTogglePause(id: string){
+    // Resuming skips the occurrences that fell inside the pause instead of backfilling them.
+    remember('Pause / resume recurring template');
+    setRecurring(v => v.map(t => t.id !== id ? t : t.paused ? { ...t, paused: false, lastRun: today } : { ...t, paused: true }));
+  }
+  function onEndTemplate(id: string){
+    const ok = window.confirm('End this recurring template? No further transactions will be created.');
+    if (!ok) return;
+    remember('End recurring template');
+    setRecurring(v => v.map(t => t.id === id ? { ...t, endDate: today, lastRun: today } : t));
+    toast("Recurring template ended", "success");
+  }
+  function onDeleteTemplate(id: string){
+    const ok = window.confirm('Delete this recurring template? Transactions it already created are kept.');
+    if (!ok) return;
+    remember('Delete recurring template', true);
+    setRecurring(v => v.filter(t => t.id !== id));
+    if (editingTemplateId === id) { setEditingTemplateId(null); setRecurringForm(emptyRecurringForm()); }
+    undoable("Recurring template deleted");
+  }
+
+  // Inline editing
+  function startEditIncome(row: IncomeRow){
+    setEditing({ type: "income", id: row.id, form: transactionForm(row) });
+  }
+  function startEditExpense(row: ExpenseRow){
+    setEditing({ type: "expense", id: row.id, form: transactionForm(row) });
+  }
+  function setIncomeEdit(patch: Partial<TransactionForm>){
+    setEditing(ed => ed && ed.type === "income" ? { ...ed, form: { ...ed.form, ...patch } } : ed);
+  }
+  function setExpenseEdit(patch: Partial<TransactionForm>){
+    setEditing(ed => ed && ed.type === "expense" ? { ...ed, form: { ...ed.form, ...patch } } : ed);
+  }
+  function onSaveEdit(){
+    if (!editing) return;
+    if (editing.type === "income"){
+      const parsed = parseTransactionForm(editing.form, rates, income.find(r => r.id === editing.id));
+      if (!parsed) { toast("Please fix the errors in the row.", "error", 3500); return; }
+      const id = editing.id;
+      remember('Edit record');
+      setIncome(v => v.map(r => r.id === id ? { ...r, ...parsed } : r));
+    } else {
+      const parsed = parseTransactionForm(editing.form, rates, expenses.find(r => r.id === editing.id));
+      if (!parsed) { toast("Please fix the errors in the row.", "error", 3500); return; }
+      const id = editing.id;
+      remember('Edit record');
+      setExpenses(v => v.map(r => r.id === id ? { ...r, ...parsed } : r));
+      checkRowBudgets({ id, ...parsed });
+    }
+    setEditing(null);
+    toast("Record updated", "success");
+  }
+  function onEditKeyDown(e: React.KeyboardEvent){
+    if (e.key === "Enter" && !(e.target instanceof HTMLTextAreaElement)) { e.preventDefault(); onSaveEdit(); }
+    else if (e.key === "Escape") setEditing(null);
   }
 
   function onAddCategory(){
@@ -237,53 +843,247 @@ export default function Page(){
       toast('Category already exists', 'error', 3000);
       return;
     }
+    remember('Add category');
     setCategories(c => [...c, name]);
     setExpenseForm(f => ({ ...f, category: name }));
     toast('Category added', 'success');
   }
 
-  function onDelete(id: string, type: "income"|"expense"){
-    const ok = window.confirm('Delete this record? This cannot be undone.');
+  // Loans: the transfer and each repayment can create (or point at) an income/expense row
+  const debts = useMemo(()=> debtTotals(loans), [loans]);
+  function addLoanRow(type: 'income' | 'expense', date: string, amount: number, desc: string, notes = ''): string {
+    const list = type === 'income' ? incomeCategories : categories;
+    const category = list.includes('Borrow Others') ? 'Borrow Others' : 'Other';
+    const row = { id: uid(), date, category, desc, amount, notes };
+    if (type === 'income'){
+      setIncome(v => [...v, row]);
+      setIncomeCategories(c => c.includes(category) ? c : [...c, category]);
+    } else {
+      setExpenses(v => [...v, row]);
+      setCategories(c => c.includes(category) ? c : [...c, category]);
+    }
+    return row.id;
+  }
+  function onAddLoan(draft: LoanDraft, link: RowLink){
+    const desc = draft.desc || (draft.direction === 'lent' ? `Lent to ${draft.person}` : `Borrowed from ${draft.person}`);
+    remember(draft.direction === 'lent' ? 'Add loan' : 'Add debt');
+    const rowId = link === 'new' ? addLoanRow(linkedRowType(draft.direction, false), draft.date, draft.amount, desc) : link || undefined;
+    setLoans(v => [...v, { id: uid(), person: draft.person, direction: draft.direction, date: draft.date, amount: draft.amount, desc: draft.desc || undefined, rowId, repayments: [] }]);
+    toast(draft.direction === 'lent' ? 'Loan added' : 'Debt added', 'success');
+  }
+  function onAddRepayment(loanId: string, draft: RepaymentDraft, link: RowLink){
+    const loan = loans.find(l => l.id === loanId);
+    if (!loan) return;
+    const desc = loan.direction === 'lent' ? `Repayment from ${loan.person}` : `Repaid ${loan.person}`;
+    remember('Add repayment');
+    const rowId = link === 'new' ? addLoanRow(linkedRowType(loan.direction, true), draft.date, draft.amount, desc, draft.notes) : link || undefined;
+    const repayment = { id: uid(), date: draft.date, amount: draft.amount, rowId, notes: draft.notes || undefined };
+    setLoans(v => v.map(l => l.id === loanId ? { ...l, repayments: [...l.repayments, repayment] } : l));
+    toast('Repayment recorded', 'success');
+  }
+  function onDeleteLoan(id: string){
+    const ok = window.confirm('Delete this loan and its repayments? Linked income/expense records are kept.');
+    if (!ok) return;
+    remember('Delete loan', true);
+    setLoans(v => v.filter(l => l.id !== id));
+    undoable('Loan deleted');
+  }
+  function onDeleteRepayment(loanId: string, repaymentId: string){
+    const ok = window.confirm('Delete this repayment? A linked income/expense record is kept.');
     if (!ok) return;
+    remember('Delete repayment', true);
+    setLoans(v => v.map(l => l.id === loanId ? { ...l, repayments: l.repayments.filter(r => r.id !== repaymentId) } : l));
+    undoable('Repayment deleted');
+  }
+
+  // Accounts: balances run over all dated records up to today, independent of the period filter
+  const balances = useMemo(()=> accountBalances(accounts, income, expenses, transfers, today), [accounts, income, expenses, transfers, today]);
+  function onAddAccount(name: string, openingBalance: number){
+    remember('Add account');
+    setAccounts(v => [...v, { id: uid(), name, openingBalance }]);
+    toast('Account added', 'success');
+  }
+  function onUpdateAccount(id: string, patch: Partial<Account>){
+    setAccounts(v => v.map(a => a.id === id ? { ...a, ...patch } : a));
+  }
+  function onDeleteAccount(id: string){
+    if (accountInUse(id, { income, expenses, transfers, recurring })) { toast('Records still use this account; archive it instead.', 'error', 3500); return; }
+    const ok = window.confirm(`Delete the account "${accountName(accounts, id)}"?`);
+    if (!ok) return;
+    remember('Delete account', true);
+    setAccounts(v => v.filter(a => a.id !== id));
+    undoable('Account deleted');
+  }
+  function onAddTransfer(t: Omit<Transfer, "id">){
+    remember('Add transfer');
+    setTransfers(v => [...v, { id: uid(), ...t }]);
+    toast('Transfer added', 'success');
+  }
+  function onDeleteTransfer(id: string){
+    const ok = window.confirm('Delete this transfer?');
+    if (!ok) return;
+    remember('Delete transfer', true);
+    setTransfers(v => v.filter(t => t.id !== id));
+    undoable('Transfer deleted');
+  }
+
+  // Savings goals: allocations come out of all-time remaining funds, independent of the period filter
+  const avgNet = useMemo(()=> averageMonthlyNet(income, expenses, today), [income, expenses, today]);
+  const allocated = useMemo(()=> allocatedKRW(goals, rates.USD), [goals, rates]);
+  const unallocated = useMemo(()=>
+    income.reduce((s,r)=> s + r.amount, 0) - expenses.reduce((s,r)=> s + r.amount, 0) - allocated,
+  [income, expenses, allocated]);
+  function onAddGoal(draft: GoalDraft){
+    remember('Add goal');
+    setGoals(v => [...v, { id: uid(), ...draft, entries: [] }]);
+    toast('Goal added', 'success');
+  }
+  function onDeleteGoal(id: string){
+    const ok = window.confirm('Delete this goal? Its allocations are released back to remaining funds.');
+    if (!ok) return;
+    remember('Delete goal', true);
+    setGoals(v => v.filter(g => g.id !== id));
+    undoable('Goal deleted');
+  }
+  function onAddGoalEntry(goalId: string, entry: Omit<GoalEntry, "id">){
+    remember(entry.kind === 'allocation' ? 'Allocate to goal' : 'Log goal contribution');
+    setGoals(v => v.map(g => g.id === goalId ? { ...g, entries: [...g.entries, { id: uid(), ...entry }] } : g));
+    toast(entry.kind === 'allocation' ? 'Allocated to goal' : 'Contribution logged', 'success');
+  }
+  function onDeleteGoalEntry(goalId: string, entryId: string){
+    const ok = window.confirm('Delete this entry?');
+    if (!ok) return;
+    remember('Delete goal entry', true);
+    setGoals(v => v.map(g => g.id === goalId ? { ...g, entries: g.entries.filter(e => e.id !== entryId) } : g));
+    undoable('Entry deleted');
+  }
+
+  // Category manager: rename / merge / delete rewrite every row, template and budget using the name
+  const [categoryManager, setCategoryManager] = useState<CategoryKind | null>(null);
+  const categoryCounts = useMemo(()=> countByCategory(expenses), [expenses]);
+  const incomeCategoryCounts = useMemo(()=> countByCategory(income), [income]);
+  const templateCounts = useMemo(()=> countTemplates('expense', recurring), [recurring]);
+  const incomeTemplateCounts = useMemo(()=> countTemplates('income', recurring), [recurring]);
+  function applyCategoryChange(kind: CategoryKind, from: string, to: string, change: <T extends Categorized>(d: CategoryData<T>) => CategoryData<T>){
+    const retarget = <F extends { category: string }>(f: F) => retargetForm(f, from, to);
+    if (kind === 'income'){
+      const next = change({ categories: incomeCategories, rows: income, recurring, limits: {}, styles: incomeCategoryStyles });
+      setIncomeCategories(next.categories); setIncome(next.rows); setRecurring(next.recurring); setIncomeCategoryStyles(next.styles);
+      setIncomeForm(retarget);
+      setIncomeFilter(retarget);
+    } else {
+      const next = change({ categories, rows: expenses, recurring, limits: budgets.limits, styles: categoryStyles });
+      setCategories(next.categories); setExpenses(next.rows); setRecurring(next.recurring);
+      setBudgets(b => ({ ...b, limits: next.limits })); setCategoryStyles(next.styles);
+      setExpenseForm(retarget);
+      setExpenseFilter(retarget);
+    }
+    setRecurringForm(f => f.type === kind ? retarget(f) : f);
+    setEditing(e => e?.type === kind ? { ...e, form: retarget(e.form) } as EditState : e);
+  }
+  function onRenameCategory(kind: CategoryKind, from: string, to: string){
+    const merge = (kind === 'income' ? incomeCategories : categories).includes(to);
+    if (merge) remember(`Merge category "${from}" into "${to}"`, true);
+    else remember(`Rename category "${from}"`);
+    applyCategoryChange(kind, from, to, d => renameCategory(kind, d, from, to));
+    toast(merge ? `Merged "${from}" into "${to}"` : `Renamed "${from}" to "${to}"`, 'success');
+  }
+  function onDeleteCategory(kind: CategoryKind, name: string, moveTo?: string){
+    const n = (kind === 'income' ? incomeCategoryCounts : categoryCounts)[name] || 0;
+    remember(`Delete category "${name}"`, true);
+    // Forms and filters still pointing at a dropped category are cleared
+    applyCategoryChange(kind, name, moveTo ?? '', d => deleteCategory(kind, d, name, moveTo));
+    toast(moveTo && n ? `Deleted "${name}" and moved ${n} record${n === 1 ? '' : 's'} to "${moveTo}"` : moveTo ? `Deleted "${name}" and moved its templates to "${moveTo}"` : `Deleted "${name}"`, 'success');
+  }
+
+  // Record tables: arrow keys or j / k move between rows, Enter edits, Delete removes.
+  // The last focused row of each table keeps its tab stop.
+  const [rowFocus, setRowFocus] = useState<Record<'income' | 'expense', string>>({ income: '', expense: '' });
+  const incomeTabStop = tabStop(incomeRows.map(r => r.id), rowFocus.income);
+  const expenseTabStop = tabStop(expenseRows.map(r => r.id), rowFocus.expense);
+  function onRowKeyDown(e: React.KeyboardEvent<HTMLTableRowElement>, edit: () => void, remove: () => void){
+    if (e.target !== e.currentTarget) return;
+    const rows = Array.from(e.currentTarget.parentElement?.querySelectorAll<HTMLElement>('tr[data-row]') || []);
+    const index = rows.indexOf(e.currentTarget);
+    const next = moveIndex(e.key, index, rows.length, 'rows');
+    if (next !== null){
+      e.preventDefault();
+      rows[next].focus();
+    } else if (e.key === 'Enter'){
+      e.preventDefault();
+      edit();
+    } else if (e.key === 'Delete'){
+      e.preventDefault();
+      // Keep the focus in the table
+      (rows[index + 1] || rows[index - 1])?.focus();
+      remove();
+    }
+  }
+  function onDelete(id: string, type: "income"|"expense"){
+    remember('Delete record', true);
+    if (editing?.id === id) setEditing(null);
     if (type === "income") setIncome(v => v.filter(r => r.id !== id));
     else setExpenses(v => v.filter(r => r.id !== id));
-    toast("Record deleted", "success");
+    undoable("Record deleted");
   }
 
   // Export / Import / Clear
-  function exportJSON(){
-    const data = { version: 1, rate, exportedAt: new Date().toISOString(), income, expenses, categories };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  function download(blob: Blob, fileName: string){
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
-    const ts = new Date();
-    const name = `budget_export_${ts.getFullYear()}-${String(ts.getMonth()+1).padStart(2,'0')}-${String(ts.getDate()).padStart(2,'0')}.json`;
-    a.href = url; a.download = name; document.body.appendChild(a); a.click(); a.remove(); URL.revokeObjectURL(url);
+    a.href = url; a.download = fileName; document.body.appendChild(a); a.click(); a.remove(); URL.revokeObjectURL(url);
+  }
+  function exportJSON(){
+    const data = buildExportFile(snapshot(), { rates, rateHistory, displayCurrency });
+    download(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), exportFileName());
     toast("Exported JSON downloaded", "success");
   }
+  // CSV: the table exports follow the period and the table's filters; the report follows the period.
+  // The byte order mark makes Excel read the file as UTF-8 (Korean descriptions).
+  function downloadCsv(csv: string, fileName: string){
+    download(new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' }), fileName);
+    toast("CSV downloaded", "success");
+  }
+  const csvAccount = (id?: string) => id ? accountName(accounts, id) : '';
+  const report = useMemo(()=> buildReport(income, expenses, range, valuer('historical', rates, rateHistory)), [income, expenses, range, rates, rateHistory]);
+
+  async function exportFullBackup(){
+    const store = receiptStoreRef.current;
+    if (!store) return;
+    try {
+      const data = buildExportFile(snapshot(), { rates, rateHistory, displayCurrency });
+      const used = new Set(expenses.flatMap(r => r.receipts || []));
+      const receipts = (await store.all()).filter(r => used.has(r.id));
+      const zip = await buildFullBackup(data, receipts);
+      download(new Blob([zip], { type: 'application/zip' }), fullBackupFileName());
+      toast(`Full backup downloaded with ${receipts.length} receipt${receipts.length === 1 ? '' : 's'}`, "success");
+    } catch (err) {
+      console.error('Failed to build the full backup', err);
+      toast("The full backup could not be created.", "error", 4000);
+    }
+  }
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   function importJSONFromPicker(){
     fileInputRef.current?.click();
   }
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
   function onFilePicked(e: React.ChangeEvent<HTMLInputElement>){
     const f = e.target.files && e.target.files[0];
+    e.target.value = "";
     if (!f) return;
     const reader = new FileReader();
     reader.onerror = () => toast("Failed to read file.", "error", 3500);
     reader.onload = () => {
       try {
-        const obj = JSON.parse(String(reader.result || "{}"));
-        if (!obj || !Array.isArray(obj.income) || !Array.isArray(obj.expenses)){
-          throw new Error("Invalid format: Missing income/expenses arrays");
+        const parsed = parseExportFile(JSON.parse(String(reader.result || "{}")));
+        if (!parsed.ok){
+          setImportErrors({ fileName: f.name, errors: parsed.errors });
+          return;
         }
-        const confirmReplace = window.confirm("Import will REPLACE your current data. Continue?");
-        if (!confirmReplace) return;
-        const inc: IncomeRow[] = obj.income.map((n:any) => ({ id: n.id || uid(), date: n.date||"", desc: n.desc||"", amount: Math.max(0, Number(n.amount||0)), notes: n.notes||"" }));
-        const exp: ExpenseRow[] = obj.expenses.map((n:any) => ({ id: n.id || uid(), date: n.date||"", category: n.category||"Other", desc: n.desc||"", amount: Math.max(0, Number(n.amount||0)), notes: n.notes||"" }));
-        const cat: string[] = Array.isArray(obj.categories) && obj.categories.length ? obj.categories.map((c:any) => String(c)) : [...DEFAULT_CATEGORIES];
-        setIncome(inc); setExpenses(exp); setCategories(Array.from(new Set([...cat, ...exp.map(e=>e.category)])));
-        toast("Import successful", "success");
+        if (parsed.migratedFrom < SCHEMA_VERSION) toast(`Upgraded ${f.name} from format version ${parsed.migratedFrom}`, "info", 3500);
+        setPendingImport({ fileName: f.name, data: parsed.data, plan: planMerge({ income, expenses }, parsed.data) });
       } catch (err: any){
         toast("Import failed: " + err.message, "error", 5000);
       }
@@ -291,31 +1091,101 @@ export default function Page(){
     reader.readAsText(f);
   }
 
+  function onReplaceImport(){
+    const p = pendingImport?.data;
+    if (!p) return;
+    const confirmReplace = window.confirm("Import will REPLACE your current data. A restore point is saved first. Continue?");
+    if (!confirmReplace) return;
+    remember(`Replace data with ${pendingImport.fileName}`, true);
+    applySnapshot(ledgerFromFile(p));
+    if (p.rates) saveRates(p.rates);
+    if (p.rateHistory) saveHistory(() => p.rateHistory as RateHistory);
+    if (p.displayCurrency) onSetDisplayCurrency(p.displayCurrency);
+    setEditingTemplateId(null); setRecurringForm(emptyRecurringForm());
+    setPendingImport(null);
+    undoable("Import successful");
+  }
+
+  // Merge keeps local settings and only fills in what the local copy is missing
+  function onApplyMerge(decisions: Record<string, MergeDecision>){
+    if (!pendingImport) return;
+    const { data: p, plan } = pendingImport;
+    remember(`Merge ${pendingImport.fileName}`, true);
+    const merged = mergeFile(snapshot(), p, plan, decisions, uid);
+    applySnapshot(merged.data);
+    if (p.rateHistory) saveHistory(h => mergeRateHistory(h, p.rateHistory!));
+    setPendingImport(null);
+    const { added, updated, skipped } = merged.report;
+    toast(`Merge complete: ${added} added, ${updated} updated, ${skipped} skipped`, "success", 6000, { label: 'Undo', run: () => latest.current.undo() });
+  }
+
+  const [csvOpen, setCsvOpen] = useState(false);
+  // CSV rows are appended, never replacing existing data
+  function onCsvImport(rows: ImportedTransaction[], accountId?: string){
+    const { income: inc, expenses: exp } = rowsFromCsv(rows, accountId, uid);
+    remember('CSV import');
+    setIncome(v => [...v, ...inc]);
+    setExpenses(v => [...v, ...exp]);
+    setCategories(c => withCategories(c, exp.map(e => e.category)));
+    setIncomeCategories(c => withCategories(c, inc.map(r => r.category)));
+    setCsvOpen(false);
+    toast(`Imported ${inc.length} income and ${exp.length} expense rows`, "success", 3500);
+  }
+
   function clearAll(){
-    const ok = window.confirm('Clear ALL data (income + expenses)? This cannot be undone.');
+    const ok = window.confirm('Clear ALL data (income + expenses)? A restore point is saved first.');
     if (!ok) return;
-    setIncome([]); setExpenses([]); setCategories([...DEFAULT_CATEGORIES]);
-    toast("All data cleared", "success");
+    remember('Clear all data', true);
+    applySnapshot(emptyLedger());
+    setEditingTemplateId(null); setRecurringForm(emptyRecurringForm());
+    undoable("All data cleared");
   }
 
   return (
     <>
       <header className="app-header">
         <div className="container" style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:'14px', flexWrap:'wrap'}}>
-          <div className="brand"><span className="dot"></span> Personal Budget Tracker</div>
+          <div className="brand">
+            <span className="dot"></span> Personal Budget Tracker
+            {!online && <span className="pill amber" role="status" title={`Changes are saved on this device. ${syncPassphrase ? 'They are sent to the server and exchange' : 'Exchange'} rates refresh when the connection is back.`}>Offline</span>}
+          </div>
           <nav className="tabs" role="tablist" aria-label="Budget Tabs">
-            <button className="tab-btn" role="tab" aria-selected={tab==='income'} onClick={()=>setTab('income')}>Income</button>
-            <button className="tab-btn" role="tab" aria-selected={tab==='expenses'} onClick={()=>setTab('expenses')}>Expenses</button>
-            <button className="tab-btn" role="tab" aria-selected={tab==='summary'} onClick={()=>setTab('summary')}>Summary</button>
+            {TABS.map((t, i) => (
+              <button
+                key={t.id} id={`tab-btn-${t.id}`} className="tab-btn" role="tab" aria-selected={tab===t.id} aria-controls={`tab-${t.id}`}
+                tabIndex={tab===t.id ? 0 : -1} title={`${t.label} (${i + 1})`} onClick={()=>setTab(t.id)} onKeyDown={onTabKeyDown}
+              >{t.label}</button>
+            ))}
           </nav>
+          <button className="btn btn-sm" onClick={()=>setQuickAddOpen(true)} title="Quick add (/)">Quick Add <kbd>/</kbd></button>
         </div>
       </header>
 
       <main className="container">
+        <datalist id="tag-options">
+          {tagOptions.map(t => <option key={t} value={t} />)}
+        </datalist>
+        <div className="period-bar card">
+          <label htmlFor="period-kind">Period</label>
+          <select id="period-kind" value={period.kind} onChange={(e)=>setPeriod(p=>({ ...p, kind: e.target.value as PeriodKind }))}>
+            {PERIOD_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          {period.kind === 'custom' && (
+            <>
+              <input type="date" aria-label="From" value={period.from} onChange={(e)=>setPeriod(p=>({ ...p, from: e.target.value }))} />
+              <span className="muted">to</span>
+              <input type="date" aria-label="To" value={period.to} onChange={(e)=>setPeriod(p=>({ ...p, to: e.target.value }))} />
+            </>
+          )}
+          <span className="muted">
+            {range.from || range.to ? `${range.from || '…'} – ${range.to || '…'}` : 'All records'} · {visibleIncome.length + visibleExpenses.length} of {income.length + expenses.length} records
+          </span>
+        </div>
+
         {/* Income Tab */}
         <section id="tab-income" className="tab card" role="tabpanel" aria-labelledby="Income" hidden={tab!=='income'}>
           <h2 className="section-title">Add Income</h2>
-          <p className="subtle">Enter your income details. USD value is calculated in real-time using a fixed rate: <strong>1 USD = <span id="rateDisplay1">{rate.toLocaleString()}</span> KRW</strong>.</p>
+          <p className="subtle">Enter your income details. USD value is calculated in real-time using the current rate: <strong>1 USD = <span id="rateDisplay1">{rate.toLocaleString()}</span> KRW</strong>.</p>
 
           <form onSubmit={onAddIncome} noValidate>
             <div className="row">
@@ -323,43 +1193,125 @@ export default function Page(){
                 <label htmlFor="income-date">Date *</label>
                 <input ref={incomeDateRef} type="date" id="income-date" required value={incomeForm.date} onChange={(e)=>setIncomeForm(f=>({...f, date:e.target.value}))} />
               </div>
+              <div>
+                <label htmlFor="income-category">Category *</label>
+                <div style={{display:'flex', gap:8, alignItems:'center'}}>
+                  <select id="income-category" required value={incomeForm.category} onChange={(e)=>setIncomeForm(f=>({...f, category:e.target.value}))}>
+                    <option value="">Select a category</option>
+                    {incomeCategories.map(c => <option key={c} value={c}>{incomeCategoryStyles[c]?.icon ? `${incomeCategoryStyles[c].icon} ${c}` : c}</option>)}
+                  </select>
+                  <button type="button" className="btn btn-sm" onClick={()=>setCategoryManager('income')}>Manage</button>
+                </div>
+              </div>
               <div>
                 <label htmlFor="income-desc">Description *</label>
                 <input type="text" id="income-desc" required placeholder="e.g., Salary" maxLength={100} value={incomeForm.desc} onChange={(e)=>setIncomeForm(f=>({...f, desc:e.target.value}))} />
               </div>
               <div>
-                <label htmlFor="income-amount">Amount (KRW) *</label>
-                <input type="number" id="income-amount" required min={1} step={1} inputMode="numeric" placeholder="e.g., 1500000" value={incomeForm.amount} onChange={(e)=>setIncomeForm(f=>({...f, amount:e.target.value}))} />
-                <div className="field-hint"><span className="convert-chip">USD ≈ <span id="income-usd">{incomeUSD}</span></span></div>
+                <label htmlFor="income-amount">Amount *</label>
+                <div className="amount-input">
+                  <input type="number" id="income-amount" required min={0} step={CURRENCY_DECIMALS[incomeForm.currency] ? 0.01 : 1} inputMode="decimal" placeholder="e.g., 1500000" value={incomeForm.amount} onChange={(e)=>setIncomeForm(f=>({...f, amount:e.target.value}))} />
+                  <select aria-label="Currency" value={incomeForm.currency} onChange={(e)=>setIncomeForm(f=>({...f, currency:e.target.value as Currency}))}>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div className="field-hint"><span className="convert-chip"><span id="income-usd">{incomeUSD}</span></span></div>
+              </div>
+              <div>
+                <label htmlFor="income-account">Account</label>
+                <AccountSelect id="income-account" accounts={accounts} value={incomeForm.accountId} onChange={(accountId)=>setIncomeForm(f=>({...f, accountId}))} />
               </div>
               <div>
                 <label htmlFor="income-notes">Notes</label>
                 <textarea id="income-notes" placeholder="Optional" value={incomeForm.notes} onChange={(e)=>setIncomeForm(f=>({...f, notes:e.target.value}))} />
               </div>
+              <div>
+                <label htmlFor="income-tags">Tags</label>
+                <input type="text" id="income-tags" list="tag-options" placeholder="e.g., trip-jeju, reimbursable" value={incomeForm.tags} onChange={(e)=>setIncomeForm(f=>({...f, tags:e.target.value}))} />
+              </div>
             </div>
             <div className="actions" style={{marginTop:12}}>
               <button className="btn btn-success" type="submit">Add Income</button>
-              <button className="btn btn-ghost" type="button" onClick={()=>setIncomeForm(f=>({ date:f.date, desc:"", amount:"", notes:"" }))}>Reset</button>
+              <button className="btn btn-ghost" type="button" onClick={()=>setIncomeForm(f=>emptyTransactionForm(f.date, f.currency, f.accountId))}>Reset</button>
             </div>
           </form>
 
           <div className="table-wrap" style={{marginTop:18}}>
+            <FilterBar id="income-filter" filter={incomeFilter} onChange={patchIncomeFilter} categories={incomeCategories} tags={tagOptions} onExportCsv={()=>downloadCsv(rowsCsv(incomeRows, rowUSD, csvAccount), csvFileName('income', range))} />
             <table id="income-table" aria-label="Income Records">
               <thead>
-                <tr><th>Date</th><th>Description</th><th>Amount (KRW)</th><th>Amount (USD)</th><th>Notes</th><th>Actions</th></tr>
+                <tr>
+                  <SortTh label="Date" sortKey="date" filter={incomeFilter} onChange={patchIncomeFilter} />
+                  <SortTh label="Category" sortKey="category" filter={incomeFilter} onChange={patchIncomeFilter} />
+                  <SortTh label="Description" sortKey="desc" filter={incomeFilter} onChange={patchIncomeFilter} />
+                  <SortTh label="Amount (KRW)" sortKey="amount" filter={incomeFilter} onChange={patchIncomeFilter} />
+                  <th>Amount (USD)</th>
+                  <SortTh label="Notes" sortKey="notes" filter={incomeFilter} onChange={patchIncomeFilter} />
+                  <th>Actions</th>
+                </tr>
               </thead>
               <tbody>
-                {[...income].sort((a,b)=> (b.date||"").localeCompare(a.date||"")).map(row => (
-                  <tr key={row.id}>
+                {incomeRows.map(row => editing?.type === "income" && editing.id === row.id ? (
+                  <tr key={row.id} className="editing" onKeyDown={onEditKeyDown}>
+                    <td><input type="date" aria-label="Date" value={editing.form.date} onChange={(e)=>setIncomeEdit({ date:e.target.value })} /></td>
+                    <td>
+                      <select aria-label="Category" value={editing.form.category} onChange={(e)=>setIncomeEdit({ category:e.target.value })}>
+                        <option value="">Select a category</option>
+                        {incomeCategories.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                    </td>
+                    <td>
+                      <input type="text" aria-label="Description" maxLength={100} value={editing.form.desc} onChange={(e)=>setIncomeEdit({ desc:e.target.value })} />
+                      <AccountSelect accounts={accounts} value={editing.form.accountId} onChange={(accountId)=>setIncomeEdit({ accountId })} />
+                    </td>
+                    <td>
+                      <div className="amount-input">
+                        <input type="number" aria-label="Amount" min={0} step={CURRENCY_DECIMALS[editing.form.currency] ? 0.01 : 1} inputMode="decimal" value={editing.form.amount} onChange={(e)=>setIncomeEdit({ amount:e.target.value })} />
+                        <select aria-label="Currency" value={editing.form.currency} onChange={(e)=>setIncomeEdit({ currency:e.target.value as Currency })}>
+                          {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                      </div>
+                    </td>
+                    <td>{conversionHint(editing.form.amount, editing.form.currency, rates)}</td>
+                    <td>
+                      <textarea aria-label="Notes" value={editing.form.notes} onChange={(e)=>setIncomeEdit({ notes:e.target.value })} />
+                      <input type="text" aria-label="Tags" list="tag-options" placeholder="Tags" value={editing.form.tags} onChange={(e)=>setIncomeEdit({ tags:e.target.value })} />
+                    </td>
+                    <td>
+                      <div className="actions">
+                        <button className="btn btn-success btn-sm" onClick={onSaveEdit} aria-label="Save income">Save</button>
+                        <button className="btn btn-ghost btn-sm" onClick={()=>setEditing(null)}>Cancel</button>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={row.id} data-row tabIndex={row.id === incomeTabStop ? 0 : -1} onFocus={(e)=>{ if (e.target === e.currentTarget) setRowFocus(f => ({ ...f, income: row.id })); }} onKeyDown={(e)=>onRowKeyDown(e, ()=>startEditIncome(row), ()=>onDelete(row.id, "income"))}>
                     <td>{row.date || ""}</td>
-                    <td>{row.desc}</td>
-                    <td><span className="pill green">{fmtKRW.format(row.amount)}</span></td>
-                    <td>{fmtUSD.format(krwToUsd(row.amount, rate))}</td>
+                    <td><CategoryLabel name={row.category} style={incomeCategoryStyles[row.category]} /></td>
+                    <td>{row.desc}{row.accountId && <div className="muted">{accountName(accounts, row.accountId)}</div>}<TagList tags={row.tags} onPick={(tag)=>patchIncomeFilter({ tag })} /></td>
+                    <td>
+                      <span className="pill green">{fmtKRW.format(row.amount)}</span>
+                      {rowCurrency(row) !== 'KRW' && <div className="muted">{fmtMoney(rowOriginal(row), rowCurrency(row))} @ {fmtKRW.format(row.fxRate || 0)}</div>}
+                    </td>
+                    <td>{fmtUSD.format(rowUSD(row))}</td>
                     <td>{row.notes || ""}</td>
-                    <td><button className="btn btn-danger btn-sm" onClick={()=>onDelete(row.id, "income")} aria-label="Delete income">Delete</button></td>
+                    <td>
+                      <div className="actions">
+                        <button className="btn btn-sm" onClick={()=>startEditIncome(row)} aria-label="Edit income">Edit</button>
+                        <button className="btn btn-danger btn-sm" onClick={()=>onDelete(row.id, "income")} aria-label="Delete income">Delete</button>
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={3}>{incomeRows.length} record{incomeRows.length === 1 ? '' : 's'}{isFiltered(incomeFilter) ? ` (filtered from ${visibleIncome.length})` : ''}</td>
+                  <td>{fmtKRW.format(incomeRows.reduce((s,r)=> s + r.amount, 0))}</td>
+                  <td>{fmtUSD.format(incomeRows.reduce((s,r)=> s + rowUSD(r), 0))}</td>
+                  <td colSpan={2}></td>
+                </tr>
+              </tfoot>
             </table>
           </div>
         </section>
@@ -378,11 +1330,12 @@ export default function Page(){
               <div>
                 <label htmlFor="expense-category">Category *</label>
                 <div style={{display:'flex', gap:8, alignItems:'center'}}>
-                  <select id="expense-category" required value={expenseForm.category} onChange={(e)=>setExpenseForm(f=>({...f, category:e.target.value}))}>
-                    <option value="">Select a category</option>
-                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                  <select id="expense-category" required value={expenseForm.splits.length ? '' : expenseForm.category} disabled={expenseForm.splits.length > 0} onChange={(e)=>setExpenseForm(f=>({...f, category:e.target.value}))}>
+                    <option value="">{expenseForm.splits.length ? 'Split, see below' : 'Select a category'}</option>
+                    {categories.map(c => <option key={c} value={c}>{categoryStyles[c]?.icon ? `${categoryStyles[c].icon} ${c}` : c}</option>)}
                   </select>
                   <button type="button" className="btn btn-sm" onClick={onAddCategory} aria-label="Add category">Add</button>
+                  <button type="button" className="btn btn-sm" onClick={()=>setCategoryManager('expense')}>Manage</button>
                 </div>
               </div>
               <div>
@@ -390,63 +1343,343 @@ export default function Page(){
                 <input type="text" id="expense-desc" required placeholder="e.g., Groceries" maxLength={100} value={expenseForm.desc} onChange={(e)=>setExpenseForm(f=>({...f, desc:e.target.value}))} />
               </div>
               <div>
-                <label htmlFor="expense-amount">Amount (KRW) *</label>
-                <input type="number" id="expense-amount" required min={1} step={1} inputMode="numeric" placeholder="e.g., 35000" value={expenseForm.amount} onChange={(e)=>setExpenseForm(f=>({...f, amount:e.target.value}))} />
-                <div className="field-hint"><span className="convert-chip">USD ≈ <span id="expense-usd">{expenseUSD}</span></span></div>
+                <label htmlFor="expense-amount">Amount *</label>
+                <div className="amount-input">
+                  <input type="number" id="expense-amount" required min={0} step={CURRENCY_DECIMALS[expenseForm.currency] ? 0.01 : 1} inputMode="decimal" placeholder="e.g., 35000" value={expenseForm.amount} onChange={(e)=>setExpenseForm(f=>({...f, amount:e.target.value}))} />
+                  <select aria-label="Currency" value={expenseForm.currency} onChange={(e)=>setExpenseForm(f=>({...f, currency:e.target.value as Currency}))}>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div className="field-hint"><span className="convert-chip"><span id="expense-usd">{expenseUSD}</span></span></div>
+              </div>
+              <div>
+                <label htmlFor="expense-account">Account</label>
+                <AccountSelect id="expense-account" accounts={accounts} value={expenseForm.accountId} onChange={(accountId)=>setExpenseForm(f=>({...f, accountId}))} />
               </div>
               <div style={{gridColumn: "1 / -1"}}>
                 <label htmlFor="expense-notes">Notes</label>
                 <textarea id="expense-notes" placeholder="Optional" value={expenseForm.notes} onChange={(e)=>setExpenseForm(f=>({...f, notes:e.target.value}))} />
               </div>
+              <div>
+                <label htmlFor="expense-tags">Tags</label>
+                <input type="text" id="expense-tags" list="tag-options" placeholder="e.g., trip-jeju, reimbursable" value={expenseForm.tags} onChange={(e)=>setExpenseForm(f=>({...f, tags:e.target.value}))} />
+              </div>
+              <div>
+                <label htmlFor="expense-split-0">Split across categories</label>
+                <SplitEditor id="expense-split" form={expenseForm} categories={categories} onChange={(patch)=>setExpenseForm(f=>({...f, ...patch}))} />
+              </div>
+              <div style={{gridColumn: "1 / -1"}}>
+                <label>Receipts</label>
+                <ReceiptPicker onPick={(files)=>setExpenseReceipts(v => [...v, ...files])} disabled={savingReceipts} />
+                {expenseReceipts.length > 0 && (
+                  <p className="muted receipt-files">
+                    {expenseReceipts.map(f => f.name).join(', ')}{' '}
+                    <button type="button" className="btn btn-ghost btn-sm" onClick={()=>setExpenseReceipts([])}>Clear</button>
+                  </p>
+                )}
+              </div>
             </div>
             <div className="actions" style={{marginTop:12}}>
-              <button className="btn btn-primary" type="submit">Add Expense</button>
-              <button className="btn btn-ghost" type="button" onClick={()=>setExpenseForm(f=>({ date:f.date, category:"", desc:"", amount:"", notes:"" }))}>Reset</button>
+              <button className="btn btn-primary" type="submit" disabled={savingReceipts}>Add Expense</button>
+              <button className="btn btn-ghost" type="button" onClick={()=>{ setExpenseForm(f=>emptyTransactionForm(f.date, f.currency, f.accountId)); setExpenseReceipts([]); }}>Reset</button>
             </div>
           </form>
 
           <div className="table-wrap" style={{marginTop:18}}>
+            <FilterBar id="expense-filter" filter={expenseFilter} onChange={patchExpenseFilter} categories={categories} tags={tagOptions} receipts onExportCsv={()=>downloadCsv(rowsCsv(expenseRows, rowUSD, csvAccount), csvFileName('expenses', range))} />
             <table id="expense-table" aria-label="Expense Records">
               <thead>
-                <tr><th>Date</th><th>Category</th><th>Description</th><th>Amount (KRW)</th><th>Amount (USD)</th><th>Notes</th><th>Actions</th></tr>
+                <tr>
+                  <SortTh label="Date" sortKey="date" filter={expenseFilter} onChange={patchExpenseFilter} />
+                  <SortTh label="Category" sortKey="category" filter={expenseFilter} onChange={patchExpenseFilter} />
+                  <SortTh label="Description" sortKey="desc" filter={expenseFilter} onChange={patchExpenseFilter} />
+                  <SortTh label="Amount (KRW)" sortKey="amount" filter={expenseFilter} onChange={patchExpenseFilter} />
+                  <th>Amount (USD)</th>
+                  <SortTh label="Notes" sortKey="notes" filter={expenseFilter} onChange={patchExpenseFilter} />
+                  <th>Actions</th>
+                </tr>
               </thead>
               <tbody>
-                {[...expenses].sort((a,b)=> (b.date||"").localeCompare(a.date||"")).map(row => (
-                  <tr key={row.id}>
+                {expenseRows.map(row => editing?.type === "expense" && editing.id === row.id ? (
+                  <tr key={row.id} className="editing" onKeyDown={onEditKeyDown}>
+                    <td><input type="date" aria-label="Date" value={editing.form.date} onChange={(e)=>setExpenseEdit({ date:e.target.value })} /></td>
+                    <td>
+                      {!editing.form.splits.length && (
+                        <select aria-label="Category" value={editing.form.category} onChange={(e)=>setExpenseEdit({ category:e.target.value })}>
+                          <option value="">Select a category</option>
+                          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                      )}
+                      <SplitEditor id={`split-${row.id}`} form={editing.form} categories={categories} onChange={setExpenseEdit} />
+                    </td>
+                    <td>
+                      <input type="text" aria-label="Description" maxLength={100} value={editing.form.desc} onChange={(e)=>setExpenseEdit({ desc:e.target.value })} />
+                      <AccountSelect accounts={accounts} value={editing.form.accountId} onChange={(accountId)=>setExpenseEdit({ accountId })} />
+                    </td>
+                    <td>
+                      <div className="amount-input">
+                        <input type="number" aria-label="Amount" min={0} step={CURRENCY_DECIMALS[editing.form.currency] ? 0.01 : 1} inputMode="decimal" value={editing.form.amount} onChange={(e)=>setExpenseEdit({ amount:e.target.value })} />
+                        <select aria-label="Currency" value={editing.form.currency} onChange={(e)=>setExpenseEdit({ currency:e.target.value as Currency })}>
+                          {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                      </div>
+                    </td>
+                    <td>{conversionHint(editing.form.amount, editing.form.currency, rates)}</td>
+                    <td>
+                      <textarea aria-label="Notes" value={editing.form.notes} onChange={(e)=>setExpenseEdit({ notes:e.target.value })} />
+                      <input type="text" aria-label="Tags" list="tag-options" placeholder="Tags" value={editing.form.tags} onChange={(e)=>setExpenseEdit({ tags:e.target.value })} />
+                    </td>
+                    <td>
+                      <div className="actions">
+                        <button className="btn btn-success btn-sm" onClick={onSaveEdit} aria-label="Save expense">Save</button>
+                        <button className="btn btn-ghost btn-sm" onClick={()=>setEditing(null)}>Cancel</button>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={row.id} data-row tabIndex={row.id === expenseTabStop ? 0 : -1} onFocus={(e)=>{ if (e.target === e.currentTarget) setRowFocus(f => ({ ...f, expense: row.id })); }} onKeyDown={(e)=>onRowKeyDown(e, ()=>startEditExpense(row), ()=>onDelete(row.id, "expense"))}>
                     <td>{row.date || ""}</td>
-                    <td>{row.category}</td>
-                    <td>{row.desc}</td>
-                    <td><span className="pill red">{fmtKRW.format(row.amount)}</span></td>
-                    <td>{fmtUSD.format(krwToUsd(row.amount, rate))}</td>
+                    <td>
+                      {row.splits?.length ? <><span className="muted">Split</span><SplitLines splits={row.splits} /></> : <CategoryLabel name={row.category} style={categoryStyles[row.category]} />}
+                    </td>
+                    <td>{row.desc}{row.accountId && <div className="muted">{accountName(accounts, row.accountId)}</div>}<TagList tags={row.tags} onPick={(tag)=>patchExpenseFilter({ tag })} /></td>
+                    <td>
+                      <span className="pill red">{fmtKRW.format(row.amount)}</span>
+                      {rowCurrency(row) !== 'KRW' && <div className="muted">{fmtMoney(rowOriginal(row), rowCurrency(row))} @ {fmtKRW.format(row.fxRate || 0)}</div>}
+                    </td>
+                    <td>{fmtUSD.format(rowUSD(row))}</td>
                     <td>{row.notes || ""}</td>
-                    <td><button className="btn btn-danger btn-sm" onClick={()=>onDelete(row.id, "expense")} aria-label="Delete expense">Delete</button></td>
+                    <td>
+                      <div className="actions">
+                        <button className="btn btn-sm" onClick={()=>startEditExpense(row)} aria-label="Edit expense">Edit</button>
+                        <button className="btn btn-sm" onClick={()=>setReceiptRowId(row.id)} aria-label="Expense receipts">Receipts{row.receipts?.length ? ` (${row.receipts.length})` : ''}</button>
+                        <button className="btn btn-danger btn-sm" onClick={()=>onDelete(row.id, "expense")} aria-label="Delete expense">Delete</button>
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={3}>{expenseRows.length} record{expenseRows.length === 1 ? '' : 's'}{isFiltered(expenseFilter) ? ` (filtered from ${visibleExpenses.length})` : ''}</td>
+                  <td>{fmtKRW.format(expenseRows.reduce((s,r)=> s + r.amount, 0))}</td>
+                  <td>{fmtUSD.format(expenseRows.reduce((s,r)=> s + rowUSD(r), 0))}</td>
+                  <td colSpan={2}></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </section>
+
+        {/* Recurring Tab */}
+        <section id="tab-recurring" className="tab card" role="tabpanel" aria-labelledby="Recurring" hidden={tab!=='recurring'}>
+          <h2 className="section-title">{editingTemplateId ? 'Edit Recurring Template' : 'Add Recurring Template'}</h2>
+          <p className="subtle">Rent, salary and subscriptions are added automatically on their schedule each time the app loads. Editing a template does not change transactions it already created.</p>
+
+          <form onSubmit={onSaveTemplate} noValidate>
+            <div className="row">
+              <div>
+                <label htmlFor="recurring-type">Type *</label>
+                <select id="recurring-type" value={recurringForm.type} onChange={(e)=>setRecurringForm(f=>({...f, type:e.target.value as RecurringForm["type"], category:''}))}>
+                  <option value="expense">Expense</option>
+                  <option value="income">Income</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="recurring-desc">Description *</label>
+                <input type="text" id="recurring-desc" required placeholder="e.g., Rent" maxLength={100} value={recurringForm.desc} onChange={(e)=>setRecurringForm(f=>({...f, desc:e.target.value}))} />
+              </div>
+              <div>
+                <label htmlFor="recurring-amount">Amount (KRW) *</label>
+                <input type="number" id="recurring-amount" required min={1} step={1} inputMode="numeric" placeholder="e.g., 450000" value={recurringForm.amount} onChange={(e)=>setRecurringForm(f=>({...f, amount:e.target.value}))} />
+                <div className="field-hint"><span className="convert-chip">USD ≈ {fmtUSD.format(krwToUsd(Number(recurringForm.amount || 0), rate))}</span></div>
+              </div>
+              <div>
+                <label htmlFor="recurring-category">Category *</label>
+                <select id="recurring-category" required value={recurringForm.category} onChange={(e)=>setRecurringForm(f=>({...f, category:e.target.value}))}>
+                  <option value="">Select a category</option>
+                  {(recurringForm.type === 'income' ? incomeCategories : categories).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="recurring-freq">Repeats *</label>
+                <select id="recurring-freq" value={recurringForm.freq} onChange={(e)=>setRecurringForm(f=>({...f, freq:e.target.value as Schedule["freq"]}))}>
+                  <option value="monthly">Monthly</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="yearly">Yearly</option>
+                </select>
+              </div>
+              <div>
+                {recurringForm.freq === 'weekly' ? (
+                  <>
+                    <label htmlFor="recurring-weekday">On *</label>
+                    <select id="recurring-weekday" value={recurringForm.weekday} onChange={(e)=>setRecurringForm(f=>({...f, weekday:e.target.value}))}>
+                      {WEEKDAYS.map((w, i) => <option key={w} value={i}>{w}</option>)}
+                    </select>
+                  </>
+                ) : (
+                  <>
+                    <label htmlFor="recurring-day">On day *</label>
+                    <div style={{display:'flex', gap:8}}>
+                      {recurringForm.freq === 'yearly' && (
+                        <select aria-label="Month" value={recurringForm.month} onChange={(e)=>setRecurringForm(f=>({...f, month:e.target.value}))}>
+                          {MONTHS.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+                        </select>
+                      )}
+                      <input type="number" id="recurring-day" min={1} max={31} step={1} value={recurringForm.day} onChange={(e)=>setRecurringForm(f=>({...f, day:e.target.value}))} />
+                    </div>
+                    <div className="field-hint">Days past the end of a short month fall on its last day.</div>
+                  </>
+                )}
+              </div>
+              <div>
+                <label htmlFor="recurring-start">Starts *</label>
+                <input type="date" id="recurring-start" required value={recurringForm.startDate} onChange={(e)=>setRecurringForm(f=>({...f, startDate:e.target.value}))} />
+              </div>
+              <div>
+                <label htmlFor="recurring-end">Ends</label>
+                <input type="date" id="recurring-end" value={recurringForm.endDate} onChange={(e)=>setRecurringForm(f=>({...f, endDate:e.target.value}))} />
+              </div>
+              <div>
+                <label htmlFor="recurring-account">Account</label>
+                <AccountSelect id="recurring-account" accounts={accounts} value={recurringForm.accountId} onChange={(accountId)=>setRecurringForm(f=>({...f, accountId}))} />
+              </div>
+              <div style={{gridColumn: "1 / -1"}}>
+                <label htmlFor="recurring-notes">Notes</label>
+                <textarea id="recurring-notes" placeholder="Optional" value={recurringForm.notes} onChange={(e)=>setRecurringForm(f=>({...f, notes:e.target.value}))} />
+              </div>
+            </div>
+            <div className="actions" style={{marginTop:12}}>
+              <button className="btn btn-primary" type="submit">{editingTemplateId ? 'Save Template' : 'Add Template'}</button>
+              <button className="btn btn-ghost" type="button" onClick={()=>{ setEditingTemplateId(null); setRecurringForm(emptyRecurringForm()); }}>{editingTemplateId ? 'Cancel' : 'Reset'}</button>
+            </div>
+          </form>
+
+          <div className="table-wrap" style={{marginTop:18}}>
+            <table id="recurring-table" aria-label="Recurring Templates">
+              <thead>
+                <tr><th>Description</th><th>Type</th><th>Amount (KRW)</th><th>Schedule</th><th>Next</th><th>Status</th><th>Actions</th></tr>
+              </thead>
+              <tbody>
+                {recurring.map(t => {
+                  const ended = isEnded(t, today);
+                  const next = ended || t.paused ? null : nextOccurrence(t, today);
+                  return (
+                    <tr key={t.id}>
+                      <td>{t.desc}{t.category ? <div className="muted">{t.category}</div> : null}</td>
+                      <td>{t.type === 'income' ? 'Income' : 'Expense'}</td>
+                      <td><span className={`pill ${t.type === 'income' ? 'green' : 'red'}`}>{fmtKRW.format(t.amount)}</span></td>
+                      <td>{describeSchedule(t.schedule)}<div className="muted">from {t.startDate}{t.endDate ? ` until ${t.endDate}` : ''}</div></td>
+                      <td>{next || '—'}</td>
+                      <td>{ended ? 'Ended' : t.paused ? 'Paused' : 'Active'}</td>
+                      <td>
+                        <div className="actions">
+                          <button className="btn btn-sm" onClick={()=>startEditTemplate(t)} aria-label="Edit template">Edit</button>
+                          {!ended && <button className="btn btn-sm" onClick={()=>onTogglePause(t.id)}>{t.paused ? 'Resume' : 'Pause'}</button>}
+                          {!ended && <button className="btn btn-sm" onClick={()=>onEndTemplate(t.id)}>End</button>}
+                          <button className="btn btn-danger btn-sm" onClick={()=>onDeleteTemplate(t.id)} aria-label="Delete template">Delete</button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {!recurring.length && <tr><td colSpan={7} className="muted">No recurring templates yet.</td></tr>}
+              </tbody>
             </table>
           </div>
         </section>
 
+        {/* Debts Tab */}
+        <section id="tab-debts" className="tab card" role="tabpanel" aria-labelledby="Debts" hidden={tab!=='debts'}>
+          <Debts
+            loans={loans}
+            income={income}
+            expenses={expenses}
+            today={today}
+            onAddLoan={onAddLoan}
+            onAddRepayment={onAddRepayment}
+            onDeleteLoan={onDeleteLoan}
+            onDeleteRepayment={onDeleteRepayment}
+            formatKRW={fmtKRW.format}
+            notify={toast}
+          />
+        </section>
+
+        {/* Accounts Tab */}
+        <section id="tab-accounts" className="tab card" role="tabpanel" aria-labelledby="Accounts" hidden={tab!=='accounts'}>
+          <Accounts
+            accounts={accounts}
+            balances={balances}
+            transfers={transfers}
+            today={today}
+            inUse={(id)=>accountInUse(id, { income, expenses, transfers, recurring })}
+            onAddAccount={onAddAccount}
+            onUpdateAccount={onUpdateAccount}
+            onDeleteAccount={onDeleteAccount}
+            onAddTransfer={onAddTransfer}
+            onDeleteTransfer={onDeleteTransfer}
+            formatKRW={fmtKRW.format}
+            notify={toast}
+          />
+        </section>
+
+        {/* Goals Tab */}
+        <section id="tab-goals" className="tab card" role="tabpanel" aria-labelledby="Goals" hidden={tab!=='goals'}>
+          <Goals
+            goals={goals}
+            today={today}
+            avgNet={avgNet}
+            usdRate={rates.USD}
+            unallocated={unallocated}
+            onAddGoal={onAddGoal}
+            onDeleteGoal={onDeleteGoal}
+            onAddEntry={onAddGoalEntry}
+            onDeleteEntry={onDeleteGoalEntry}
+            formatKRW={fmtKRW.format}
+            formatUSD={fmtUSD.format}
+            notify={toast}
+          />
+        </section>
+
+        {/* Report Tab */}
+        <section id="tab-report" className="tab card" role="tabpanel" aria-labelledby="Report" hidden={tab!=='report'}>
+          <Report
+            report={report}
+            categoryStyles={categoryStyles}
+            incomeCategoryStyles={incomeCategoryStyles}
+            accountName={csvAccount}
+            month={rangeMonth(range)}
+            onPickMonth={(m)=>setPeriod({ kind: 'custom', ...monthRange(m) })}
+            onDownloadCsv={()=>downloadCsv(reportCsv(report, csvAccount), csvFileName('report', range))}
+          />
+        </section>
+
         {/* Summary Tab */}
         <section id="tab-summary" className="tab card" role="tabpanel" aria-labelledby="Summary" hidden={tab!=='summary'}>
           <h2 className="section-title">Summary</h2>
-          <p className="subtle">Overview of totals and spending distribution. Data is saved locally in your browser. Use export/import to move between devices.</p>
+          <p className="subtle">Overview of totals and spending distribution. Data is saved locally in your browser; turn on sync below to share it between devices, or use export/import.</p>
+          <div className="valuation-toggle" role="radiogroup" aria-label="Valuation">
+            <button className="tab-btn" role="radio" aria-checked={valuation==='historical'} onClick={()=>onSetValuation('historical')}>Historical rates</button>
+            <button className="tab-btn" role="radio" aria-checked={valuation==='today'} onClick={()=>onSetValuation('today')}>Today&apos;s rates</button>
+            <span className="muted">{valuation === 'historical' ? "Each record is converted at the rate in effect on its date." : "All records are converted at today's rates."}</span>
+          </div>
 
           <div className="summary-cards">
             <div className="summary-card income-card">
               <h3>Income</h3>
-              <div className="big" id="sum-income-krw">{fmtKRW.format(totals.incomeKRW)}</div>
-              <div className="sub">≈ <strong id="sum-income-usd">{fmtUSD.format(totals.incomeUSD)}</strong></div>
+              <div className="big" id="sum-income-krw">{fmtMoney(totals.income, displayCurrency)}</div>
+              <div className="sub">≈ <strong id="sum-income-usd">{displayCurrency === 'USD' ? fmtKRW.format(totals.incomeKRW) : fmtUSD.format(totals.incomeUSD)}</strong></div>
             </div>
             <div className="summary-card expense-card">
               <h3>Expenses</h3>
-              <div className="big" id="sum-expense-krw">{fmtKRW.format(totals.expenseKRW)}</div>
-              <div className="sub">≈ <strong id="sum-expense-usd">{fmtUSD.format(totals.expenseUSD)}</strong></div>
+              <div className="big" id="sum-expense-krw">{fmtMoney(totals.expense, displayCurrency)}</div>
+              <div className="sub">≈ <strong id="sum-expense-usd">{displayCurrency === 'USD' ? fmtKRW.format(totals.expenseKRW) : fmtUSD.format(totals.expenseUSD)}</strong></div>
             </div>
             <div className="summary-card remain-card">
               <h3>Remaining</h3>
-              <div className="big" id="sum-remaining-krw">{fmtKRW.format(totals.remainingKRW)}</div>
-              <div className="sub">≈ <strong id="sum-remaining-usd">{fmtUSD.format(totals.remainingUSD)}</strong></div>
+              <div className="big" id="sum-remaining-krw">{fmtMoney(totals.remaining, displayCurrency)}</div>
+              <div className="sub">≈ <strong id="sum-remaining-usd">{displayCurrency === 'USD' ? fmtKRW.format(totals.remainingKRW) : fmtUSD.format(totals.remainingUSD)}</strong></div>
+              {allocated > 0 && <div className="sub"><button type="button" className="link-btn" onClick={()=>setTab('goals')}>{fmtKRW.format(Math.round(allocated))} set aside for goals</button></div>}
             </div>
           </div>
 
@@ -461,25 +1694,114 @@ export default function Page(){
             </div>
           </div>
 
+          {loans.length > 0 && (
+            <div className="summary-cards debt-cards">
+              <div className="summary-card income-card">
+                <h3>Owed to You</h3>
+                <div className="big" id="sum-receivable">{fmtKRW.format(debts.receivable)}</div>
+                <div className="sub">Outstanding loans, not included in Remaining</div>
+              </div>
+              <div className="summary-card expense-card">
+                <h3>You Owe</h3>
+                <div className="big" id="sum-payable">{fmtKRW.format(debts.payable)}</div>
+                <div className="sub"><button className="btn btn-ghost btn-sm" onClick={()=>setTab('debts')}>View debts</button></div>
+              </div>
+            </div>
+          )}
+
+          <div className="card" style={{marginBottom:16}}>
+            <h2 className="section-title">Account Balances</h2>
+            <p className="subtle">Opening balance plus income, minus expenses, plus transfers, for all records up to today. Enter what the bank or wallet actually shows to see the difference.</p>
+            <Reconciliation accounts={accounts} balances={balances} today={today} onReconcile={(id, reconciled)=>{ onUpdateAccount(id, { reconciled }); toast('Balance saved', 'success'); }} formatKRW={fmtKRW.format} />
+          </div>
+
+          <div className="grid grid-cols-2" style={{marginBottom:16}}>
+            <div className="card">
+              <h2 className="section-title">Monthly Trend</h2>
+              <p className="subtle">Income and expenses per month with the net as a line.</p>
+              <MonthlyChart data={monthly.filter(m => m.month !== 'Undated').reverse()} formatKRW={fmtKRW.format} formatUSD={fmtUSD.format} />
+            </div>
+            <div className="card">
+              <h2 className="section-title">Spending by Category</h2>
+              <p className="subtle">Click a category to show its expenses.</p>
+              <CategoryDonut
+                data={categories.map(c => ({ label: c, krw: breakdown[c] || 0, usd: breakdownUSD[c] || 0, color: categoryStyles[c]?.color }))}
+                active={expenseFilter.category}
+                onSelect={onShowCategory}
+                formatKRW={fmtKRW.format}
+                formatUSD={fmtUSD.format}
+              />
+            </div>
+          </div>
+
+          <div className="card" style={{marginBottom:16}}>
+            <h2 className="section-title">Spending This Month ({thisMonth})</h2>
+            <p className="subtle">Cumulative expenses per day{budgetTotal ? ', against the sum of your monthly category budgets' : ''}.</p>
+            <CumulativeChart data={dailySpend} days={daysInMonth(Number(thisMonth.slice(0,4)), Number(thisMonth.slice(5,7)) - 1)} budget={budgetTotal} formatKRW={fmtKRW.format} formatUSD={fmtUSD.format} />
+          </div>
+
+          <div className="card" style={{marginBottom:16}}>
+            <h2 className="section-title">Month by Month</h2>
+            <p className="subtle">Income, expenses and net for each month in the selected period.</p>
+            <div className="table-wrap">
+              <table id="monthly-table" aria-label="Month by Month">
+                <thead><tr><th>Month</th><th>Income</th><th>Expenses</th><th>Net</th><th>Net (USD)</th></tr></thead>
+                <tbody>
+                  {monthly.map(m => (
+                    <tr key={m.month}>
+                      <td>{m.month}</td>
+                      <td><span className="pill green">{fmtKRW.format(m.income)}</span></td>
+                      <td><span className="pill red">{fmtKRW.format(m.expense)}</span></td>
+                      <td><span className={`pill ${m.net < 0 ? 'red' : 'blue'}`}>{fmtKRW.format(m.net)}</span></td>
+                      <td>{fmtUSD.format(m.netUSD)}</td>
+                    </tr>
+                  ))}
+                  {!monthly.length && <tr><td colSpan={5} className="muted">No records in this period.</td></tr>}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
           <div className="grid grid-cols-2">
             <div className="card">
               <h2 className="section-title">Expense Category Breakdown</h2>
-              <p className="subtle">Percentages are relative to total expenses.</p>
+              <p className="subtle">Percentages are relative to total expenses in the selected period. Budgets are monthly KRW limits compared against {thisMonth} spending.</p>
+              <div className="budget-warn">
+                <label htmlFor="budget-warn-at">Warn at</label>
+                <input type="number" id="budget-warn-at" min={1} max={100} step={1} value={budgets.warnAt} onChange={(e)=>onSetWarnAt(e.target.value)} />
+                <span className="subtle">% of a category&apos;s limit</span>
+                <button className="btn btn-sm" style={{marginLeft:'auto'}} onClick={()=>setCategoryManager('expense')}>Manage Categories</button>
+              </div>
               <div className="table-wrap breakdown">
                 <table id="breakdown-table" aria-label="Category Breakdown">
-                  <thead><tr><th>Category</th><th>KRW</th><th>%</th></tr></thead>
+                  <thead><tr><th>Category</th><th>KRW</th><th>%</th><th>Monthly Budget</th></tr></thead>
                   <tbody>
                     {categories.map(cat => {
                       const amt = breakdown[cat] || 0;
                       const pct = (amt / (totals.expenseKRW || 1)) * 100;
+                      const limit = budgets.limits[cat] || 0;
+                      const spent = monthBreakdown[cat] || 0;
+                      const used = limit ? (spent / limit) * 100 : 0;
+                      const status = !limit ? "" : used > 100 ? "over" : used >= budgets.warnAt ? "warn" : "ok";
                       return (
                         <tr key={cat}>
-                          <td>{cat}</td>
+                          <td><CategoryLabel name={cat} style={categoryStyles[cat]} /></td>
                           <td>{fmtKRW.format(amt)}</td>
                           <td style={{minWidth:180}}>
                             <div className="bar" title={`${pct.toFixed(1)}%`}><span style={{width:`${pct.toFixed(2)}%`}}></span></div>
                             <div className="subtle">{pct.toFixed(1)}%</div>
                           </td>
+                          <td style={{minWidth:220}}>
+                            <input className="limit-input" type="number" min={0} step={1000} inputMode="numeric" placeholder="No limit" aria-label={`Monthly budget for ${cat}`} value={limit || ""} onChange={(e)=>onSetLimit(cat, e.target.value)} />
+                            {limit > 0 && (
+                              <>
+                                <div className={`bar budget ${status}`} title={`${used.toFixed(1)}% used`}><span style={{width:`${Math.min(used, 100).toFixed(2)}%`}}></span></div>
+                                <div className="subtle">
+                                  {fmtKRW.format(spent)} / {fmtKRW.format(limit)} · {spent > limit ? `${fmtKRW.format(spent - limit)} over` : `${fmtKRW.format(limit - spent)} left`}
+                                </div>
+                              </>
+                            )}
+                          </td>
                         </tr>
                       );
                     })}
@@ -487,29 +1809,248 @@ export default function Page(){
                 </table>
               </div>
             </div>
+            <div className="card">
+              <h2 className="section-title">Income Breakdown</h2>
+              <p className="subtle">Where income in the selected period came from. Percentages are relative to total income.</p>
+              <div className="budget-warn">
+                <span className="subtle">{incomeCategories.length} income categories</span>
+                <button className="btn btn-sm" style={{marginLeft:'auto'}} onClick={()=>setCategoryManager('income')}>Manage Categories</button>
+              </div>
+              <div className="table-wrap breakdown">
+                <table id="income-breakdown-table" aria-label="Income Breakdown">
+                  <thead><tr><th>Category</th><th>KRW</th><th>USD</th><th>%</th></tr></thead>
+                  <tbody>
+                    {incomeCategories.map(cat => {
+                      const amt = incomeBreakdown[cat] || { krw: 0, usd: 0 };
+                      const pct = (amt.krw / (totals.incomeKRW || 1)) * 100;
+                      return (
+                        <tr key={cat}>
+                          <td><CategoryLabel name={cat} style={incomeCategoryStyles[cat]} /></td>
+                          <td>{fmtKRW.format(amt.krw)}</td>
+                          <td>{fmtUSD.format(amt.usd)}</td>
+                          <td style={{minWidth:160}}>
+                            <div className="bar" title={`${pct.toFixed(1)}%`}><span style={{width:`${pct.toFixed(2)}%`}}></span></div>
+                            <div className="subtle">{pct.toFixed(1)}%</div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          {tagBreakdown.length > 0 && (
+            <div className="card" style={{marginTop:16}}>
+              <h2 className="section-title">Tags</h2>
+              <p className="subtle">Totals per tag in the selected period. A record with several tags counts toward each of them. Click a tag to list its records.</p>
+              <div className="table-wrap breakdown">
+                <table id="tag-table" aria-label="Tag Totals">
+                  <thead><tr><th>Tag</th><th>Records</th><th>Income</th><th>Expenses</th><th>Expenses (USD)</th></tr></thead>
+                  <tbody>
+                    {tagBreakdown.map(t => (
+                      <tr key={t.tag}>
+                        <td><button type="button" className="tag" onClick={()=>onShowTag(t)}>#{t.tag}</button></td>
+                        <td>{t.count}</td>
+                        <td>{t.income ? fmtKRW.format(t.income) : '—'}</td>
+                        <td>{t.expense ? fmtKRW.format(t.expense) : '—'}</td>
+                        <td>{t.expense ? fmtUSD.format(t.expenseUSD) : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="grid" style={{marginTop:16}}>
             <div className="card">
               <h2 className="section-title">Data Controls</h2>
-              <p className="subtle">Export your data to a JSON file or import it back later. Clearing data cannot be undone.</p>
+              <p className="subtle">Export your data to a JSON file or import it back later. A restore point is saved before clearing, importing or deleting, and History lists them.</p>
               <div className="actions" style={{marginTop:12}}>
                 <button className="btn" onClick={exportJSON}>Export JSON</button>
+                <button className="btn" onClick={exportFullBackup}>Full Backup (zip)</button>
                 <input ref={fileInputRef} type="file" accept="application/json" hidden onChange={onFilePicked} />
                 <button className="btn" onClick={importJSONFromPicker}>Import JSON</button>
+                <button className="btn" onClick={()=>setCsvOpen(true)}>Import CSV</button>
+                <button className="btn" onClick={()=>setHistoryOpen(true)}>History</button>
                 <button className="btn btn-danger" onClick={clearAll}>Clear All Data</button>
               </div>
-              <p className="subtle" style={{marginTop:12}}>Import replaces existing data after confirmation. Expected format: {'{ rate, income:[...], expenses:[...], categories:[...] }'}.</p>
+              <p className="subtle" style={{marginTop:12}}>The full backup is a zip with the JSON export plus every receipt image, which JSON export and sync leave out. JSON import can merge with your data (reviewing duplicates first) or replace it; CSV import adds bank statement rows to it. Expected format (version {SCHEMA_VERSION}; older exports are upgraded automatically): {'{ version, rates, rateHistory, income:[...], expenses:[...], categories:[...], categoryStyles:{...}, incomeCategories:[...], incomeCategoryStyles:{...}, budgets:{ limits, warnAt }, recurring:[...], loans:[...], accounts:[...], transfers:[...], goals:[...] }'}.</p>
+            </div>
+            <SyncPanel enabled={!!syncPassphrase} status={syncStatus} onEnable={onEnableSync} onDisable={onDisableSync} onSyncNow={()=>runSync()} />
+          </div>
+
+          <div className="card" style={{marginTop:16}}>
+            <h2 className="section-title">Exchange Rates</h2>
+            <p className="subtle">KRW per unit of each currency, refreshed automatically and editable by hand. Existing rows keep the rate they were entered with.</p>
+            <div className="rates-grid">
+              <div>
+                <label htmlFor="display-currency">Summary currency</label>
+                <select id="display-currency" value={displayCurrency} onChange={(e)=>onSetDisplayCurrency(e.target.value as Currency)}>
+                  {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              {CURRENCIES.filter(c => c !== 'KRW').map(c => (
+                <div key={c}>
+                  <label htmlFor={`rate-${c}`}>1 {c} = KRW</label>
+                  <input type="number" id={`rate-${c}`} min={0} step="any" inputMode="decimal" defaultValue={Number(rates[c].toFixed(4))} key={rates[c]} onBlur={(e)=>onSetRate(c, e.target.value)} />
+                </div>
+              ))}
+            </div>
+
+            <h3 className="sub-title">Rate History</h3>
+            <p className="subtle">Rows are valued at the rate recorded on their date, or the nearest recorded date. Manual overrides are never replaced by automatic refreshes.</p>
+            {rateForm ? (
+              <form onSubmit={onSaveRateOverride} noValidate className="rates-grid">
+                <div>
+                  <label htmlFor="rate-override-date">Date *</label>
+                  <input type="date" id="rate-override-date" required value={rateForm.date} onChange={(e)=>setRateForm(f=> f && ({ ...f, date: e.target.value }))} />
+                </div>
+                {CURRENCIES.filter(c => c !== 'KRW').map(c => (
+                  <div key={c}>
+                    <label htmlFor={`rate-override-${c}`}>1 {c} = KRW</label>
+                    <input type="number" id={`rate-override-${c}`} min={0} step="any" inputMode="decimal" value={rateForm.values[c]} onChange={(e)=>setRateForm(f=> f && ({ ...f, values: { ...f.values, [c]: e.target.value } }))} />
+                  </div>
+                ))}
+                <div className="actions" style={{alignItems:'flex-end'}}>
+                  <button className="btn btn-primary btn-sm" type="submit">Save Override</button>
+                  <button className="btn btn-ghost btn-sm" type="button" onClick={()=>setRateForm(null)}>Cancel</button>
+                </div>
+              </form>
+            ) : (
+              <div className="actions">
+                <button className="btn btn-sm" onClick={()=>startRateOverride(isoDate(new Date()))}>Add Override</button>
+              </div>
+            )}
+            <div className="table-wrap" style={{marginTop:12}}>
+              <table id="rate-history-table" aria-label="Rate History">
+                <thead>
+                  <tr><th>Date</th>{CURRENCIES.filter(c => c !== 'KRW').map(c => <th key={c}>{c}</th>)}<th>Source</th><th>Actions</th></tr>
+                </thead>
+                <tbody>
+                  {[...rateHistory].reverse().map(e => (
+                    <tr key={e.date}>
+                      <td>{e.date}</td>
+                      {CURRENCIES.filter(c => c !== 'KRW').map(c => <td key={c}>{Number(e.rates[c].toFixed(4)).toLocaleString()}</td>)}
+                      <td><span className={`pill ${e.source === 'manual' ? 'blue' : 'green'}`}>{e.source === 'manual' ? 'Manual' : 'Fetched'}</span></td>
+                      <td>
+                        <div className="actions">
+                          <button className="btn btn-sm" onClick={()=>startRateOverride(e.date)}>Edit</button>
+                          <button className="btn btn-danger btn-sm" onClick={()=>onDeleteRate(e.date)}>Delete</button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {!rateHistory.length && <tr><td colSpan={CURRENCIES.length + 2} className="muted">No rates recorded yet. Current rates are used for every row.</td></tr>}
+                </tbody>
+              </table>
             </div>
           </div>
         </section>
       </main>
 
+      {pendingImport && (
+        <ImportReview
+          fileName={pendingImport.fileName}
+          plan={pendingImport.plan}
+          formatAmount={(krw)=>fmtKRW.format(krw)}
+          onApply={onApplyMerge}
+          onReplace={onReplaceImport}
+          onCancel={()=>setPendingImport(null)}
+        />
+      )}
+
+      {importErrors && (
+        <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Import Errors">
+          <div className="modal card">
+            <h2 className="section-title">Import Failed</h2>
+            <p className="subtle">{importErrors.fileName} has {importErrors.errors.length} problem{importErrors.errors.length === 1 ? '' : 's'}. Nothing was imported.</p>
+            <ul className="error-list">
+              {importErrors.errors.slice(0, 100).map((msg, i) => <li key={i}>{msg}</li>)}
+              {importErrors.errors.length > 100 && <li className="muted">…and {importErrors.errors.length - 100} more</li>}
+            </ul>
+            <div className="actions" style={{marginTop:12}}>
+              <button className="btn" onClick={()=>setImportErrors(null)}>Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {categoryManager === 'expense' && (
+        <CategoryManager
+          title="Manage Expense Categories"
+          categories={categories}
+          styles={categoryStyles}
+          counts={categoryCounts}
+          templateCounts={templateCounts}
+          onAdd={(name)=>{ remember('Add category'); setCategories(c => [...c, name]); toast('Category added', 'success'); }}
+          onRename={(from, to)=>onRenameCategory('expense', from, to)}
+          onDelete={(name, moveTo)=>onDeleteCategory('expense', name, moveTo)}
+          onMove={(name, delta)=>{ remember('Reorder categories'); setCategories(c => moveCategory(c, name, delta)); }}
+          onStyle={(name, style)=>setCategoryStyles(s => ({ ...s, [name]: style }))}
+          onClose={()=>setCategoryManager(null)}
+          notify={toast}
+        />
+      )}
+      {categoryManager === 'income' && (
+        <CategoryManager
+          title="Manage Income Categories"
+          categories={incomeCategories}
+          styles={incomeCategoryStyles}
+          counts={incomeCategoryCounts}
+          templateCounts={incomeTemplateCounts}
+          onAdd={(name)=>{ remember('Add category'); setIncomeCategories(c => [...c, name]); toast('Category added', 'success'); }}
+          onRename={(from, to)=>onRenameCategory('income', from, to)}
+          onDelete={(name, moveTo)=>onDeleteCategory('income', name, moveTo)}
+          onMove={(name, delta)=>{ remember('Reorder categories'); setIncomeCategories(c => moveCategory(c, name, delta)); }}
+          onStyle={(name, style)=>setIncomeCategoryStyles(s => ({ ...s, [name]: style }))}
+          onClose={()=>setCategoryManager(null)}
+          notify={toast}
+        />
+      )}
+
+      {quickAddOpen && <QuickAdd parse={parseQuick} onAdd={onQuickAdd} onClose={()=>setQuickAddOpen(false)} />}
+
+      {historyOpen && (
+        <HistoryPanel
+          history={history}
+          restorePoints={restorePoints}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          onRestore={onRestorePoint}
+          onDeletePoint={(id)=>setRestorePoints(p => p.filter(x => x.id !== id))}
+          onClose={()=>setHistoryOpen(false)}
+        />
+      )}
+
+      {receiptRow && receiptStoreRef.current && (
+        <ReceiptViewer
+          expense={receiptRow}
+          store={receiptStoreRef.current}
+          version={receiptVersion}
+          onAdd={(files)=>onAttachReceipts(receiptRow.id, files)}
+          onRemove={(id)=>onRemoveReceipt(receiptRow.id, id)}
+          onClose={()=>setReceiptRowId(null)}
+        />
+      )}
+
+      {csvOpen && (
+        <CsvImport categories={categories} incomeCategories={incomeCategories} history={expenses} incomeHistory={income} accounts={accounts} onImport={onCsvImport} onClose={()=>setCsvOpen(false)} notify={toast} />
+      )}
+
       <div className="toasts" aria-live="polite" aria-atomic="true">
         {toasts.map(t => (
-          <div key={t.id} className={`toast ${t.type}`}>{t.message}</div>
+          <div key={t.id} className={`toast ${t.type}`}>
+            {t.message}
+            {t.action && <button className="toast-action" onClick={()=>{ t.action!.run(); setToasts(v => v.filter(x => x.id !== t.id)); }}>{t.action.label}</button>}
+          </div>
         ))}
       </div>
 
       <footer>
-        <div className="muted">Made for fast, reliable personal budgeting. Data stays in your browser. Fixed rate: 1 USD = {rate.toLocaleString()} KRW.</div>
+        <div className="muted">Made for fast, reliable personal budgeting. Data stays in your browser{syncPassphrase ? ' and your own server' : ''}. Rates: {CURRENCIES.filter(c => c !== 'KRW').map(c => `1 ${c} = ${Number(rates[c].toFixed(2)).toLocaleString()} KRW`).join(' · ')}.</div>
       </footer>
 
     </>
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useEffect, useState } from "react";
+import { UNASSIGNED, type AccountBalance } from "../lib/accounts";
+import type { Account, Transfer } from "../lib/types";
+
+type Notify = (message: string, type?: 'info' | 'success' | 'error', timeout?: number) => void;
+
+type Props = {
+  accounts: Account[];
+  balances: Record<string, AccountBalance>;
+  transfers: Transfer[];
+  today: string;
+  inUse: (id: string) => boolean;
+  onAddAccount: (name: string, openingBalance: number) => void;
+  onUpdateAccount: (id: string, patch: Partial<Account>) => void;
+  onDeleteAccount: (id: string) => void;
+  onAddTransfer: (transfer: Omit<Transfer, "id">) => void;
+  onDeleteTransfer: (id: string) => void;
+  formatKRW: (krw: number) => string;
+  notify: Notify;
+};
+
+type TransferForm = { date: string; from: string; to: string; amount: string; notes: string };
+
+export function accountName(accounts: Account[], id?: string){
+  return accounts.find(a => a.id === id)?.name || 'Unassigned';
+}
+
+/** Account select shared by the income/expense forms; archived accounts only appear when already chosen. */
+export function AccountSelect({ id, accounts, value, onChange }: { id?: string; accounts: Account[]; value: string; onChange: (id: string) => void }){
+  return (
+    <select id={id} aria-label={id ? undefined : "Account"} value={value} onChange={(e)=>onChange(e.target.value)}>
+      <option value="">No account</option>
+      {accounts.filter(a => !a.archived || a.id === value).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+    </select>
+  );
+}
+
+/**
+ * Account name edited in place. The draft is saved trimmed on blur or Enter; an empty or taken
+ * name is refused and the saved name comes back, since a blank name would drop the account on load.
+ */
+function AccountNameInput({ account, accounts, onSave, notify }: { account: Account; accounts: Account[]; onSave: (name: string) => void; notify: Notify }){
+  const [draft, setDraft] = useState(account.name);
+  useEffect(()=>{ setDraft(account.name); }, [account.name]);
+  function commit(){
+    const name = draft.trim();
+    if (name === account.name) { setDraft(name); return; }
+    if (!name) { notify('Enter an account name', 'error', 3000); setDraft(account.name); return; }
+    if (accounts.some(a => a.id !== account.id && a.name.toLowerCase() === name.toLowerCase())) { notify('Account already exists', 'error', 3000); setDraft(account.name); return; }
+    onSave(name);
+  }
+  return (
+    <input type="text" aria-label="Account name" maxLength={40} value={draft} onChange={(e)=>setDraft(e.target.value)} onBlur={commit}
+      onKeyDown={(e)=>{ if (e.key === 'Enter') commit(); else if (e.key === 'Escape') setDraft(account.name); }} />
+  );
+}
+
+export default function Accounts({ accounts, balances, transfers, today, inUse, onAddAccount, onUpdateAccount, onDeleteAccount, onAddTransfer, onDeleteTransfer, formatKRW, notify }: Props){
+  const [name, setName] = useState('');
+  const [opening, setOpening] = useState('');
+  const active = accounts.filter(a => !a.archived);
+  const [form, setForm] = useState<TransferForm>({ date: today, from: active[0]?.id || '', to: active[1]?.id || '', amount: '', notes: '' });
+
+  function addAccount(e: React.FormEvent){
+    e.preventDefault();
+    const n = name.trim();
+    if (!n) { notify('Enter an account name', 'error', 3000); return; }
+    if (accounts.some(a => a.name.toLowerCase() === n.toLowerCase())) { notify('Account already exists', 'error', 3000); return; }
+    onAddAccount(n, Math.round(Number(opening) || 0));
+    setName(''); setOpening('');
+  }
+
+  function addTransfer(e: React.FormEvent){
+    e.preventDefault();
+    const amount = Math.round(Number(form.amount));
+    if (!form.date || !form.from || !form.to || !(amount > 0)) { notify("Please fix the errors above.", "error", 3500); return; }
+    if (form.from === form.to) { notify('Choose two different accounts', 'error', 3000); return; }
+    onAddTransfer({ date: form.date, from: form.from, to: form.to, amount, notes: form.notes.trim() || undefined });
+    setForm(f => ({ ...f, amount: '', notes: '' }));
+  }
+
+  return (
+    <>
+      <h2 className="section-title">Accounts</h2>
+      <p className="subtle">Where your money is kept. Each income and expense record can be assigned to an account; transfers move money between accounts without counting as income or expense.</p>
+
+      <div className="table-wrap" style={{marginTop:12}}>
+        <table aria-label="Accounts">
+          <thead><tr><th>Name</th><th>Opening Balance (KRW)</th><th>Current Balance</th><th>Status</th><th>Actions</th></tr></thead>
+          <tbody>
+            {accounts.map(a => (
+              <tr key={a.id}>
+                <td><AccountNameInput account={a} accounts={accounts} onSave={(name)=>onUpdateAccount(a.id, { name })} notify={notify} /></td>
+                <td><input type="number" aria-label={`Opening balance for ${a.name}`} step={1} value={a.openingBalance} onChange={(e)=>onUpdateAccount(a.id, { openingBalance: Math.round(Number(e.target.value) || 0) })} /></td>
+                <td><span className={`pill ${(balances[a.id]?.balance || 0) < 0 ? 'red' : 'blue'}`}>{formatKRW(balances[a.id]?.balance || 0)}</span></td>
+                <td>{a.archived ? 'Archived' : 'Active'}</td>
+                <td>
+                  <div className="actions">
+                    <button className="btn btn-sm" onClick={()=>onUpdateAccount(a.id, { archived: a.archived ? undefined : true })}>{a.archived ? 'Restore' : 'Archive'}</button>
+                    <button className="btn btn-danger btn-sm" onClick={()=>onDeleteAccount(a.id)} disabled={inUse(a.id)} title={inUse(a.id) ? 'Records still use this account; archive it instead' : undefined} aria-label={`Delete ${a.name}`}>Delete</button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {balances[UNASSIGNED] && (
+              <tr>
+                <td className="muted">Unassigned records</td>
+                <td>—</td>
+                <td><span className="pill">{formatKRW(balances[UNASSIGNED].balance)}</span></td>
+                <td colSpan={2} className="muted">Assign an account when editing a record</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={addAccount} noValidate className="row-inline" style={{marginTop:12}}>
+        <input type="text" aria-label="New account name" placeholder="New account, e.g. Savings" maxLength={40} value={name} onChange={(e)=>setName(e.target.value)} />
+        <input type="number" aria-label="Opening balance" placeholder="Opening balance (KRW)" step={1} value={opening} onChange={(e)=>setOpening(e.target.value)} />
+        <button className="btn btn-sm" type="submit">Add Account</button>
+      </form>
+
+      <h3 className="sub-title">Transfer Between Accounts</h3>
+      <form onSubmit={addTransfer} noValidate>
+        <div className="row">
+          <div>
+            <label htmlFor="transfer-date">Date *</label>
+            <input type="date" id="transfer-date" required value={form.date} onChange={(e)=>setForm(f=>({...f, date:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="transfer-amount">Amount (KRW) *</label>
+            <input type="number" id="transfer-amount" required min={1} step={1} inputMode="numeric" placeholder="e.g., 50000" value={form.amount} onChange={(e)=>setForm(f=>({...f, amount:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="transfer-from">From *</label>
+            <select id="transfer-from" value={form.from} onChange={(e)=>setForm(f=>({...f, from:e.target.value}))}>
+              <option value="">Select an account</option>
+              {active.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="transfer-to">To *</label>
+            <select id="transfer-to" value={form.to} onChange={(e)=>setForm(f=>({...f, to:e.target.value}))}>
+              <option value="">Select an account</option>
+              {active.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="transfer-notes">Notes</label>
+            <input type="text" id="transfer-notes" maxLength={100} placeholder="e.g., T-money top-up" value={form.notes} onChange={(e)=>setForm(f=>({...f, notes:e.target.value}))} />
+          </div>
+        </div>
+        <div className="actions" style={{marginTop:12}}>
+          <button className="btn btn-primary" type="submit">Add Transfer</button>
+        </div>
+      </form>
+
+      <div className="table-wrap" style={{marginTop:18}}>
+        <table aria-label="Transfers">
+          <thead><tr><th>Date</th><th>From</th><th>To</th><th>Amount</th><th>Notes</th><th>Actions</th></tr></thead>
+          <tbody>
+            {[...transfers].sort((a,b)=> b.date.localeCompare(a.date)).map(t => (
+              <tr key={t.id}>
+                <td>{t.date}</td>
+                <td>{accountName(accounts, t.from)}</td>
+                <td>{accountName(accounts, t.to)}</td>
+                <td><span className="pill blue">{formatKRW(t.amount)}</span></td>
+                <td>{t.notes || ''}</td>
+                <td><button className="btn btn-danger btn-sm" onClick={()=>onDeleteTransfer(t.id)} aria-label="Delete transfer">Delete</button></td>
+              </tr>
+            ))}
+            {!transfers.length && <tr><td colSpan={6} className="muted">No transfers yet.</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+/** Per-account balances with the last real balance entered for each and the difference. */
+export function Reconciliation({ accounts, balances, today, onReconcile, formatKRW }: {
+  accounts: Account[];
+  balances: Record<string, AccountBalance>;
+  today: string;
+  onReconcile: (id: string, reconciled: Account["reconciled"]) => void;
+  formatKRW: (krw: number) => string;
+}){
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const shown = accounts.filter(a => !a.archived || balances[a.id]?.balance);
+  return (
+    <div className="table-wrap">
+      <table aria-label="Account Balances">
+        <thead><tr><th>Account</th><th>Balance</th><th>Real Balance</th><th>Difference</th><th>Last Checked</th></tr></thead>
+        <tbody>
+          {shown.map(a => {
+            const balance = balances[a.id]?.balance || 0;
+            const draft = drafts[a.id] ?? (a.reconciled ? String(a.reconciled.balance) : '');
+            const diff = draft === '' ? null : Math.round(Number(draft)) - balance;
+            return (
+              <tr key={a.id}>
+                <td>{a.name}</td>
+                <td>{formatKRW(balance)}</td>
+                <td>
+                  <div className="row-inline">
+                    <input type="number" className="limit-input" aria-label={`Real balance for ${a.name}`} step={1} placeholder="Enter balance" value={draft} onChange={(e)=>setDrafts(d => ({ ...d, [a.id]: e.target.value }))} />
+                    <button className="btn btn-sm" disabled={draft === ''} onClick={()=>onReconcile(a.id, { date: today, balance: Math.round(Number(draft)) })}>Save</button>
+                  </div>
+                </td>
+                <td>{diff == null ? '—' : diff === 0 ? <span className="pill blue">Matches</span> : <span className={`pill ${diff < 0 ? 'red' : 'green'}`}>{diff > 0 ? '+' : ''}{formatKRW(diff)}</span>}</td>
+                <td>{a.reconciled ? `${a.reconciled.date} · ${formatKRW(a.reconciled.balance)}` : <span className="muted">Never</span>}</td>
+              </tr>
+            );
+          })}
+          {balances[UNASSIGNED] && (
+            <tr><td className="muted">Unassigned records</td><td>{formatKRW(balances[UNASSIGNED].balance)}</td><td colSpan={3} className="muted">Not part of any account</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState } from "react";
+import { CATEGORY_ICONS, findCategory } from "../lib/categories";
+import type { CategoryStyle } from "../lib/types";
+
+type Props = {
+  title: string;
+  categories: string[];
+  styles: Record<string, CategoryStyle>;
+  counts: Record<string, number>;
+  /** Recurring templates using each category. */
+  templateCounts: Record<string, number>;
+  onAdd: (name: string) => void;
+  onRename: (from: string, to: string) => void;
+  /** `moveTo` is left out when nothing uses the category. */
+  onDelete: (name: string, moveTo?: string) => void;
+  onMove: (name: string, delta: -1 | 1) => void;
+  onStyle: (name: string, style: CategoryStyle) => void;
+  onClose: () => void;
+  notify: (message: string, type?: 'info' | 'success' | 'error', timeout?: number) => void;
+};
+
+const FALLBACK_COLOR = '#64748b';
+
+/** Category name with its icon and color dot, as shown in tables and the breakdown. */
+export function CategoryLabel({ name, style }: { name: string; style?: CategoryStyle }){
+  return (
+    <span className="category-label">
+      <i className="swatch" style={{ background: style?.color || FALLBACK_COLOR }} aria-hidden="true" />
+      {style?.icon && <span aria-hidden="true">{style.icon}</span>}
+      {name}
+    </span>
+  );
+}
+
+function usage(records: number, templates: number){
+  const parts = [];
+  if (records) parts.push(`${records} record${records === 1 ? '' : 's'}`);
+  if (templates) parts.push(`${templates} recurring template${templates === 1 ? '' : 's'}`);
+  return parts.join(' and ');
+}
+
+export default function CategoryManager({ title, categories, styles, counts, templateCounts, onAdd, onRename, onDelete, onMove, onStyle, onClose, notify }: Props){
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ name: string; value: string } | null>(null);
+  const [deleting, setDeleting] = useState<{ name: string; moveTo: string } | null>(null);
+
+  function add(){
+    const name = newName.trim();
+    if (!name) return;
+    if (findCategory(categories, name)){ notify('Category already exists', 'error', 3000); return; }
+    onAdd(name);
+    setNewName('');
+  }
+
+  function rename(){
+    if (!renaming) return;
+    const value = renaming.value.trim();
+    if (!value){ notify('Enter a category name', 'error', 3000); return; }
+    // Case-insensitive match against another category turns the rename into a merge
+    const target = findCategory(categories.filter(c => c !== renaming.name), value);
+    if (target){
+      const n = counts[renaming.name] || 0;
+      if (!window.confirm(`Merge "${renaming.name}" into "${target}"? ${n} record${n === 1 ? '' : 's'} will be moved.`)) return;
+    }
+    onRename(renaming.name, target || value);
+    setRenaming(null);
+  }
+
+  function startDelete(name: string){
+    if (categories.length < 2){ notify('At least one category is required', 'error', 3000); return; }
+    if (!counts[name] && !templateCounts[name]){
+      if (window.confirm(`Delete "${name}"? Nothing uses it; its budget and style are removed too.`)) onDelete(name);
+      return;
+    }
+    setDeleting({ name, moveTo: categories.includes('Other') && name !== 'Other' ? 'Other' : categories.find(c => c !== name)! });
+  }
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label={title}>
+      <div className="modal card">
+        <h2 className="section-title">{title}</h2>
+        <p className="subtle">Renaming or merging updates every record, recurring template and budget that uses the category. The order here is the order of the category list in the form.</p>
+
+        <div className="row-inline" style={{marginTop:12}}>
+          <input type="text" aria-label="New category name" placeholder="New category" value={newName} onChange={(e)=>setNewName(e.target.value)} onKeyDown={(e)=>{ if (e.key === 'Enter') add(); }} />
+          <button className="btn btn-sm" onClick={add}>Add</button>
+        </div>
+
+        <div className="table-wrap" style={{marginTop:12}}>
+          <table aria-label="Categories" className="category-table">
+            <thead><tr><th>Order</th><th>Category</th><th>Color</th><th>Icon</th><th>Records</th><th>Actions</th></tr></thead>
+            <tbody>
+              {categories.map((c, i) => {
+                const style = styles[c] || {};
+                return (
+                  <React.Fragment key={c}>
+                    <tr>
+                      <td>
+                        <div className="actions">
+                          <button className="btn btn-sm" onClick={()=>onMove(c, -1)} disabled={i === 0} aria-label={`Move ${c} up`}>↑</button>
+                          <button className="btn btn-sm" onClick={()=>onMove(c, 1)} disabled={i === categories.length - 1} aria-label={`Move ${c} down`}>↓</button>
+                        </div>
+                      </td>
+                      <td>
+                        {renaming?.name === c ? (
+                          <input type="text" aria-label={`New name for ${c}`} value={renaming.value} autoFocus
+                            onChange={(e)=>setRenaming({ name: c, value: e.target.value })}
+                            onKeyDown={(e)=>{ if (e.key === 'Enter') rename(); else if (e.key === 'Escape') setRenaming(null); }} />
+                        ) : <CategoryLabel name={c} style={style} />}
+                      </td>
+                      <td><input type="color" className="color-input" aria-label={`Color for ${c}`} value={style.color || FALLBACK_COLOR} onChange={(e)=>onStyle(c, { ...style, color: e.target.value })} /></td>
+                      <td>
+                        <select className="icon-select" aria-label={`Icon for ${c}`} value={style.icon || ''} onChange={(e)=>onStyle(c, { ...style, icon: e.target.value || undefined })}>
+                          <option value="">None</option>
+                          {(style.icon && !CATEGORY_ICONS.includes(style.icon) ? [style.icon, ...CATEGORY_ICONS] : CATEGORY_ICONS).map(icon => <option key={icon} value={icon}>{icon}</option>)}
+                        </select>
+                      </td>
+                      <td>{counts[c] || 0}</td>
+                      <td>
+                        <div className="actions">
+                          {renaming?.name === c ? (
+                            <>
+                              <button className="btn btn-success btn-sm" onClick={rename}>Save</button>
+                              <button className="btn btn-ghost btn-sm" onClick={()=>setRenaming(null)}>Cancel</button>
+                            </>
+                          ) : (
+                            <button className="btn btn-sm" onClick={()=>{ setDeleting(null); setRenaming({ name: c, value: c }); }}>Rename / Merge</button>
+                          )}
+                          <button className="btn btn-danger btn-sm" onClick={()=>startDelete(c)} aria-label={`Delete ${c}`}>Delete</button>
+                        </div>
+                      </td>
+                    </tr>
+                    {deleting?.name === c && (
+                      <tr className="editing">
+                        <td></td>
+                        <td colSpan={5}>
+                          <div className="row-inline">
+                            <span>Move {usage(counts[c] || 0, templateCounts[c] || 0)} to</span>
+                            <select aria-label="Move records to" value={deleting.moveTo} onChange={(e)=>setDeleting({ name: c, moveTo: e.target.value })}>
+                              {categories.filter(x => x !== c).map(x => <option key={x} value={x}>{x}</option>)}
+                            </select>
+                            <button className="btn btn-danger btn-sm" onClick={()=>{ onDelete(c, deleting.moveTo); setDeleting(null); }}>Delete and Move</button>
+                            <button className="btn btn-ghost btn-sm" onClick={()=>setDeleting(null)}>Cancel</button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="actions" style={{marginTop:14}}>
+          <button className="btn btn-primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
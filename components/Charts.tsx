@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState } from "react";
+
+type Format = (value: number) => string;
+type Tip = { x: number; y: number; title: string; lines: string[] } | null;
+
+export type MonthPoint = { month: string; income: number; expense: number; net: number; incomeUSD: number; expenseUSD: number; netUSD: number };
+export type SliceData = { label: string; krw: number; usd: number; color?: string };
+export type DayPoint = { date: string; krw: number; usd: number };
+
+const W = 640;
+const H = 240;
+const PAD = { top: 16, right: 16, bottom: 28, left: 64 };
+const PALETTE = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ef4444', '#0ea5e9', '#eab308', '#ec4899', '#14b8a6', '#94a3b8'];
+
+export function sliceColor(i: number){ return PALETTE[i % PALETTE.length]; }
+
+/** Rounds up to 1, 2 or 5 × 10^n so axis labels stay readable. */
+function niceCeil(v: number){
+  if (v <= 0) return 1;
+  const p = Math.pow(10, Math.floor(Math.log10(v)));
+  const n = v / p;
+  return (n <= 1 ? 1 : n <= 2 ? 2 : n <= 5 ? 5 : 10) * p;
+}
+
+function compact(v: number){
+  const a = Math.abs(v);
+  if (a >= 1e8) return `${(v / 1e8).toFixed(1)}억`;
+  if (a >= 1e4) return `${Math.round(v / 1e4)}만`;
+  return String(Math.round(v));
+}
+
+function Tooltip({ tip }: { tip: Tip }){
+  if (!tip) return null;
+  return (
+    <div className="chart-tip" style={{ left: `${(tip.x / W) * 100}%`, top: `${(tip.y / H) * 100}%` }}>
+      <strong>{tip.title}</strong>
+      {tip.lines.map(l => <div key={l}>{l}</div>)}
+    </div>
+  );
+}
+
+function YAxis({ ticks, y }: { ticks: number[]; y: (v: number) => number }){
+  return (
+    <g className="chart-axis">
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(t)} y2={y(t)} className={t === 0 ? 'chart-zero' : 'chart-grid'} />
+          <text x={PAD.left - 8} y={y(t) + 4} textAnchor="end">{compact(t)}</text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+/** Income and expense bars per month with the net as a line. Expects months oldest first. */
+export function MonthlyChart({ data, formatKRW, formatUSD }: { data: MonthPoint[]; formatKRW: Format; formatUSD: Format }){
+  const [tip, setTip] = useState<Tip>(null);
+  if (!data.length) return <p className="muted">No dated records in this period.</p>;
+  const hi = niceCeil(Math.max(...data.map(d => Math.max(d.income, d.expense, d.net))));
+  const lo = Math.min(0, ...data.map(d => d.net));
+  const low = lo < 0 ? -niceCeil(-lo) : 0;
+  const y = (v: number) => PAD.top + ((hi - v) / (hi - low)) * (H - PAD.top - PAD.bottom);
+  const step = (W - PAD.left - PAD.right) / data.length;
+  const bar = Math.min(28, step * 0.35);
+  const cx = (i: number) => PAD.left + step * i + step / 2;
+  const ticks = [low, low / 2, 0, hi / 2, hi].filter((t, i, a) => a.indexOf(t) === i);
+  return (
+    <div className="chart-box" onMouseLeave={()=>setTip(null)}>
+      <svg viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Monthly income, expenses and net">
+        <YAxis ticks={ticks} y={y} />
+        {data.map((d, i) => (
+          <g key={d.month}>
+            <rect className="chart-income" x={cx(i) - bar - 1} y={y(d.income)} width={bar} height={Math.max(0, y(0) - y(d.income))} rx={3} />
+            <rect className="chart-expense" x={cx(i) + 1} y={y(d.expense)} width={bar} height={Math.max(0, y(0) - y(d.expense))} rx={3} />
+            <text className="chart-label" x={cx(i)} y={H - 8} textAnchor="middle">{d.month.slice(2)}</text>
+          </g>
+        ))}
+        <polyline className="chart-net" points={data.map((d, i) => `${cx(i)},${y(d.net)}`).join(' ')} />
+        {data.map((d, i) => <circle key={d.month} className="chart-net-dot" cx={cx(i)} cy={y(d.net)} r={3.5} />)}
+        {data.map((d, i) => (
+          <rect key={d.month} className="chart-hit" x={PAD.left + step * i} y={PAD.top} width={step} height={H - PAD.top - PAD.bottom}
+            onMouseEnter={()=>setTip({ x: cx(i), y: PAD.top, title: d.month, lines: [
+              `Income ${formatKRW(d.income)} · ${formatUSD(d.incomeUSD)}`,
+              `Expenses ${formatKRW(d.expense)} · ${formatUSD(d.expenseUSD)}`,
+              `Net ${formatKRW(d.net)} · ${formatUSD(d.netUSD)}`
+            ] })} />
+        ))}
+      </svg>
+      <Tooltip tip={tip} />
+      <div className="chart-legend">
+        <span><i className="swatch chart-income" />Income</span>
+        <span><i className="swatch chart-expense" />Expenses</span>
+        <span><i className="swatch chart-net" />Net</span>
+      </div>
+    </div>
+  );
+}
+
+function arc(cx: number, cy: number, r: number, inner: number, start: number, end: number){
+  // A full circle cannot be drawn as one arc, so stop just short of it
+  const sweep = Math.min(end - start, Math.PI * 2 - 1e-4);
+  const stop = start + sweep;
+  const large = sweep > Math.PI ? 1 : 0;
+  const p = (rad: number, a: number) => `${cx + rad * Math.sin(a)},${cy - rad * Math.cos(a)}`;
+  return `M${p(r, start)} A${r},${r} 0 ${large} 1 ${p(r, stop)} L${p(inner, stop)} A${inner},${inner} 0 ${large} 0 ${p(inner, start)} Z`;
+}
+
+/** Category share of spending; clicking a slice or legend entry calls `onSelect`. */
+export function CategoryDonut({ data, active, onSelect, formatKRW, formatUSD }: {
+  data: SliceData[]; active?: string; onSelect: (label: string) => void; formatKRW: Format; formatUSD: Format;
+}){
+  const [tip, setTip] = useState<Tip>(null);
+  const slices = data.filter(d => d.krw > 0);
+  const total = slices.reduce((s, d) => s + d.krw, 0);
+  if (!total) return <p className="muted">No expenses in this period.</p>;
+  const cx = W / 2, cy = H / 2, r = H / 2 - 12, inner = r * 0.6;
+  let angle = 0;
+  const describe = (d: SliceData) => [`${formatKRW(d.krw)} · ${formatUSD(d.usd)}`, `${((d.krw / total) * 100).toFixed(1)}% of spending`];
+  return (
+    <div className="chart-box" onMouseLeave={()=>setTip(null)}>
+      <svg viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Spending by category">
+        {slices.map((d, i) => {
+          const start = angle;
+          angle += (d.krw / total) * Math.PI * 2;
+          const mid = (start + angle) / 2;
+          return (
+            <path key={d.label} d={arc(cx, cy, r, inner, start, angle)} fill={d.color || sliceColor(i)}
+              className={`chart-slice${active && active !== d.label ? ' dim' : ''}`}
+              onClick={()=>onSelect(d.label)}
+              onMouseEnter={()=>setTip({ x: cx + (r + 8) * Math.sin(mid), y: cy - (r + 8) * Math.cos(mid), title: d.label, lines: describe(d) })} />
+          );
+        })}
+        <text className="chart-center" x={cx} y={cy - 2} textAnchor="middle">{formatKRW(total)}</text>
+        <text className="chart-label" x={cx} y={cy + 16} textAnchor="middle">total spent</text>
+      </svg>
+      <Tooltip tip={tip} />
+      <div className="chart-legend">
+        {slices.map((d, i) => (
+          <button key={d.label} type="button" className={`legend-btn${active === d.label ? ' active' : ''}`} onClick={()=>onSelect(d.label)} title={describe(d).join(' · ')}>
+            <i className="swatch" style={{ background: d.color || sliceColor(i) }} />{d.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Running total of spending per day; `data` may stop before the month's last day (the rest is left blank). */
+export function CumulativeChart({ data, days, budget, formatKRW, formatUSD }: {
+  data: DayPoint[]; days: number; budget?: number; formatKRW: Format; formatUSD: Format;
+}){
+  const [tip, setTip] = useState<Tip>(null);
+  if (!data.length) return <p className="muted">No days to show.</p>;
+  const hi = niceCeil(Math.max(budget || 0, ...data.map(d => d.krw)));
+  const y = (v: number) => PAD.top + ((hi - v) / hi) * (H - PAD.top - PAD.bottom);
+  const step = (W - PAD.left - PAD.right) / days;
+  const x = (i: number) => PAD.left + step * i + step / 2;
+  const points = data.map((d, i) => `${x(i)},${y(d.krw)}`).join(' ');
+  return (
+    <div className="chart-box" onMouseLeave={()=>setTip(null)}>
+      <svg viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Cumulative spending this month">
+        <YAxis ticks={[0, hi / 2, hi]} y={y} />
+        {budget ? <line className="chart-budget" x1={PAD.left} x2={W - PAD.right} y1={y(budget)} y2={y(budget)} /> : null}
+        <polygon className="chart-area" points={`${x(0)},${y(0)} ${points} ${x(data.length - 1)},${y(0)}`} />
+        <polyline className="chart-spend" points={points} />
+        {Array.from({ length: days }, (_, i) => (i === 0 || (i + 1) % 5 === 0) && (
+          <text key={i} className="chart-label" x={x(i)} y={H - 8} textAnchor="middle">{i + 1}</text>
+        ))}
+        {data.map((d, i) => (
+          <rect key={d.date} className="chart-hit" x={PAD.left + step * i} y={PAD.top} width={step} height={H - PAD.top - PAD.bottom}
+            onMouseEnter={()=>setTip({ x: x(i), y: y(d.krw), title: d.date, lines: [`Spent so far ${formatKRW(d.krw)} · ${formatUSD(d.usd)}`] })} />
+        ))}
+      </svg>
+      <Tooltip tip={tip} />
+      {budget ? <div className="chart-legend"><span><i className="swatch chart-spend" />Spent</span><span><i className="swatch chart-budget" />Total monthly budget</span></div> : null}
+    </div>
+  );
+}
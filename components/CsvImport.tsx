@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import type { Account } from "../lib/types";
+import { AccountSelect } from "./Accounts";
+import { decodeCsvBytes, guessMapping, mapCsvRows, parseCsvTable, type ColumnKey, type CsvMapping, type CsvTable, type CsvTransaction } from "../lib/csv";
+
+export type ImportedTransaction = Omit<CsvTransaction, "line">;
+
+type Props = {
+  categories: string[];
+  incomeCategories: string[];
+  history: { desc: string; category: string }[];
+  incomeHistory: { desc: string; category: string }[];
+  accounts: Account[];
+  onImport: (rows: ImportedTransaction[], accountId?: string) => void;
+  onClose: () => void;
+  notify: (message: string, type?: "info" | "success" | "error", timeout?: number) => void;
+};
+
+const PRESETS_STORAGE_KEY = 'budget_csv_presets';
+const BANKS = ['KB', 'Shinhan', 'Toss', 'Other'] as const;
+type Bank = typeof BANKS[number];
+const COLUMNS: { key: ColumnKey; label: string }[] = [
+  { key: 'date', label: 'Date *' },
+  { key: 'desc', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'notes', label: 'Notes' }
+];
+const PREVIEW_ROWS = 10;
+
+function loadPresets(): Partial<Record<Bank, CsvMapping>> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Most frequent category previously used for each (lower-cased) description. */
+function categoryIndex(history: Props["history"]){
+  const counts: Record<string, Record<string, number>> = {};
+  for (const r of history){
+    const key = r.desc.trim().toLowerCase();
+    if (!key || !r.category) continue;
+    (counts[key] ||= {})[r.category] = (counts[key][r.category] || 0) + 1;
+  }
+  const best: Record<string, string> = {};
+  for (const [key, cats] of Object.entries(counts)){
+    best[key] = Object.entries(cats).sort((a,b)=> b[1] - a[1])[0][0];
+  }
+  return best;
+}
+
+export default function CsvImport({ categories, incomeCategories, history, incomeHistory, accounts, onImport, onClose, notify }: Props){
+  const [fileName, setFileName] = useState("");
+  const [{ rows, lines }, setTable] = useState<CsvTable>({ rows: [], lines: [] });
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [bank, setBank] = useState<Bank>('Other');
+  const [presets, setPresets] = useState(loadPresets);
+  const [accountId, setAccountId] = useState('');
+  const [defaultCategory, setDefaultCategory] = useState(categories.includes('Other') ? 'Other' : categories[0] || '');
+
+  const learned = useMemo(()=> categoryIndex(history), [history]);
+  const learnedIncome = useMemo(()=> categoryIndex(incomeHistory), [incomeHistory]);
+  const result = useMemo(()=> mapping ? mapCsvRows(rows, mapping, lines) : null, [rows, lines, mapping]);
+  const prepared = useMemo<ImportedTransaction[]>(()=>{
+    if (!result) return [];
+    return result.transactions.map(({ line: _line, ...t }) => {
+      // Income rows only take a file category that names an existing income category
+      if (t.type === 'income'){
+        const fromFile = t.category && incomeCategories.find(c => c.toLowerCase() === t.category!.toLowerCase());
+        return { ...t, category: fromFile || learnedIncome[t.desc.trim().toLowerCase()] || 'Other' };
+      }
+      const fromFile = t.category && (categories.find(c => c.toLowerCase() === t.category!.toLowerCase()) || t.category);
+      return { ...t, category: fromFile || learned[t.desc.trim().toLowerCase()] || defaultCategory };
+    });
+  }, [result, categories, incomeCategories, learned, learnedIncome, defaultCategory]);
+
+  function onFile(e: React.ChangeEvent<HTMLInputElement>){
+    const f = e.target.files && e.target.files[0];
+    e.target.value = "";
+    if (!f) return;
+    const reader = new FileReader();
+    reader.onerror = () => notify("Failed to read file.", "error", 3500);
+    reader.onload = () => {
+      const table = parseCsvTable(decodeCsvBytes(reader.result as ArrayBuffer));
+      if (!table.rows.length) { notify("The file has no rows.", "error", 3500); return; }
+      setFileName(f.name);
+      setTable(table);
+      setMapping(presets[bank] || guessMapping(table.rows));
+    };
+    reader.readAsArrayBuffer(f);
+  }
+
+  function onBank(next: Bank){
+    setBank(next);
+    const preset = presets[next];
+    if (preset && rows.length) setMapping(preset);
+  }
+
+  function savePreset(){
+    if (!mapping) return;
+    const next = { ...presets, [bank]: mapping };
+    setPresets(next);
+    try {
+      localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(next));
+      notify(`Mapping saved for ${bank}`, "success");
+    } catch {
+      notify("Failed to save mapping preset.", "error", 3500);
+    }
+  }
+
+  function set<K extends keyof CsvMapping>(key: K, value: CsvMapping[K]){
+    setMapping(m => m && ({ ...m, [key]: value }));
+  }
+
+  function onConfirm(){
+    if (!prepared.length) { notify("Nothing to import.", "error", 3500); return; }
+    onImport(prepared, accountId || undefined);
+  }
+
+  const header = mapping ? rows[mapping.headerRow] || [] : [];
+  const columnSelect = (key: ColumnKey, label: string) => (
+    <div key={key}>
+      <label htmlFor={`csv-${key}`}>{label}</label>
+      <select id={`csv-${key}`} value={mapping![key]} onChange={(e)=>set(key, Number(e.target.value))}>
+        <option value={-1}>—</option>
+        {header.map((h, i) => <option key={i} value={i}>{h.trim() || `Column ${i + 1}`}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Import CSV">
+      <div className="modal card">
+        <h2 className="section-title">Import Bank CSV</h2>
+        <p className="subtle">Rows are added to your existing data. Map the columns, check the preview, then import.</p>
+
+        <div className="row-inline">
+          <div>
+            <label htmlFor="csv-bank">Bank</label>
+            <select id="csv-bank" value={bank} onChange={(e)=>onBank(e.target.value as Bank)}>
+              {BANKS.map(b => <option key={b} value={b}>{b}{presets[b] ? ' (saved)' : ''}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="csv-file">CSV file</label>
+            <input id="csv-file" type="file" accept=".csv,text/csv" onChange={onFile} />
+          </div>
+        </div>
+
+        {mapping && (
+          <>
+            <p className="subtle">{fileName}: {rows.length} rows.</p>
+            <div className="rates-grid">
+              <div>
+                <label htmlFor="csv-header-row">Header row</label>
+                <input type="number" id="csv-header-row" min={1} max={rows.length} value={mapping.headerRow + 1} onChange={(e)=>set('headerRow', Math.max(0, Math.min(rows.length - 1, Number(e.target.value) - 1)))} />
+              </div>
+              {COLUMNS.map(c => columnSelect(c.key, c.label))}
+              <div>
+                <label htmlFor="csv-amount-mode">Amounts</label>
+                <select id="csv-amount-mode" value={mapping.amountMode} onChange={(e)=>set('amountMode', e.target.value as CsvMapping["amountMode"])}>
+                  <option value="single">One signed column</option>
+                  <option value="split">Debit / credit columns</option>
+                </select>
+              </div>
+              {mapping.amountMode === 'single' ? (
+                <>
+                  {columnSelect('amount', 'Amount *')}
+                  <div>
+                    <label htmlFor="csv-positive">Positive amounts are</label>
+                    <select id="csv-positive" value={mapping.positiveIs} onChange={(e)=>set('positiveIs', e.target.value as CsvMapping["positiveIs"])}>
+                      <option value="expense">Expenses</option>
+                      <option value="income">Income</option>
+                    </select>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {columnSelect('debit', 'Debit (expense) *')}
+                  {columnSelect('credit', 'Credit (income) *')}
+                </>
+              )}
+              <div>
+                <label htmlFor="csv-account">Account</label>
+                <AccountSelect id="csv-account" accounts={accounts} value={accountId} onChange={setAccountId} />
+              </div>
+              <div>
+                <label htmlFor="csv-default-category">Fallback category</label>
+                <select id="csv-default-category" value={defaultCategory} onChange={(e)=>setDefaultCategory(e.target.value)}>
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="subtle">Categories come from the mapped column, then from past records with the same description, then the fallback (&quot;Other&quot; for income).</p>
+
+            <div className="table-wrap" style={{marginTop:12}}>
+              <table aria-label="Import Preview">
+                <thead><tr><th>Date</th><th>Type</th><th>Description</th><th>Category</th><th>Amount (KRW)</th><th>Notes</th></tr></thead>
+                <tbody>
+                  {prepared.slice(0, PREVIEW_ROWS).map((t, i) => (
+                    <tr key={i}>
+                      <td>{t.date}</td>
+                      <td>{t.type === 'income' ? 'Income' : 'Expense'}</td>
+                      <td>{t.desc}</td>
+                      <td>{t.category || ''}</td>
+                      <td><span className={`pill ${t.type === 'income' ? 'green' : 'red'}`}>{t.amount.toLocaleString()}</span></td>
+                      <td>{t.notes}</td>
+                    </tr>
+                  ))}
+                  {!prepared.length && <tr><td colSpan={6} className="muted">No importable rows with this mapping.</td></tr>}
+                </tbody>
+              </table>
+            </div>
+            <p className="subtle">
+              {prepared.length} row{prepared.length === 1 ? '' : 's'} ready{prepared.length > PREVIEW_ROWS ? ` (showing ${PREVIEW_ROWS})` : ''}
+              {result && result.errors.length > 0 && <>; {result.errors.length} skipped: {result.errors.slice(0, 5).map(e => `row ${e.line}: ${e.message}`).join('; ')}{result.errors.length > 5 ? '; …' : ''}</>}
+            </p>
+          </>
+        )}
+
+        <div className="actions" style={{marginTop:12}}>
+          <button className="btn btn-primary" onClick={onConfirm} disabled={!prepared.length}>Import {prepared.length || ''} Rows</button>
+          {mapping && <button className="btn" onClick={savePreset}>Save Mapping for {bank}</button>}
+          <button className="btn btn-ghost" onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import { balancesByPerson, debtTotals, linkedRowIds, linkedRowType, outstanding, repaidAmount } from "../lib/loans";
+import type { ExpenseRow, IncomeRow, Loan } from "../lib/types";
+
+export type LoanDraft = { person: string; direction: Loan["direction"]; date: string; amount: number; desc: string };
+export type RepaymentDraft = { date: string; amount: number; notes: string };
+/** 'new' creates a matching income/expense row, '' records nothing, anything else is an existing row id. */
+export type RowLink = string;
+
+type Props = {
+  loans: Loan[];
+  income: IncomeRow[];
+  expenses: ExpenseRow[];
+  today: string;
+  onAddLoan: (draft: LoanDraft, link: RowLink) => void;
+  onAddRepayment: (loanId: string, draft: RepaymentDraft, link: RowLink) => void;
+  onDeleteLoan: (id: string) => void;
+  onDeleteRepayment: (loanId: string, repaymentId: string) => void;
+  formatKRW: (krw: number) => string;
+  notify: (message: string, type?: 'info' | 'success' | 'error', timeout?: number) => void;
+};
+
+type LoanForm = { person: string; direction: Loan["direction"]; date: string; amount: string; desc: string; link: RowLink };
+type RepayForm = { loanId: string; date: string; amount: string; notes: string; link: RowLink };
+
+const LINK_OPTIONS = 40;
+
+export default function Debts({ loans, income, expenses, today, onAddLoan, onAddRepayment, onDeleteLoan, onDeleteRepayment, formatKRW, notify }: Props){
+  const [form, setForm] = useState<LoanForm>({ person: '', direction: 'lent', date: today, amount: '', desc: '', link: 'new' });
+  const [repay, setRepay] = useState<RepayForm | null>(null);
+  const [showSettled, setShowSettled] = useState(false);
+
+  const balances = useMemo(()=> balancesByPerson(loans), [loans]);
+  const totals = useMemo(()=> debtTotals(loans), [loans]);
+  const linked = useMemo(()=> linkedRowIds(loans), [loans]);
+  const people = useMemo(()=> Array.from(new Set(loans.map(l => l.person.trim()))).sort(), [loans]);
+  const rowsById = useMemo(()=> new Map<string, IncomeRow | ExpenseRow>([...income, ...expenses].map(r => [r.id, r])), [income, expenses]);
+  const shown = useMemo(()=> [...loans]
+    .filter(l => showSettled || outstanding(l) > 0)
+    .sort((a,b)=> b.date.localeCompare(a.date)), [loans, showSettled]);
+
+  // Unlinked rows of the right type, newest first, that a loan or repayment can point at
+  function linkChoices(type: 'income' | 'expense'){
+    return [...(type === 'income' ? income : expenses)]
+      .filter(r => !linked.has(r.id))
+      .sort((a,b)=> b.date.localeCompare(a.date))
+      .slice(0, LINK_OPTIONS);
+  }
+  function linkSelect(type: 'income' | 'expense', value: RowLink, onChange: (v: RowLink) => void, id?: string){
+    return (
+      <select id={id} aria-label="Linked record" value={value} onChange={(e)=>onChange(e.target.value)}>
+        <option value="new">Add a new {type} record</option>
+        <option value="">Don&apos;t record</option>
+        <optgroup label={`Link an existing ${type}`}>
+          {linkChoices(type).map(r => <option key={r.id} value={r.id}>{r.date} · {r.desc} · {formatKRW(r.amount)}</option>)}
+        </optgroup>
+      </select>
+    );
+  }
+  function describeRow(rowId?: string){
+    if (!rowId) return <span className="muted">—</span>;
+    const row = rowsById.get(rowId);
+    return row ? <span>{row.date} · {row.desc}</span> : <span className="muted">record deleted</span>;
+  }
+
+  function onSubmit(e: React.FormEvent){
+    e.preventDefault();
+    const person = form.person.trim();
+    const amount = Math.round(Number(form.amount));
+    if (!person || !form.date || !(amount > 0)) { notify("Please fix the errors above.", "error", 3500); return; }
+    onAddLoan({ person, direction: form.direction, date: form.date, amount, desc: form.desc.trim() }, form.link);
+    setForm(f => ({ ...f, person: '', amount: '', desc: '', link: 'new' }));
+  }
+
+  function startRepay(loan: Loan){
+    setRepay({ loanId: loan.id, date: today, amount: String(outstanding(loan)), notes: '', link: 'new' });
+  }
+  function onSaveRepay(){
+    if (!repay) return;
+    const amount = Math.round(Number(repay.amount));
+    if (!repay.date || !(amount > 0)) { notify("Enter a date and an amount.", "error", 3500); return; }
+    onAddRepayment(repay.loanId, { date: repay.date, amount, notes: repay.notes.trim() }, repay.link);
+    setRepay(null);
+  }
+
+  return (
+    <>
+      <h2 className="section-title">Loans &amp; Debts</h2>
+      <p className="subtle">Money lent to or borrowed from people. The original transfer and each repayment can be linked to an income or expense record, so your totals stay correct.</p>
+
+      <div className="summary-cards">
+        <div className="summary-card income-card"><h3>Owed to You</h3><div className="big">{formatKRW(totals.receivable)}</div></div>
+        <div className="summary-card expense-card"><h3>You Owe</h3><div className="big">{formatKRW(totals.payable)}</div></div>
+        <div className="summary-card remain-card"><h3>Net</h3><div className="big">{formatKRW(totals.receivable - totals.payable)}</div></div>
+      </div>
+
+      <form onSubmit={onSubmit} noValidate style={{marginTop:16}}>
+        <div className="row">
+          <div>
+            <label htmlFor="loan-direction">Type *</label>
+            <select id="loan-direction" value={form.direction} onChange={(e)=>setForm(f=>({...f, direction:e.target.value as Loan["direction"], link:'new'}))}>
+              <option value="lent">I lent money</option>
+              <option value="borrowed">I borrowed money</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="loan-person">Person *</label>
+            <input type="text" id="loan-person" list="loan-people" required maxLength={60} placeholder="e.g., Minjun" value={form.person} onChange={(e)=>setForm(f=>({...f, person:e.target.value}))} />
+            <datalist id="loan-people">{people.map(p => <option key={p} value={p} />)}</datalist>
+          </div>
+          <div>
+            <label htmlFor="loan-date">Date *</label>
+            <input type="date" id="loan-date" required value={form.date} onChange={(e)=>setForm(f=>({...f, date:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="loan-amount">Amount (KRW) *</label>
+            <input type="number" id="loan-amount" required min={1} step={1} inputMode="numeric" placeholder="e.g., 200000" value={form.amount} onChange={(e)=>setForm(f=>({...f, amount:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="loan-desc">Description</label>
+            <input type="text" id="loan-desc" maxLength={100} placeholder="Optional" value={form.desc} onChange={(e)=>setForm(f=>({...f, desc:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="loan-link">Record as</label>
+            {linkSelect(linkedRowType(form.direction, false), form.link, (link)=>setForm(f=>({...f, link})), 'loan-link')}
+          </div>
+        </div>
+        <div className="actions" style={{marginTop:12}}>
+          <button className="btn btn-primary" type="submit">{form.direction === 'lent' ? 'Add Loan' : 'Add Debt'}</button>
+        </div>
+      </form>
+
+      <h3 className="sub-title">Balances by Person</h3>
+      <div className="table-wrap">
+        <table aria-label="Balances by Person">
+          <thead><tr><th>Person</th><th>Owes You</th><th>You Owe</th><th>Open</th></tr></thead>
+          <tbody>
+            {balances.map(b => (
+              <tr key={b.person}>
+                <td>{b.person}</td>
+                <td>{b.receivable ? <span className="pill green">{formatKRW(b.receivable)}</span> : '—'}</td>
+                <td>{b.payable ? <span className="pill red">{formatKRW(b.payable)}</span> : '—'}</td>
+                <td>{b.open ? b.open : <span className="muted">Settled</span>}</td>
+              </tr>
+            ))}
+            {!balances.length && <tr><td colSpan={4} className="muted">No loans recorded yet.</td></tr>}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="row-inline" style={{marginTop:16}}>
+        <h3 className="sub-title" style={{margin:0}}>Loans</h3>
+        <label className="row-inline" style={{margin:'0 0 0 auto'}}>
+          <input type="checkbox" checked={showSettled} onChange={(e)=>setShowSettled(e.target.checked)} /> Show settled
+        </label>
+      </div>
+      <div className="table-wrap" style={{marginTop:8}}>
+        <table aria-label="Loans">
+          <thead><tr><th>Date</th><th>Person</th><th>Type</th><th>Amount</th><th>Repayments</th><th>Outstanding</th><th>Record</th><th>Actions</th></tr></thead>
+          <tbody>
+            {shown.map(loan => {
+              const left = outstanding(loan);
+              return (
+                <React.Fragment key={loan.id}>
+                  <tr>
+                    <td>{loan.date}</td>
+                    <td>{loan.person}{loan.desc ? <div className="muted">{loan.desc}</div> : null}</td>
+                    <td>{loan.direction === 'lent' ? 'Lent' : 'Borrowed'}</td>
+                    <td>{formatKRW(loan.amount)}</td>
+                    <td>
+                      {loan.repayments.length ? formatKRW(repaidAmount(loan)) : <span className="muted">None</span>}
+                      {loan.repayments.map(r => (
+                        <div key={r.id} className="muted repayment-line">
+                          {r.date} · {formatKRW(r.amount)}{r.rowId && !rowsById.has(r.rowId) ? ' · record deleted' : ''}
+                          <button className="btn btn-ghost btn-sm" onClick={()=>onDeleteRepayment(loan.id, r.id)} aria-label="Delete repayment">×</button>
+                        </div>
+                      ))}
+                    </td>
+                    <td>{left ? <span className={`pill ${loan.direction === 'lent' ? 'green' : 'red'}`}>{formatKRW(left)}</span> : <span className="pill blue">Settled</span>}</td>
+                    <td>{describeRow(loan.rowId)}</td>
+                    <td>
+                      <div className="actions">
+                        {left > 0 && <button className="btn btn-sm" onClick={()=>startRepay(loan)}>Repayment</button>}
+                        <button className="btn btn-danger btn-sm" onClick={()=>onDeleteLoan(loan.id)} aria-label="Delete loan">Delete</button>
+                      </div>
+                    </td>
+                  </tr>
+                  {repay?.loanId === loan.id && (
+                    <tr className="editing">
+                      <td><input type="date" aria-label="Repayment date" value={repay.date} onChange={(e)=>setRepay({ ...repay, date: e.target.value })} /></td>
+                      <td colSpan={2}><input type="text" aria-label="Repayment notes" placeholder="Notes" value={repay.notes} onChange={(e)=>setRepay({ ...repay, notes: e.target.value })} /></td>
+                      <td colSpan={2}><input type="number" aria-label="Repayment amount" min={1} step={1} value={repay.amount} onChange={(e)=>setRepay({ ...repay, amount: e.target.value })} /></td>
+                      <td colSpan={2}>{linkSelect(linkedRowType(loan.direction, true), repay.link, (link)=>setRepay({ ...repay, link }))}</td>
+                      <td>
+                        <div className="actions">
+                          <button className="btn btn-success btn-sm" onClick={onSaveRepay}>Save</button>
+                          <button className="btn btn-ghost btn-sm" onClick={()=>setRepay(null)}>Cancel</button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {!shown.length && <tr><td colSpan={8} className="muted">{loans.length ? 'All loans are settled.' : 'No loans recorded yet.'}</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState } from "react";
+import { goalProgress, savedAmount, type GoalStatus } from "../lib/goals";
+import type { GoalEntry, SavingsGoal } from "../lib/types";
+
+export type GoalDraft = Omit<SavingsGoal, "id" | "entries">;
+
+type Props = {
+  goals: SavingsGoal[];
+  today: string;
+  /** Average monthly net in KRW over recent complete months, or null before there is any history. */
+  avgNet: number | null;
+  /** KRW per USD, used to compare USD goals with the KRW history and remaining funds. */
+  usdRate: number;
+  /** What is left over overall (all-time income minus expenses) after earlier allocations, in KRW. */
+  unallocated: number;
+  onAddGoal: (draft: GoalDraft) => void;
+  onDeleteGoal: (id: string) => void;
+  onAddEntry: (goalId: string, entry: Omit<GoalEntry, "id">) => void;
+  onDeleteEntry: (goalId: string, entryId: string) => void;
+  formatKRW: (krw: number) => string;
+  formatUSD: (usd: number) => string;
+  notify: (message: string, type?: 'info' | 'success' | 'error', timeout?: number) => void;
+};
+
+type GoalForm = { name: string; target: string; currency: SavingsGoal["currency"]; deadline: string };
+type EntryForm = { goalId: string; kind: GoalEntry["kind"]; date: string; amount: string; notes: string };
+
+const STATUS_LABELS: Record<GoalStatus, { label: string; pill: string }> = {
+  'reached': { label: 'Reached', pill: 'blue' },
+  'on-track': { label: 'On track', pill: 'green' },
+  'behind': { label: 'Behind', pill: 'red' },
+  'overdue': { label: 'Past deadline', pill: 'red' },
+  'unknown': { label: 'No history yet', pill: '' }
+};
+
+export default function Goals({ goals, today, avgNet, usdRate, unallocated, onAddGoal, onDeleteGoal, onAddEntry, onDeleteEntry, formatKRW, formatUSD, notify }: Props){
+  const [form, setForm] = useState<GoalForm>({ name: '', target: '', currency: 'KRW', deadline: '' });
+  const [entry, setEntry] = useState<EntryForm | null>(null);
+
+  // Amounts are kept in each goal's own currency
+  const fmt = (g: SavingsGoal, v: number) => g.currency === 'USD' ? formatUSD(v) : formatKRW(Math.round(v));
+  const toGoal = (g: SavingsGoal, krw: number) => g.currency === 'USD' ? krw / usdRate : krw;
+  const toKRW = (g: SavingsGoal, v: number) => g.currency === 'USD' ? v * usdRate : v;
+
+  const progress = new Map(goals.map(g => [g.id, goalProgress(g, today, avgNet == null ? null : toGoal(g, avgNet))]));
+  const neededKRW = goals.reduce((s, g) => s + toKRW(g, progress.get(g.id)!.monthlyNeeded), 0);
+  const sorted = [...goals].sort((a,b)=> a.deadline.localeCompare(b.deadline));
+
+  function onSubmit(e: React.FormEvent){
+    e.preventDefault();
+    const name = form.name.trim();
+    const target = form.currency === 'USD' ? Math.round(Number(form.target) * 100) / 100 : Math.round(Number(form.target));
+    if (!name || !(target > 0) || !form.deadline) { notify("Please fix the errors above.", "error", 3500); return; }
+    if (form.deadline < today) { notify('The deadline is in the past', 'error', 3000); return; }
+    onAddGoal({ name, target, currency: form.currency, deadline: form.deadline });
+    setForm(f => ({ ...f, name: '', target: '', deadline: '' }));
+  }
+
+  function onSaveEntry(){
+    if (!entry) return;
+    const goal = goals.find(g => g.id === entry.goalId);
+    if (!goal) { setEntry(null); return; }
+    const amount = goal.currency === 'USD' ? Math.round(Number(entry.amount) * 100) / 100 : Math.round(Number(entry.amount));
+    if (!entry.date || !(amount > 0)) { notify("Enter a date and an amount.", "error", 3500); return; }
+    if (entry.kind === 'allocation' && toKRW(goal, amount) > unallocated){
+      notify(`Only ${formatKRW(Math.max(0, unallocated))} of remaining funds is unallocated`, 'error', 4000);
+      return;
+    }
+    onAddEntry(goal.id, { kind: entry.kind, date: entry.date, amount, notes: entry.notes.trim() || undefined });
+    setEntry(null);
+  }
+
+  return (
+    <>
+      <h2 className="section-title">Savings Goals</h2>
+      <p className="subtle">Set money aside for something specific. Allocate part of what is left over, or log contributions saved elsewhere. A goal is on track when your average monthly net over the last few complete months covers what it still needs each month.</p>
+
+      <div className="summary-cards">
+        <div className="summary-card remain-card"><h3>Unallocated Remaining</h3><div className="big">{formatKRW(Math.round(unallocated))}</div><div className="sub">All-time income minus expenses, less allocations</div></div>
+        <div className="summary-card income-card"><h3>Average Monthly Net</h3><div className="big">{avgNet == null ? '—' : formatKRW(Math.round(avgNet))}</div><div className="sub">Recent complete months</div></div>
+        <div className="summary-card expense-card"><h3>Needed per Month</h3><div className="big">{formatKRW(Math.round(neededKRW))}</div><div className="sub">All open goals together</div></div>
+      </div>
+
+      <form onSubmit={onSubmit} noValidate style={{marginTop:16}}>
+        <div className="row">
+          <div>
+            <label htmlFor="goal-name">Goal *</label>
+            <input type="text" id="goal-name" required maxLength={60} placeholder="e.g., Trip home" value={form.name} onChange={(e)=>setForm(f=>({...f, name:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="goal-target">Target *</label>
+            <input type="number" id="goal-target" required min={0} step={form.currency === 'USD' ? 0.01 : 1} inputMode="decimal" placeholder="e.g., 2000000" value={form.target} onChange={(e)=>setForm(f=>({...f, target:e.target.value}))} />
+          </div>
+          <div>
+            <label htmlFor="goal-currency">Currency</label>
+            <select id="goal-currency" value={form.currency} onChange={(e)=>setForm(f=>({...f, currency:e.target.value as SavingsGoal["currency"]}))}>
+              <option value="KRW">KRW</option>
+              <option value="USD">USD</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="goal-deadline">Deadline *</label>
+            <input type="date" id="goal-deadline" required min={today} value={form.deadline} onChange={(e)=>setForm(f=>({...f, deadline:e.target.value}))} />
+          </div>
+        </div>
+        <div className="actions" style={{marginTop:12}}>
+          <button className="btn btn-primary" type="submit">Add Goal</button>
+        </div>
+      </form>
+
+      <div className="table-wrap" style={{marginTop:18}}>
+        <table aria-label="Savings Goals">
+          <thead><tr><th>Goal</th><th>Deadline</th><th>Progress</th><th>Per Month</th><th>Status</th><th>Actions</th></tr></thead>
+          <tbody>
+            {sorted.map(g => {
+              const p = progress.get(g.id)!;
+              const status = STATUS_LABELS[p.status];
+              return (
+                <React.Fragment key={g.id}>
+                  <tr>
+                    <td>
+                      {g.name}
+                      {g.entries.map(e => (
+                        <div key={e.id} className="muted repayment-line">
+                          {e.date} · {e.kind === 'allocation' ? 'Allocated' : 'Contributed'} {fmt(g, e.amount)}{e.notes ? ` · ${e.notes}` : ''}
+                          <button className="btn btn-ghost btn-sm" onClick={()=>onDeleteEntry(g.id, e.id)} aria-label="Delete entry">×</button>
+                        </div>
+                      ))}
+                    </td>
+                    <td>{g.deadline}<div className="muted">{p.monthsLeft ? `${p.monthsLeft} month${p.monthsLeft === 1 ? '' : 's'} left` : 'Passed'}</div></td>
+                    <td className="goal-progress">
+                      <div>{fmt(g, p.saved)} of {fmt(g, g.target)}</div>
+                      <div className="bar" aria-hidden="true"><span style={{ width: `${p.pct}%` }} /></div>
+                      <div className="muted">{p.pct.toFixed(0)}%{savedAmount(g, 'allocation') ? ` · ${fmt(g, savedAmount(g, 'allocation'))} allocated` : ''}</div>
+                    </td>
+                    <td>{p.remaining ? fmt(g, p.monthlyNeeded) : '—'}</td>
+                    <td><span className={`pill ${status.pill}`}>{status.label}</span></td>
+                    <td>
+                      <div className="actions">
+                        {p.remaining > 0 && <button className="btn btn-sm" onClick={()=>setEntry({ goalId: g.id, kind: 'allocation', date: today, amount: '', notes: '' })}>Add Money</button>}
+                        <button className="btn btn-danger btn-sm" onClick={()=>onDeleteGoal(g.id)} aria-label={`Delete ${g.name}`}>Delete</button>
+                      </div>
+                    </td>
+                  </tr>
+                  {entry?.goalId === g.id && (
+                    <tr className="editing">
+                      <td>
+                        <select aria-label="Source" value={entry.kind} onChange={(e)=>setEntry({ ...entry, kind: e.target.value as GoalEntry["kind"] })}>
+                          <option value="allocation">Allocate from remaining</option>
+                          <option value="contribution">Log a contribution</option>
+                        </select>
+                      </td>
+                      <td><input type="date" aria-label="Entry date" value={entry.date} onChange={(e)=>setEntry({ ...entry, date: e.target.value })} /></td>
+                      <td><input type="number" aria-label={`Amount (${g.currency})`} min={0} step={g.currency === 'USD' ? 0.01 : 1} placeholder={`Amount (${g.currency})`} value={entry.amount} onChange={(e)=>setEntry({ ...entry, amount: e.target.value })} /></td>
+                      <td colSpan={2}><input type="text" aria-label="Entry notes" placeholder="Notes" maxLength={100} value={entry.notes} onChange={(e)=>setEntry({ ...entry, notes: e.target.value })} /></td>
+                      <td>
+                        <div className="actions">
+                          <button className="btn btn-success btn-sm" onClick={onSaveEntry}>Save</button>
+                          <button className="btn btn-ghost btn-sm" onClick={()=>setEntry(null)}>Cancel</button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {!goals.length && <tr><td colSpan={6} className="muted">No savings goals yet.</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import React from "react";
+import type { HistoryEntry, Snapshot, UndoHistory } from "../lib/history";
+
+type Props = {
+  history: UndoHistory;
+  restorePoints: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (point: HistoryEntry) => void;
+  onDeletePoint: (id: string) => void;
+  onClose: () => void;
+};
+
+function describe(data: Snapshot){
+  return `${data.income.length} income · ${data.expenses.length} expenses`;
+}
+
+function when(at: string){
+  const d = new Date(at);
+  return Number.isNaN(d.getTime()) ? at : d.toLocaleString();
+}
+
+export default function HistoryPanel({ history, restorePoints, onUndo, onRedo, onRestore, onDeletePoint, onClose }: Props){
+  const recent = [...history.past].reverse();
+  const redo = history.future[history.future.length - 1];
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="History">
+      <div className="modal card">
+        <h2 className="section-title">History</h2>
+        <p className="subtle">Undo steps are kept until the page is closed (Ctrl+Z / Ctrl+Shift+Z outside of text fields). Restore points are saved automatically before deleting, clearing or importing, and survive a reload.</p>
+
+        <div className="row-inline" style={{marginTop:12}}>
+          <button className="btn btn-sm" onClick={onUndo} disabled={!recent.length}>Undo{recent.length ? `: ${recent[0].label}` : ''}</button>
+          <button className="btn btn-sm" onClick={onRedo} disabled={!redo}>Redo{redo ? `: ${redo.label}` : ''}</button>
+        </div>
+
+        <h3 className="sub-title">Recent Changes</h3>
+        <div className="table-wrap">
+          <table aria-label="Recent Changes">
+            <thead><tr><th>Change</th><th>Time</th><th>Before</th></tr></thead>
+            <tbody>
+              {recent.map(e => (
+                <tr key={e.id}><td>{e.label}</td><td>{when(e.at)}</td><td className="muted">{describe(e.data)}</td></tr>
+              ))}
+              {!recent.length && <tr><td colSpan={3} className="muted">No changes in this session yet.</td></tr>}
+            </tbody>
+          </table>
+        </div>
+
+        <h3 className="sub-title">Restore Points</h3>
+        <div className="table-wrap">
+          <table aria-label="Restore Points">
+            <thead><tr><th>Saved</th><th>Time</th><th>Contents</th><th>Actions</th></tr></thead>
+            <tbody>
+              {restorePoints.map(p => (
+                <tr key={p.id}>
+                  <td>{p.label}</td>
+                  <td>{when(p.at)}</td>
+                  <td className="muted">{describe(p.data)}</td>
+                  <td>
+                    <div className="actions">
+                      <button className="btn btn-sm" onClick={()=>onRestore(p)}>Restore</button>
+                      <button className="btn btn-ghost btn-sm" onClick={()=>onDeletePoint(p.id)} aria-label="Delete restore point">×</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {!restorePoints.length && <tr><td colSpan={4} className="muted">No restore points yet.</td></tr>}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="actions" style={{marginTop:14}}>
+          <button className="btn btn-primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
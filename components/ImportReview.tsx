@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import { isConflict, type MergeDecision, type MergeItem, type MergeableRow, type MergePlan } from "../lib/merge";
+
+type Props = {
+  fileName: string;
+  plan: MergePlan<MergeableRow, MergeableRow>;
+  formatAmount: (krw: number) => string;
+  onApply: (decisions: Record<string, MergeDecision>) => void;
+  onReplace: () => void;
+  onCancel: () => void;
+};
+
+const DECISIONS: { value: MergeDecision; label: string }[] = [
+  { value: 'skip', label: 'Skip imported' },
+  { value: 'overwrite', label: 'Overwrite local' },
+  { value: 'keep', label: 'Keep both' }
+];
+
+function describe(r: MergeableRow & { category?: string }, formatAmount: Props["formatAmount"]){
+  return (
+    <>
+      <div>{r.date || '—'} · {formatAmount(r.amount)}</div>
+      <div className="muted">{r.desc}{r.category ? ` · ${r.category}` : ''}</div>
+    </>
+  );
+}
+
+export default function ImportReview({ fileName, plan, formatAmount, onApply, onReplace, onCancel }: Props){
+  const items = useMemo(()=> [
+    ...plan.income.map(item => ({ item, type: 'Income' })),
+    ...plan.expenses.map(item => ({ item, type: 'Expense' }))
+  ], [plan]);
+  const conflicts = items.filter(x => isConflict(x.item));
+  const [decisions, setDecisions] = useState<Record<string, MergeDecision>>({});
+
+  const counts = useMemo(()=>{
+    const c = { added: 0, updated: 0, skipped: 0 };
+    for (const { item } of items){
+      if (item.kind === 'add') c.added++;
+      else if (item.kind === 'same') c.skipped++;
+      else {
+        const d = decisions[item.key] || 'skip';
+        if (d === 'keep') c.added++;
+        else if (d === 'overwrite') c.updated++;
+        else c.skipped++;
+      }
+    }
+    return c;
+  }, [items, decisions]);
+
+  function setAll(d: MergeDecision){
+    setDecisions(Object.fromEntries(conflicts.map(({ item }) => [item.key, d])));
+  }
+
+  const reason = (item: MergeItem<MergeableRow>) => item.kind === 'id-conflict' ? 'Same id, changed' : 'Likely duplicate';
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Review Import">
+      <div className="modal card">
+        <h2 className="section-title">Review Import</h2>
+        <p className="subtle">
+          {fileName}: {items.length} records. Rows are matched by id first, then by date, amount and a similar description. Nothing is saved until you apply.
+        </p>
+
+        <div className="summary-cards merge-counts">
+          <div className="summary-card income-card"><h3>Added</h3><div className="big">{counts.added}</div></div>
+          <div className="summary-card remain-card"><h3>Updated</h3><div className="big">{counts.updated}</div></div>
+          <div className="summary-card expense-card"><h3>Skipped</h3><div className="big">{counts.skipped}</div></div>
+        </div>
+
+        {conflicts.length > 0 ? (
+          <>
+            <div className="actions" style={{marginTop:14, alignItems:'center'}}>
+              <span className="muted">{conflicts.length} conflict{conflicts.length === 1 ? '' : 's'} — set all to:</span>
+              {DECISIONS.map(d => <button key={d.value} className="btn btn-sm" onClick={()=>setAll(d.value)}>{d.label}</button>)}
+            </div>
+            <div className="table-wrap" style={{marginTop:12}}>
+              <table aria-label="Import Conflicts">
+                <thead><tr><th>Type</th><th>Reason</th><th>Local</th><th>Imported</th><th>Action</th></tr></thead>
+                <tbody>
+                  {conflicts.map(({ item, type }) => (
+                    <tr key={item.key}>
+                      <td>{type}</td>
+                      <td><span className={`pill ${item.kind === 'id-conflict' ? 'blue' : 'red'}`}>{reason(item)}</span></td>
+                      <td>{item.local && describe(item.local, formatAmount)}</td>
+                      <td>{describe(item.incoming, formatAmount)}</td>
+                      <td>
+                        <select aria-label="Action" value={decisions[item.key] || 'skip'} onChange={(e)=>setDecisions(d => ({ ...d, [item.key]: e.target.value as MergeDecision }))}>
+                          {DECISIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="subtle">No conflicts found.</p>
+        )}
+
+        <div className="actions" style={{marginTop:14}}>
+          <button className="btn btn-primary" onClick={()=>onApply(decisions)}>Apply Merge</button>
+          <button className="btn btn-danger" onClick={onReplace}>Replace All Data Instead</button>
+          <button className="btn btn-ghost" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+}
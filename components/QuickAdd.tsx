@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useMemo, useState } from "react";
+import { fmtMoney } from "../lib/money";
+import { draftProblem, type QuickDraft } from "../lib/quickAdd";
+
+type Props = {
+  parse: (input: string) => QuickDraft;
+  /** Adds the draft; false keeps the text so it can be fixed. */
+  onAdd: (draft: QuickDraft) => boolean;
+  onClose: () => void;
+};
+
+const EXAMPLES = ['12000 taxi transport yesterday', 'salary 2,500,000 income 10/25', '$8.50 lunch #trip fri'];
+
+/** One-line entry, opened with "/". Enter adds the previewed row and leaves the bar open for the next one. */
+export default function QuickAdd({ parse, onAdd, onClose }: Props){
+  const [text, setText] = useState('');
+  const draft = useMemo(()=> text.trim() ? parse(text) : null, [text, parse]);
+  const problem = draft ? draftProblem(draft) : '';
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>){
+    if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+    else if (e.key === 'Enter'){
+      e.preventDefault();
+      if (draft && !problem && onAdd(draft)) setText('');
+    }
+  }
+  const f = draft?.form;
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Quick Add" onMouseDown={(e)=>{ if (e.target === e.currentTarget) onClose(); }}>
+      <div className="modal card quick-add">
+        <input
+          type="text" autoFocus aria-label="Quick add" aria-describedby="quick-add-preview" placeholder={`e.g., ${EXAMPLES[0]}`}
+          value={text} onChange={(e)=>setText(e.target.value)} onKeyDown={onKeyDown}
+        />
+        <div id="quick-add-preview" className="quick-preview" aria-live="polite">
+          {draft && f ? (
+            <>
+              <span className={`pill ${draft.type === 'income' ? 'green' : 'red'}`}>{draft.type === 'income' ? 'Income' : 'Expense'}</span>
+              <span>{f.date}</span>
+              <span>{f.category || <span className="muted">No category</span>}{draft.categoryFrom === 'history' && <span className="muted"> (from earlier records)</span>}</span>
+              <span>{f.desc}</span>
+              {f.amount && <strong>{fmtMoney(Number(f.amount), f.currency)}</strong>}
+              {f.tags && <span className="muted">{f.tags.split(', ').map(t => `#${t}`).join(' ')}</span>}
+              {problem ? <span className="split-warning">{problem}</span> : <span className="muted">Enter to add</span>}
+            </>
+          ) : (
+            <span className="muted">Try: {EXAMPLES.map(x => `“${x}”`).join(' · ')}</span>
+          )}
+        </div>
+        <p className="subtle">
+          Amount, date (today, yesterday, fri, 10/25), income or expense, category and #tags in any order; the rest is the description.
+          Shortcuts: <kbd>/</kbd> quick add · <kbd>1</kbd>–<kbd>8</kbd> tabs · <kbd>↑</kbd> <kbd>↓</kbd> or <kbd>j</kbd> <kbd>k</kbd> rows · <kbd>Enter</kbd> edit row · <kbd>Delete</kbd> delete row · <kbd>Esc</kbd> close.
+        </p>
+      </div>
+    </div>
+  );
+}
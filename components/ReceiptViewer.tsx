@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useEffect, useState } from "react";
+import { RECEIPT_TYPES, type Receipt, type ReceiptStore } from "../lib/receipts";
+import type { ExpenseRow } from "../lib/types";
+
+type Props = {
+  expense: ExpenseRow;
+  store: ReceiptStore;
+  /** Increases whenever receipts are stored, so newly attached ones are loaded. */
+  version: number;
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+};
+
+type Loaded = { id: string; receipt?: Receipt; thumbUrl?: string };
+
+/** Picks images from the file picker (several at once) or, on phones, straight from the camera. */
+export function ReceiptPicker({ onPick, disabled }: { onPick: (files: File[]) => void; disabled?: boolean }){
+  function picked(e: React.ChangeEvent<HTMLInputElement>){
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length) onPick(files);
+  }
+  return (
+    <div className="actions">
+      <label className={`btn btn-sm${disabled ? ' disabled' : ''}`}>
+        Choose Images
+        <input type="file" accept={RECEIPT_TYPES} multiple hidden disabled={disabled} onChange={picked} />
+      </label>
+      <label className={`btn btn-sm${disabled ? ' disabled' : ''}`}>
+        Take Photo
+        <input type="file" accept="image/*" capture="environment" hidden disabled={disabled} onChange={picked} />
+      </label>
+    </div>
+  );
+}
+
+export default function ReceiptViewer({ expense, store, version, onAdd, onRemove, onClose }: Props){
+  const ids = expense.receipts || [];
+  const key = ids.join(',');
+  const [loaded, setLoaded] = useState<Loaded[]>([]);
+  const [selected, setSelected] = useState<string | null>(ids[0] ?? null);
+  const [fullUrl, setFullUrl] = useState<string | null>(null);
+
+  useEffect(()=>{
+    let cancelled = false;
+    const urls: string[] = [];
+    Promise.all(key ? key.split(',').map(async id => {
+      const receipt = await store.get(id).catch(() => undefined);
+      const thumbUrl = receipt ? URL.createObjectURL(receipt.thumbnail) : undefined;
+      if (thumbUrl) urls.push(thumbUrl);
+      return { id, receipt, thumbUrl };
+    }) : []).then(list => { if (!cancelled) setLoaded(list); });
+    return () => { cancelled = true; urls.forEach(u => URL.revokeObjectURL(u)); };
+  }, [key, store, version]);
+
+  // Keep a receipt selected while the list changes
+  const current = loaded.find(l => l.id === selected) || loaded[0];
+  const receipt = current?.receipt;
+  useEffect(()=>{
+    if (!receipt) { setFullUrl(null); return; }
+    const url = URL.createObjectURL(receipt.original);
+    setFullUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [receipt]);
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true" aria-label="Receipts">
+      <div className="modal card">
+        <h2 className="section-title">Receipts</h2>
+        <p className="subtle">{expense.date} · {expense.desc}. Images are kept in this browser only; they are not synced, but the full backup zip includes them.</p>
+
+        <div style={{marginTop:12}}>
+          <ReceiptPicker onPick={onAdd} />
+        </div>
+
+        {loaded.length > 0 && (
+          <div className="receipt-strip" role="list" aria-label="Attached receipts">
+            {loaded.map(l => (
+              <button key={l.id} type="button" role="listitem" className={`receipt-thumb${l === current ? ' selected' : ''}`} onClick={()=>setSelected(l.id)} aria-label={l.receipt?.name || 'Missing receipt'}>
+                {/* eslint-disable-next-line @next/next/no-img-element -- object URLs from IndexedDB, not optimizable */}
+                {l.thumbUrl ? <img src={l.thumbUrl} alt="" /> : <span className="muted">Not on this device</span>}
+              </button>
+            ))}
+          </div>
+        )}
+        {!ids.length && <p className="muted" style={{marginTop:12}}>No receipts attached yet.</p>}
+
+        {current && (
+          <div className="receipt-full">
+            {receipt && fullUrl ? (
+              <>
+                {/* eslint-disable-next-line @next/next/no-img-element -- object URLs from IndexedDB, not optimizable */}
+                <img src={fullUrl} alt={`Receipt ${receipt.name}`} />
+                <p className="muted">{receipt.name} · {(receipt.size / 1024).toFixed(0)} KB · added {new Date(receipt.addedAt).toLocaleString()}</p>
+              </>
+            ) : (
+              <p className="muted">This receipt was attached on another device and is not stored here.</p>
+            )}
+            <div className="actions">
+              {receipt && fullUrl && <a className="btn btn-sm" href={fullUrl} download={receipt.name}>Download</a>}
+              <button className="btn btn-danger btn-sm" onClick={()=>onRemove(current.id)}>Remove</button>
+            </div>
+          </div>
+        )}
+
+        <div className="actions" style={{marginTop:14}}>
+          <button className="btn btn-primary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
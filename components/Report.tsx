@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from "react";
+import { CategoryLabel } from "./CategoryManager";
+import { SplitLines } from "./SplitEditor";
+import { fmtKRW, fmtMoney, fmtUSD, rowCurrency, rowOriginal } from "../lib/money";
+import type { Report as ReportData, ReportCategory, ReportLine } from "../lib/report";
+import type { CategoryStyle } from "../lib/types";
+
+type Props = {
+  report: ReportData;
+  categoryStyles: Record<string, CategoryStyle>;
+  incomeCategoryStyles: Record<string, CategoryStyle>;
+  accountName: (id?: string) => string;
+  /** The month shown in the picker, when the period is exactly one month. */
+  month: string;
+  onPickMonth: (month: string) => void;
+  onDownloadCsv: () => void;
+};
+
+function LineCategory({ line, style }: { line: ReportLine; style?: CategoryStyle }){
+  const splits = line.type === 'expense' && 'splits' in line.row ? line.row.splits : undefined;
+  return splits?.length ? <><span className="muted">Split</span><SplitLines splits={splits} /></> : <CategoryLabel name={line.row.category} style={style} />;
+}
+
+function Breakdown({ label, rows, styles }: { label: string; rows: ReportCategory[]; styles: Record<string, CategoryStyle> }){
+  return (
+    <table aria-label={label}>
+      <thead><tr><th>Category</th><th className="num">KRW</th><th className="num">USD</th><th className="num">Share</th></tr></thead>
+      <tbody>
+        {rows.map(c => (
+          <tr key={c.category}>
+            <td><CategoryLabel name={c.category} style={styles[c.category]} /></td>
+            <td className="num">{fmtKRW.format(c.krw)}</td>
+            <td className="num">{fmtUSD.format(c.usd)}</td>
+            <td className="num">{(c.share * 100).toFixed(1)}%</td>
+          </tr>
+        ))}
+        {!rows.length && <tr><td colSpan={4} className="muted">Nothing in this period.</td></tr>}
+      </tbody>
+    </table>
+  );
+}
+
+function Amount({ line }: { line: ReportLine }){
+  const currency = rowCurrency(line.row);
+  return (
+    <>
+      {line.type === 'expense' ? '−' : ''}{fmtKRW.format(line.row.amount)}
+      {currency !== 'KRW' && <div className="muted">{fmtMoney(rowOriginal(line.row), currency)}</div>}
+    </>
+  );
+}
+
+/** Report for the selected period, laid out to print (or save as PDF) on its own. */
+export default function Report({ report, categoryStyles, incomeCategoryStyles, accountName, month, onPickMonth, onDownloadCsv }: Props){
+  const styleOf = (l: ReportLine) => (l.type === 'income' ? incomeCategoryStyles : categoryStyles)[l.row.category];
+  // Set after mount: the server and the browser would format different times and locales
+  const [generated, setGenerated] = useState('');
+  useEffect(()=>{ setGenerated(new Date().toLocaleString()); }, [report]);
+  return (
+    <div className="report">
+      <div className="report-controls no-print">
+        <div>
+          <label htmlFor="report-month">Month</label>
+          <input type="month" id="report-month" value={month} onChange={(e)=>e.target.value && onPickMonth(e.target.value)} />
+        </div>
+        <p className="subtle">The report covers the period selected above; pick a month here or use a custom range for anything else.</p>
+        <div className="actions">
+          <button className="btn btn-primary" onClick={()=>window.print()}>Print / Save as PDF</button>
+          <button className="btn" onClick={onDownloadCsv}>Download CSV</button>
+        </div>
+      </div>
+
+      <h2 className="section-title">Budget Report: {report.title}</h2>
+      <p className="subtle">All amounts in KRW. USD at the rate stored for each record&apos;s date.{generated && ` Generated ${generated}.`}</p>
+
+      <div className="summary-cards">
+        <div className="summary-card income-card">
+          <h3>Income</h3>
+          <div className="big">{fmtKRW.format(report.income)}</div>
+          <div className="sub">≈ {fmtUSD.format(report.incomeUSD)}</div>
+        </div>
+        <div className="summary-card expense-card">
+          <h3>Expenses</h3>
+          <div className="big">{fmtKRW.format(report.expense)}</div>
+          <div className="sub">≈ {fmtUSD.format(report.expenseUSD)}</div>
+        </div>
+        <div className="summary-card remain-card">
+          <h3>Net</h3>
+          <div className="big">{fmtKRW.format(report.net)}</div>
+          <div className="sub">≈ {fmtUSD.format(report.netUSD)}{report.savingsRate != null && ` · ${(report.savingsRate * 100).toFixed(1)}% of income kept`}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 report-section">
+        <div className="table-wrap">
+          <h3 className="sub-title">Expenses by Category</h3>
+          <Breakdown label="Expenses by Category" rows={report.categories} styles={categoryStyles} />
+        </div>
+        <div className="table-wrap">
+          <h3 className="sub-title">Income by Category</h3>
+          <Breakdown label="Income by Category" rows={report.incomeCategories} styles={incomeCategoryStyles} />
+        </div>
+      </div>
+
+      <div className="table-wrap report-section">
+        <h3 className="sub-title">Top Expenses</h3>
+        <table aria-label="Top Expenses">
+          <thead><tr><th>Date</th><th>Category</th><th>Description</th><th className="num">KRW</th><th className="num">USD</th></tr></thead>
+          <tbody>
+            {report.topExpenses.map(l => (
+              <tr key={l.row.id}>
+                <td>{l.row.date}</td>
+                <td><LineCategory line={l} style={categoryStyles[l.row.category]} /></td>
+                <td>{l.row.desc}</td>
+                <td className="num">{fmtKRW.format(l.row.amount)}</td>
+                <td className="num">{fmtUSD.format(l.usd)}</td>
+              </tr>
+            ))}
+            {!report.topExpenses.length && <tr><td colSpan={5} className="muted">No expenses in this period.</td></tr>}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="table-wrap report-section">
+        <h3 className="sub-title">All Transactions ({report.lines.length})</h3>
+        <table aria-label="All Transactions" className="report-lines">
+          <thead><tr><th>Date</th><th>Type</th><th>Category</th><th>Description</th><th>Account</th><th className="num">KRW</th><th className="num">USD</th></tr></thead>
+          <tbody>
+            {report.lines.map(l => (
+              <tr key={`${l.type}-${l.row.id}`}>
+                <td>{l.row.date}</td>
+                <td><span className={`pill ${l.type === 'income' ? 'green' : 'red'}`}>{l.type === 'income' ? 'Income' : 'Expense'}</span></td>
+                <td><LineCategory line={l} style={styleOf(l)} /></td>
+                <td>{l.row.desc}{l.row.notes && <div className="muted">{l.row.notes}</div>}</td>
+                <td>{accountName(l.row.accountId)}</td>
+                <td className="num"><Amount line={l} /></td>
+                <td className="num">{l.type === 'expense' ? '−' : ''}{fmtUSD.format(l.usd)}</td>
+              </tr>
+            ))}
+            {!report.lines.length && <tr><td colSpan={7} className="muted">No records in this period.</td></tr>}
+          </tbody>
+          <tfoot>
+            <tr><td colSpan={5}>Net</td><td className="num">{fmtKRW.format(report.net)}</td><td className="num">{fmtUSD.format(report.netUSD)}</td></tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import React from "react";
+import type { TransactionForm } from "../lib/ledger";
+import { CURRENCY_DECIMALS, fmtKRW, fmtMoney } from "../lib/money";
+import { unassigned, type SplitForm } from "../lib/splits";
+import type { SplitLine } from "../lib/types";
+
+type Props = {
+  id: string;
+  form: Pick<TransactionForm, 'category' | 'amount' | 'currency' | 'splits'>;
+  categories: string[];
+  onChange: (patch: Partial<TransactionForm>) => void;
+};
+
+/**
+ * Divides an expense between categories. Lines are typed in the row's currency and must add up to
+ * its amount; the first line starts with the whole amount in the current category.
+ */
+export default function SplitEditor({ id, form, categories, onChange }: Props){
+  const { splits, currency } = form;
+  if (!splits.length){
+    return (
+      <button type="button" className="btn btn-sm" onClick={()=>onChange({ splits: [{ category: form.category, amount: form.amount }, { category: '', amount: '' }] })}>
+        Split
+      </button>
+    );
+  }
+  const left = unassigned(splits, form.amount, currency);
+  const setLine = (i: number, patch: Partial<SplitForm>) => onChange({ splits: splits.map((l, j) => j === i ? { ...l, ...patch } : l) });
+  return (
+    <div className="split-editor" role="group" aria-label="Split across categories">
+      {splits.map((l, i) => (
+        <div className="split-line" key={i}>
+          <select id={i === 0 ? `${id}-0` : undefined} aria-label={`Line ${i + 1} category`} value={l.category} onChange={(e)=>setLine(i, { category: e.target.value })}>
+            <option value="">Category</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input type="number" aria-label={`Line ${i + 1} amount`} min={0} step={CURRENCY_DECIMALS[currency] ? 0.01 : 1} inputMode="decimal" value={l.amount} onChange={(e)=>setLine(i, { amount: e.target.value })} />
+          <button type="button" className="btn btn-ghost btn-sm" aria-label={`Remove line ${i + 1}`} onClick={()=>onChange({ splits: splits.filter((_, j) => j !== i) })}>×</button>
+        </div>
+      ))}
+      <div className="split-footer">
+        <button type="button" className="btn btn-sm" onClick={()=>onChange({ splits: [...splits, { category: '', amount: left > 0 ? String(left) : '' }] })}>Add Line</button>
+        <span className={left === 0 && splits.length > 1 ? 'muted' : 'split-warning'}>
+          {splits.length < 2 ? 'Add a second line or remove the split' : left === 0 ? 'Fully assigned' : left > 0 ? `${fmtMoney(left, currency)} left to assign` : `${fmtMoney(-left, currency)} over the total`}
+        </span>
+        <button type="button" className="btn btn-ghost btn-sm" onClick={()=>onChange({ splits: [], category: splits[0].category || form.category })}>Remove Split</button>
+      </div>
+    </div>
+  );
+}
+
+/** The lines of a split row, under its category in the tables. */
+export function SplitLines({ splits }: { splits: SplitLine[] }){
+  return (
+    <ul className="split-lines" aria-label="Split lines">
+      {splits.map((l, i) => <li key={i}>{l.category} · {fmtKRW.format(l.amount)}</li>)}
+    </ul>
+  );
+}
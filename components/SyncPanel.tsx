@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState } from "react";
+
+export type SyncStatus = {
+  state: 'off' | 'syncing' | 'synced' | 'offline' | 'error';
+  /** Changes made on this device that the server has not accepted yet. */
+  waiting: number;
+  lastSynced?: string;
+  message?: string;
+};
+
+type Props = {
+  enabled: boolean;
+  status: SyncStatus;
+  onEnable: (passphrase: string) => void;
+  onDisable: () => void;
+  onSyncNow: () => void;
+};
+
+function describe(status: SyncStatus){
+  const waiting = status.waiting ? ` — ${status.waiting} change${status.waiting === 1 ? '' : 's'} waiting` : '';
+  switch (status.state){
+    case 'syncing': return 'Syncing…';
+    case 'offline': return `Server unreachable${waiting}. Changes are sent when it is back.`;
+    case 'error': return `${status.message || 'Sync failed'}${waiting}.`;
+    case 'synced': return `Synced ${status.lastSynced ? new Date(status.lastSynced).toLocaleTimeString() : ''}${waiting}`;
+    default: return 'Off. Data stays in this browser only.';
+  }
+}
+
+export default function SyncPanel({ enabled, status, onEnable, onDisable, onSyncNow }: Props){
+  const [passphrase, setPassphrase] = useState('');
+  function submit(e: React.FormEvent){
+    e.preventDefault();
+    if (!passphrase.trim()) return;
+    onEnable(passphrase.trim());
+    setPassphrase('');
+  }
+  const pill = status.state === 'synced' ? 'green' : status.state === 'error' ? 'red' : status.state === 'offline' ? 'amber' : 'blue';
+  return (
+    <div className="card">
+      <h2 className="section-title">Server Sync</h2>
+      <p className="subtle">Optional. Keeps this browser in step with the server this app runs on (set <code>BUDGET_SYNC_PASSPHRASE</code> there). Everything keeps working offline; the newest change to a record wins.</p>
+      <p style={{marginTop:12}}><span className={`pill ${pill}`}>{enabled ? describe(status) : describe({ state: 'off', waiting: 0 })}</span></p>
+      {enabled ? (
+        <div className="actions" style={{marginTop:12}}>
+          <button className="btn" onClick={onSyncNow} disabled={status.state === 'syncing'}>Sync Now</button>
+          <button className="btn btn-ghost" onClick={onDisable}>Turn Off</button>
+        </div>
+      ) : (
+        <form className="row-inline" style={{marginTop:12}} onSubmit={submit} noValidate>
+          <input type="password" aria-label="Sync passphrase" placeholder="Passphrase" autoComplete="current-password" value={passphrase} onChange={(e)=>setPassphrase(e.target.value)} />
+          <button className="btn btn-primary" type="submit" disabled={!passphrase.trim()}>Turn On</button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import React from "react";
+import { DEFAULT_FILTER, isFiltered, type ReceiptFilter, type SortKey, type TableFilter } from "../lib/filters";
+
+type FilterBarProps = {
+  id: string;
+  filter: TableFilter;
+  onChange: (patch: Partial<TableFilter>) => void;
+  categories?: string[];
+  tags?: string[];
+  /** Shows the with / without receipts filter (expenses). */
+  receipts?: boolean;
+  /** Downloads the rows the table currently shows. */
+  onExportCsv?: () => void;
+};
+
+export function FilterBar({ id, filter, onChange, categories, tags, receipts, onExportCsv }: FilterBarProps){
+  return (
+    <div className="filter-bar">
+      <input type="text" aria-label="Search description and notes" placeholder="Search description or notes" value={filter.q} onChange={(e)=>onChange({ q: e.target.value })} />
+      {categories && (
+        <select aria-label="Category filter" value={filter.category} onChange={(e)=>onChange({ category: e.target.value })}>
+          <option value="">All categories</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      )}
+      {tags && (tags.length > 0 || filter.tag) && (
+        <select aria-label="Tag filter" value={filter.tag} onChange={(e)=>onChange({ tag: e.target.value })}>
+          <option value="">All tags</option>
+          {filter.tag && !tags.includes(filter.tag) && <option value={filter.tag}>#{filter.tag}</option>}
+          {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+        </select>
+      )}
+      {receipts && (
+        <select aria-label="Receipt filter" value={filter.receipts} onChange={(e)=>onChange({ receipts: e.target.value as ReceiptFilter })}>
+          <option value="">With or without receipts</option>
+          <option value="with">With receipts</option>
+          <option value="without">Without receipts</option>
+        </select>
+      )}
+      <input type="date" aria-label="From date" id={`${id}-from`} value={filter.from} onChange={(e)=>onChange({ from: e.target.value })} />
+      <input type="date" aria-label="To date" id={`${id}-to`} value={filter.to} onChange={(e)=>onChange({ to: e.target.value })} />
+      <input type="number" aria-label="Minimum amount (KRW)" placeholder="Min KRW" min={0} value={filter.min} onChange={(e)=>onChange({ min: e.target.value })} />
+      <input type="number" aria-label="Maximum amount (KRW)" placeholder="Max KRW" min={0} value={filter.max} onChange={(e)=>onChange({ max: e.target.value })} />
+      {isFiltered(filter) && (
+        <button type="button" className="btn btn-ghost btn-sm" onClick={()=>onChange({ ...DEFAULT_FILTER, sort: filter.sort, dir: filter.dir })}>Clear</button>
+      )}
+      {onExportCsv && (
+        <button type="button" className="btn btn-sm" onClick={onExportCsv} title="Download the rows shown below as CSV">Export CSV</button>
+      )}
+    </div>
+  );
+}
+
+type SortThProps = { label: string; sortKey: SortKey; filter: TableFilter; onChange: (patch: Partial<TableFilter>) => void };
+
+/** Column header that sorts by `sortKey`; clicking the active column flips the direction. */
+export function SortTh({ label, sortKey, filter, onChange }: SortThProps){
+  const active = filter.sort === sortKey;
+  const next = active && filter.dir === 'desc' ? 'asc' : active ? 'desc' : sortKey === 'date' || sortKey === 'amount' ? 'desc' : 'asc';
+  return (
+    <th aria-sort={active ? (filter.dir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      <button type="button" className="sort-btn" onClick={()=>onChange({ sort: sortKey, dir: next })}>
+        {label}<span className="sort-arrow" aria-hidden="true">{active ? (filter.dir === 'asc' ? '▲' : '▼') : ''}</span>
+      </button>
+    </th>
+  );
+}
+
+/** A row's tags; clicking one filters the table by it. */
+export function TagList({ tags, onPick }: { tags?: string[]; onPick?: (tag: string) => void }){
+  if (!tags?.length) return null;
+  return (
+    <div>
+      {tags.map(t => onPick
+        ? <button key={t} type="button" className="tag" onClick={()=>onPick(t)} title={`Show only #${t}`}>#{t}</button>
+        : <span key={t} className="tag">#{t}</span>)}
+    </div>
+  );
+}
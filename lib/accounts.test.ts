@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { accountBalances, accountInUse, normalizeAccounts, UNASSIGNED } from "./accounts";
+import type { Account } from "./types";
+
+const accounts: Account[] = [
+  { id: 'cash', name: 'Cash', openingBalance: 10000 },
+  { id: 'bank', name: 'Bank Account', openingBalance: 0 }
+];
+const row = (id: string, date: string, amount: number, accountId?: string) => ({ id, date, category: 'Other', desc: id, amount, accountId });
+const income = [row('pay', '2026-03-01', 500000, 'bank'), row('gift', '2026-03-02', 1000), row('old', '2026-03-03', 2000, 'closed')];
+const expenses = [row('lunch', '2026-03-05', 3000, 'cash'), row('phone', '2026-03-20', 4000, 'bank')];
+const transfers = [{ id: 't', date: '2026-03-10', from: 'bank', to: 'cash', amount: 50000 }];
+
+describe('accountBalances', () => {
+  it('adds income, expenses and transfers to the opening balance', () => {
+    const b = accountBalances(accounts, income, expenses, transfers);
+    expect(b.cash).toEqual({ opening: 10000, income: 0, expense: 3000, transfersIn: 50000, transfersOut: 0, balance: 57000 });
+    expect(b.bank.balance).toBe(446000);
+  });
+  it('collects rows without a known account as unassigned', () => {
+    expect(accountBalances(accounts, income, expenses, transfers)[UNASSIGNED]).toMatchObject({ opening: 0, income: 3000, balance: 3000 });
+    expect(Object.keys(accountBalances(accounts, [], expenses, transfers))).toEqual(['cash', 'bank']);
+  });
+  it('counts only what happened up to and including the as-of date', () => {
+    const b = accountBalances(accounts, income, expenses, transfers, '2026-03-09');
+    expect(b.cash.balance).toBe(7000);
+    expect(b.bank).toMatchObject({ transfersOut: 0, balance: 500000 });
+    expect(accountBalances(accounts, income, expenses, transfers, '2026-03-10').cash.balance).toBe(57000);
+  });
+});
+
+describe('accounts', () => {
+  it('is in use while a row, template or transfer refers to it', () => {
+    const data = { income: [], expenses: [], transfers, recurring: [] };
+    expect(accountInUse('cash', data)).toBe(true);
+    expect(accountInUse('card', data)).toBe(false);
+    expect(accountInUse('card', { ...data, recurring: [{ accountId: 'card' }] })).toBe(true);
+  });
+  it('keeps valid stored accounts and drops the rest', () => {
+    expect(normalizeAccounts([
+      { id: 'cash', name: ' Cash ', openingBalance: '1200.6', archived: 1, reconciled: { date: '2026-03-01', balance: '5000' } },
+      { id: 'cash', name: 'Again' },
+      { id: 'bank', name: '  ' },
+      { id: 'card', name: 'Card', openingBalance: 'x', reconciled: { balance: 10 } },
+      null
+    ])).toEqual([
+      { id: 'cash', name: 'Cash', openingBalance: 1201, archived: true, reconciled: { date: '2026-03-01', balance: 5000 } },
+      { id: 'card', name: 'Card', openingBalance: 0, archived: undefined, reconciled: undefined }
+    ]);
+    expect(normalizeAccounts('cash')).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { Account, ExpenseRow, IncomeRow, Transfer } from "./types";
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  { id: 'cash', name: 'Cash', openingBalance: 0 },
+  { id: 'bank', name: 'Bank Account', openingBalance: 0 },
+  { id: 'card', name: 'Card', openingBalance: 0 },
+  { id: 'tmoney', name: 'T-money', openingBalance: 0 }
+];
+
+/** Key used for rows that are not assigned to any account. */
+export const UNASSIGNED = '';
+
+export type AccountBalance = { opening: number; income: number; expense: number; transfersIn: number; transfersOut: number; balance: number };
+
+const empty = (opening = 0): AccountBalance => ({ opening, income: 0, expense: 0, transfersIn: 0, transfersOut: 0, balance: opening });
+
+/**
+ * Balance of every account up to and including `asOf` (all dates when empty).
+ * Rows without a known account are collected under UNASSIGNED.
+ */
+export function accountBalances(accounts: Account[], income: IncomeRow[], expenses: ExpenseRow[], transfers: Transfer[], asOf = ''): Record<string, AccountBalance> {
+  const out: Record<string, AccountBalance> = {};
+  for (const a of accounts) out[a.id] = empty(a.openingBalance);
+  const at = (id?: string) => out[id && out[id] && id !== UNASSIGNED ? id : UNASSIGNED] ||= empty();
+  const counts = (date: string) => !asOf || (date || '') <= asOf;
+  for (const r of income) if (counts(r.date)) at(r.accountId).income += r.amount;
+  for (const r of expenses) if (counts(r.date)) at(r.accountId).expense += r.amount;
+  for (const t of transfers){
+    if (!counts(t.date)) continue;
+    at(t.from).transfersOut += t.amount;
+    at(t.to).transfersIn += t.amount;
+  }
+  for (const b of Object.values(out)) b.balance = b.opening + b.income - b.expense + b.transfersIn - b.transfersOut;
+  return out;
+}
+
+/** True when any row, template or transfer still refers to the account. */
+export function accountInUse(id: string, data: { income: IncomeRow[]; expenses: ExpenseRow[]; transfers: Transfer[]; recurring: { accountId?: string }[] }){
+  return data.income.some(r => r.accountId === id)
+    || data.expenses.some(r => r.accountId === id)
+    || data.recurring.some(t => t.accountId === id)
+    || data.transfers.some(t => t.from === id || t.to === id);
+}
+
+export function normalizeAccounts(raw: unknown): Account[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const accounts: Account[] = [];
+  for (const a of raw){
+    if (!a || typeof a !== 'object' || typeof a.id !== 'string' || !a.id || seen.has(a.id) || typeof a.name !== 'string' || !a.name.trim()) continue;
+    seen.add(a.id);
+    const opening = Math.round(Number(a.openingBalance));
+    const balance = Math.round(Number(a.reconciled?.balance));
+    accounts.push({
+      id: a.id,
+      name: a.name.trim(),
+      openingBalance: Number.isFinite(opening) ? opening : 0,
+      archived: a.archived ? true : undefined,
+      reconciled: a.reconciled && typeof a.reconciled.date === 'string' && Number.isFinite(balance) ? { date: a.reconciled.date, balance } : undefined
+    });
+  }
+  return accounts;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { categoryTotals, cumulativeSpend, monthlyTotals, periodTotals, sumByCategory, valuer } from "./aggregate";
+import { DEFAULT_RATES } from "./rates";
+
+const rates = { ...DEFAULT_RATES, USD: 1000 };
+const history = [{ date: '2026-01-01', rates: { ...DEFAULT_RATES, USD: 1250 }, source: 'fetched' as const }];
+const income = [{ id: 'i', date: '2026-01-05', category: 'Salary', desc: 'Pay', amount: 2500000 }];
+const expenses = [
+  { id: 'a', date: '2026-01-10', category: 'Food', desc: 'x', amount: 50000 },
+  { id: 'b', date: '2026-02-02', category: 'Food', desc: 'y', amount: 20000 },
+  { id: 'c', date: '2026-02-03', category: 'Fun', desc: 'z', amount: 10000, currency: 'USD' as const, originalAmount: 8, fxRate: 1250 }
+];
+
+describe('valuer', () => {
+  it('values rows at the rate on their date, or at today\'s rate', () => {
+    expect(valuer('historical', rates, history)(income[0], 'USD')).toBe(2000);
+    expect(valuer('today', rates, history)(income[0], 'USD')).toBe(2500);
+  });
+  it('keeps what was typed for rows in the requested currency', () => {
+    expect(valuer('today', rates, history)(expenses[2], 'USD')).toBe(8);
+  });
+});
+
+describe('periodTotals', () => {
+  it('adds up KRW, USD and the display currency', () => {
+    const t = periodTotals(income, expenses, 'KRW', valuer('today', rates, []));
+    expect(t).toMatchObject({ incomeKRW: 2500000, expenseKRW: 80000, remainingKRW: 2420000, income: 2500000, remaining: 2420000 });
+    expect(t.expenseUSD).toBe(50 + 20 + 8);
+  });
+});
+
+describe('breakdowns', () => {
+  it('sums per category', () => {
+    expect(sumByCategory(expenses)).toEqual({ Food: 70000, Fun: 10000 });
+    expect(categoryTotals(income, valuer('today', rates, []))).toEqual({ Salary: { krw: 2500000, usd: 2500 } });
+  });
+  it('counts each split line in its own category', () => {
+    const split = { id: 's', date: '2026-02-04', category: 'Food', desc: 'Market', amount: 30000, splits: [{ category: 'Food', amount: 20000 }, { category: 'Home', amount: 10000 }] };
+    expect(sumByCategory([...expenses, split])).toEqual({ Food: 90000, Fun: 10000, Home: 10000 });
+    expect(categoryTotals([split], valuer('today', rates, []))).toEqual({ Food: { krw: 20000, usd: 20 }, Home: { krw: 10000, usd: 10 } });
+  });
+  it('lists months newest first with their net', () => {
+    const months = monthlyTotals(income, expenses, valuer('today', rates, []));
+    expect(months.map(m => [m.month, m.net])).toEqual([['2026-02', -30000], ['2026-01', 2450000]]);
+  });
+  it('puts rows without a date under Undated', () => {
+    expect(monthlyTotals([], [{ ...expenses[0], date: '' }], valuer('today', rates, []))[0].month).toBe('Undated');
+  });
+  it('accumulates spending day by day up to today', () => {
+    const points = cumulativeSpend(expenses, '2026-02-03', valuer('today', rates, []));
+    expect(points.map(p => p.krw)).toEqual([0, 20000, 30000]);
+  });
+});
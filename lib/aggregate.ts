@@ -0,0 +1,100 @@
+import { monthKey } from "./dates";
+import { rowValue } from "./money";
+import { ratesOn, type Currency, type RateHistory, type Rates } from "./rates";
+import { categoryLines } from "./splits";
+import type { ExpenseRow, IncomeRow } from "./types";
+
+/** Summary figures. Every function takes the rows to count, already narrowed to the selected period. */
+type Row = IncomeRow | ExpenseRow;
+export type Valuation = "historical" | "today";
+/** Value of a row in a currency; see `valuer`. */
+export type Valuer = (r: Row, currency: Currency) => number;
+
+/** Each row at the rate in effect on its date, or everything at today's rates. */
+export function valuer(valuation: Valuation, rates: Rates, history: RateHistory): Valuer {
+  return (r, currency) => rowValue(r, currency, valuation === 'today' ? rates : ratesOn(history, r.date, rates));
+}
+
+export function sumKRW(rows: Row[]){ return rows.reduce((s,r)=> s + Number(r.amount||0), 0); }
+
+export function periodTotals(income: IncomeRow[], expenses: ExpenseRow[], displayCurrency: Currency, valueAt: Valuer){
+  const sum = (rows: Row[], currency: Currency) => rows.reduce((s,r)=> s + valueAt(r, currency), 0);
+  const incomeKRW = sumKRW(income);
+  const expenseKRW = sumKRW(expenses);
+  const incomeUSD = sum(income, 'USD');
+  const expenseUSD = sum(expenses, 'USD');
+  const inDisplay = sum(income, displayCurrency);
+  const expense = sum(expenses, displayCurrency);
+  return {
+    incomeKRW, expenseKRW, remainingKRW: incomeKRW - expenseKRW,
+    incomeUSD, expenseUSD, remainingUSD: incomeUSD - expenseUSD,
+    income: inDisplay, expense, remaining: inDisplay - expense
+  };
+}
+export type PeriodTotals = ReturnType<typeof periodTotals>;
+
+// A split row counts each line in its own category, with its share of the row's value
+function eachLine(rows: Row[], visit: (category: string, krw: number, share: number, r: Row) => void){
+  for (const r of rows){
+    const total = Number(r.amount||0);
+    for (const line of categoryLines(r)) visit(line.category, line.amount, total ? line.amount / total : 0, r);
+  }
+}
+
+/** Per-category sums of `value` (KRW amounts by default). */
+export function sumByCategory(rows: Row[], value?: (r: Row) => number){
+  const byCat: Record<string, number> = {};
+  eachLine(rows, (category, krw, share, r) => { byCat[category] = (byCat[category]||0) + (value ? value(r) * share : krw); });
+  return byCat;
+}
+
+/** Per-category KRW and USD sums, for the breakdown tables. */
+export function categoryTotals(rows: Row[], valueAt: Valuer){
+  const byCat: Record<string, { krw: number; usd: number }> = {};
+  eachLine(rows, (category, krw, share, r) => {
+    const c = (byCat[category] ||= { krw: 0, usd: 0 });
+    c.krw += krw;
+    c.usd += valueAt(r, 'USD') * share;
+  });
+  return byCat;
+}
+
+export type MonthTotals = { month: string; income: number; expense: number; incomeUSD: number; expenseUSD: number; net: number; netUSD: number };
+/** One entry per month with any rows, newest first; rows without a date go under "Undated". */
+export function monthlyTotals(income: IncomeRow[], expenses: ExpenseRow[], valueAt: Valuer): MonthTotals[] {
+  const byMonth: Record<string, { income: number; expense: number; incomeUSD: number; expenseUSD: number }> = {};
+  for (const r of income){
+    const m = (byMonth[monthKey(r.date) || 'Undated'] ||= { income: 0, expense: 0, incomeUSD: 0, expenseUSD: 0 });
+    m.income += Number(r.amount||0);
+    m.incomeUSD += valueAt(r, 'USD');
+  }
+  for (const r of expenses){
+    const m = (byMonth[monthKey(r.date) || 'Undated'] ||= { income: 0, expense: 0, incomeUSD: 0, expenseUSD: 0 });
+    m.expense += Number(r.amount||0);
+    m.expenseUSD += valueAt(r, 'USD');
+  }
+  return Object.entries(byMonth)
+    .map(([month, v]) => ({ month, ...v, net: v.income - v.expense, netUSD: v.incomeUSD - v.expenseUSD }))
+    .sort((a,b)=> b.month.localeCompare(a.month));
+}
+
+/** Running total of the spending in `today`'s month, one point per day up to today. */
+export function cumulativeSpend(expenses: ExpenseRow[], today: string, valueAt: Valuer){
+  const month = monthKey(today);
+  const byDay: Record<string, { krw: number; usd: number }> = {};
+  for (const e of expenses){
+    if (monthKey(e.date) !== month) continue;
+    const d = (byDay[e.date] ||= { krw: 0, usd: 0 });
+    d.krw += Number(e.amount||0);
+    d.usd += valueAt(e, 'USD');
+  }
+  const points = [];
+  let krw = 0, usd = 0;
+  for (let day = 1; day <= Number(today.slice(8)); day++){
+    const date = `${month}-${String(day).padStart(2,'0')}`;
+    krw += byDay[date]?.krw || 0;
+    usd += byDay[date]?.usd || 0;
+    points.push({ date, krw, usd });
+  }
+  return points;
+}
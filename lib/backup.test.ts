@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { buildExportFile, buildFullBackup, exportFileName, fullBackupFileName, ledgerFromFile, mergeFile, mergeRateHistory } from "./backup";
+import { emptyLedger } from "./ledger";
+import { planMerge } from "./merge";
+import { DEFAULT_RATES } from "./rates";
+import { parseExportFile } from "./schema";
+
+const settings = { rates: DEFAULT_RATES, rateHistory: [], displayCurrency: 'KRW' as const };
+const lunch = { id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000, notes: '' };
+
+describe('export', () => {
+  it('writes a file that imports back to the same ledger', () => {
+    const empty = emptyLedger();
+    const ledger = { ...empty, categories: [...empty.categories, 'Food'], expenses: [lunch] };
+    const file = JSON.parse(JSON.stringify(buildExportFile(ledger, settings, new Date(2026, 2, 1))));
+    const parsed = parseExportFile(file);
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok) expect(ledgerFromFile(parsed.data)).toEqual(ledger);
+  });
+  it('names the file after the date', () => {
+    expect(exportFileName(new Date(2026, 2, 9))).toBe('budget_export_2026-03-09.json');
+    expect(fullBackupFileName(new Date(2026, 2, 9))).toBe('budget_backup_2026-03-09.zip');
+  });
+});
+
+describe('mergeFile', () => {
+  it('adds new rows and fills in only what the local copy is missing', () => {
+    const local = { ...emptyLedger(), categories: ['Food'], budgets: { limits: { Food: 100 }, warnAt: 80 } };
+    const file = {
+      ...buildExportFile({ ...emptyLedger(), expenses: [lunch, { ...lunch, id: 'b', category: 'Travel', desc: 'Train' }] }, settings),
+      categories: ['Food', 'Travel'], budgets: { limits: { Food: 999, Travel: 50 }, warnAt: 90 }
+    };
+    const plan = planMerge({ income: local.income, expenses: local.expenses }, file);
+    const merged = mergeFile(local, file, plan, {}, () => 'new');
+    expect(merged.report).toEqual({ added: 2, updated: 0, skipped: 0 });
+    expect(merged.data.categories).toEqual(['Food', 'Travel']);
+    expect(merged.data.budgets).toEqual({ limits: { Food: 100, Travel: 50 }, warnAt: 80 });
+  });
+  it('keeps local rates for dates both sides have', () => {
+    const day = (date: string, USD: number, source: 'manual' | 'fetched') => ({ date, rates: { ...DEFAULT_RATES, USD }, source });
+    const merged = mergeRateHistory([day('2026-01-01', 1300, 'manual')], [day('2026-01-01', 1400, 'fetched'), day('2026-01-02', 1410, 'fetched')]);
+    expect(merged.map(e => e.rates.USD)).toEqual([1300, 1410]);
+  });
+});
+
+describe('full backup', () => {
+  it('holds the export, a receipt index and each original image', async () => {
+    const now = new Date(2026, 2, 9);
+    const file = buildExportFile({ ...emptyLedger(), expenses: [{ ...lunch, receipts: ['r1'] }] }, settings, now);
+    const receipt = { id: 'r1', name: 'lunch.png', type: 'image/png', size: 9, addedAt: now.toISOString(), original: new Blob(['png-bytes']), thumbnail: new Blob([]) };
+    const zip = new TextDecoder('latin1').decode(await buildFullBackup(file, [receipt], now));
+    expect(zip).toContain('budget_export_2026-03-09.json');
+    expect(zip).toContain('"file": "receipts/r1.png"');
+    expect(zip).toContain('receipts/r1.pngpng-bytes');
+  });
+});
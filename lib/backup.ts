@@ -0,0 +1,83 @@
+import { isoDate } from "./dates";
+import type { Snapshot } from "./history";
+import { withCategories } from "./ledger";
+import { applyMerge, type MergeDecision, type MergePlan, type MergeReport } from "./merge";
+import { receiptPath, type Receipt } from "./receipts";
+import { upsertRate, type Currency, type RateHistory, type Rates } from "./rates";
+import { SCHEMA_VERSION, type ExportFile } from "./schema";
+import { rowCategories } from "./splits";
+import type { ExpenseRow, IncomeRow } from "./types";
+import { createZip } from "./zip";
+
+/** JSON export and import, and the full backup zip. Reading and validating a file is parseExportFile in schema.ts. */
+export type RateSettings = { rates: Rates; rateHistory: RateHistory; displayCurrency: Currency };
+
+export function buildExportFile(data: Snapshot, settings: RateSettings, now = new Date()): ExportFile {
+  return { version: SCHEMA_VERSION, rate: settings.rates.USD, ...settings, exportedAt: now.toISOString(), ...data };
+}
+export function exportFileName(now = new Date()){
+  return `budget_export_${isoDate(now)}.json`;
+}
+
+export function fullBackupFileName(now = new Date()){
+  return `budget_backup_${isoDate(now)}.zip`;
+}
+
+/**
+ * The full backup: a zip with the JSON export (importable on its own), each receipt's original
+ * image under receipts/, and receipts/index.json listing which file belongs to which receipt id.
+ */
+export async function buildFullBackup(file: ExportFile, receipts: Receipt[], now = new Date()): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const index = receipts.map(r => ({ id: r.id, name: r.name, type: r.type, addedAt: r.addedAt, file: receiptPath(r) }));
+  const images = await Promise.all(receipts.map(async r => ({ name: receiptPath(r), data: new Uint8Array(await r.original.arrayBuffer()), date: new Date(r.addedAt) })));
+  return createZip([
+    { name: exportFileName(now), data: encoder.encode(JSON.stringify(file, null, 2)) },
+    { name: 'receipts/index.json', data: encoder.encode(JSON.stringify(index, null, 2)) },
+    ...images
+  ], now);
+}
+
+/** The ledger in a file, for "Replace". */
+export function ledgerFromFile(file: ExportFile): Snapshot {
+  const { income, expenses, categories, categoryStyles, incomeCategories, incomeCategoryStyles, budgets, recurring, loans, accounts, transfers, goals } = file;
+  return { income, expenses, categories, categoryStyles, incomeCategories, incomeCategoryStyles, budgets, recurring, loans, accounts, transfers, goals };
+}
+
+/**
+ * Merges a file into the ledger. Rows follow the reviewed decisions; everything else keeps the
+ * local settings and only fills in what the local copy is missing.
+ */
+export function mergeFile(
+  local: Snapshot, file: ExportFile, plan: MergePlan<IncomeRow, ExpenseRow>, decisions: Record<string, MergeDecision>, makeId: () => string
+): { data: Snapshot; report: MergeReport } {
+  const inc = applyMerge(local.income, plan.income, decisions, makeId);
+  const exp = applyMerge(local.expenses, plan.expenses, decisions, makeId);
+  const missing = <T extends { id: string }>(mine: T[], theirs: T[]) => [...mine, ...theirs.filter(t => !mine.some(x => x.id === t.id))];
+  return {
+    data: {
+      income: inc.rows,
+      expenses: exp.rows,
+      categories: withCategories(local.categories, [...file.categories, ...exp.rows.flatMap(rowCategories)]),
+      categoryStyles: { ...file.categoryStyles, ...local.categoryStyles },
+      incomeCategories: withCategories(local.incomeCategories, [...file.incomeCategories, ...inc.rows.map(r => r.category)]),
+      incomeCategoryStyles: { ...file.incomeCategoryStyles, ...local.incomeCategoryStyles },
+      budgets: { ...local.budgets, limits: { ...file.budgets.limits, ...local.budgets.limits } },
+      recurring: missing(local.recurring, file.recurring),
+      loans: missing(local.loans, file.loans),
+      accounts: missing(local.accounts, file.accounts),
+      transfers: missing(local.transfers, file.transfers),
+      goals: missing(local.goals, file.goals)
+    },
+    report: {
+      added: inc.report.added + exp.report.added,
+      updated: inc.report.updated + exp.report.updated,
+      skipped: inc.report.skipped + exp.report.skipped
+    }
+  };
+}
+
+/** Adds the file's rates for dates that have none locally. */
+export function mergeRateHistory(local: RateHistory, incoming: RateHistory){
+  return incoming.filter(e => !local.some(x => x.date === e.date)).reduce(upsertRate, local);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { countTemplates, deleteCategory, renameCategory, retargetForm, type CategoryData } from "./categories";
+import type { ExpenseRow, RecurringTemplate } from "./types";
+
+const template = (id: string, category: string, type: 'income' | 'expense' = 'expense'): RecurringTemplate => ({
+  id, type, desc: id, amount: 1000, category, schedule: { freq: 'monthly', day: 1 }, startDate: '2026-01-01', paused: false
+});
+const data: CategoryData<ExpenseRow> = {
+  categories: ['Food', 'Rent', 'Pets', 'Other'],
+  rows: [{ id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000 }],
+  recurring: [template('rent', 'Rent'), template('pay', 'Pets', 'income')],
+  limits: { Food: 300000, Pets: 50000 },
+  styles: { Pets: { icon: '🐾' }, Rent: { color: '#ff0000' } }
+};
+
+describe('deleteCategory', () => {
+  it('drops an unused category with its limit and style, leaving the rest alone', () => {
+    const next = deleteCategory('expense', data, 'Pets');
+    expect(next.categories).toEqual(['Food', 'Rent', 'Other']);
+    expect(next.limits).toEqual({ Food: 300000 });
+    expect(next.styles).toEqual({ Rent: { color: '#ff0000' } });
+    // An income template with the same name belongs to the other list
+    expect(next.recurring).toBe(data.recurring);
+    expect(next.rows).toBe(data.rows);
+  });
+  it('refuses to drop a category that rows or templates still use', () => {
+    expect(deleteCategory('expense', data, 'Food')).toBe(data);
+    expect(deleteCategory('expense', data, 'Rent')).toBe(data);
+  });
+  it('moves rows, templates, budget and style to the chosen category', () => {
+    const next = deleteCategory('expense', data, 'Rent', 'Other');
+    expect(next.categories).toEqual(['Food', 'Pets', 'Other']);
+    expect(next.recurring[0].category).toBe('Other');
+    expect(next.styles.Other).toEqual({ color: '#ff0000' });
+    expect(deleteCategory('expense', data, 'Rent', 'Missing')).toBe(data);
+  });
+  it('counts templates per kind', () => {
+    expect(countTemplates('expense', data.recurring)).toEqual({ Rent: 1 });
+    expect(countTemplates('income', data.recurring)).toEqual({ Pets: 1 });
+  });
+});
+
+describe('renameCategory', () => {
+  it('renames rows, split lines, templates of the same kind, the limit and the style', () => {
+    const split = { id: 'b', date: '2026-03-02', category: 'Pets', desc: 'Vet', amount: 30000, splits: [{ category: 'Pets', amount: 20000 }, { category: 'Food', amount: 10000 }] };
+    const next = renameCategory('expense', { ...data, rows: [...data.rows, split] }, 'Pets', 'Animals');
+    expect(next.categories).toEqual(['Food', 'Rent', 'Animals', 'Other']);
+    expect(next.rows[1]).toMatchObject({ category: 'Animals', splits: [{ category: 'Animals', amount: 20000 }, { category: 'Food', amount: 10000 }] });
+    expect(next.limits).toEqual({ Food: 300000, Animals: 50000 });
+    expect(next.styles).toEqual({ Animals: { icon: '🐾' }, Rent: { color: '#ff0000' } });
+    // The income template named Pets is left alone
+    expect(next.recurring[1].category).toBe('Pets');
+  });
+  it('keeps the target limit and style when merging into an existing category', () => {
+    const next = renameCategory('expense', data, 'Pets', 'Food');
+    expect(next.categories).toEqual(['Food', 'Rent', 'Other']);
+    expect(next.limits).toEqual({ Food: 300000 });
+    // Food has no style of its own, so it takes the one from Pets
+    expect(next.styles).toEqual({ Food: { icon: '🐾' }, Rent: { color: '#ff0000' } });
+    const styled = renameCategory('expense', { ...data, styles: { ...data.styles, Food: { icon: '🍜' } } }, 'Pets', 'Food');
+    expect(styled.styles.Food).toEqual({ icon: '🍜' });
+  });
+  it('ignores blank and unchanged names', () => {
+    expect(renameCategory('expense', data, 'Pets', '  ')).toBe(data);
+    expect(renameCategory('expense', data, 'Pets', 'Pets')).toBe(data);
+  });
+});
+
+describe('retargetForm', () => {
+  it('moves a form or filter and its split lines to the new name', () => {
+    const form = { category: 'Pets', desc: 'Vet', splits: [{ category: 'Food', amount: '1' }, { category: 'Pets', amount: '2' }] };
+    expect(retargetForm(form, 'Pets', 'Animals')).toEqual({ ...form, category: 'Animals', splits: [{ category: 'Food', amount: '1' }, { category: 'Animals', amount: '2' }] });
+    expect(retargetForm({ q: '', category: 'Pets' }, 'Pets', '')).toEqual({ q: '', category: '' });
+    expect(retargetForm(form, 'Rent', 'Other')).toBe(form);
+  });
+});
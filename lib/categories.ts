@@ -0,0 +1,112 @@
+import { renameInRow, rowCategories } from "./splits";
+import type { CategoryStyle, RecurringTemplate, SplitLine } from "./types";
+
+export type CategoryKind = 'income' | 'expense';
+export type Categorized = { category: string; amount: number; splits?: SplitLine[] };
+
+/** The parts of the ledger that refer to one kind's categories by name. Income has no budget limits. */
+export type CategoryData<T extends Categorized> = {
+  categories: string[];
+  rows: T[];
+  recurring: RecurringTemplate[];
+  limits: Record<string, number>;
+  styles: Record<string, CategoryStyle>;
+};
+
+export const CATEGORY_ICONS = ['🏠', '🛒', '🤝', '🍜', '🚌', '🎬', '🛍️', '📦', '☕', '💊', '📚', '✈️', '🎁', '💡', '📱', '🐾', '💼', '💻', '💵', '↩️'];
+
+export function findCategory(categories: string[], name: string){
+  const key = name.trim().toLowerCase();
+  return categories.find(c => c.toLowerCase() === key);
+}
+
+/** Rows using each category; a split row counts once in each of its categories. */
+export function countByCategory(rows: Categorized[]){
+  const counts: Record<string, number> = {};
+  for (const r of rows) for (const c of rowCategories(r)) counts[c] = (counts[c] || 0) + 1;
+  return counts;
+}
+
+/** Recurring templates of one kind using each category. */
+export function countTemplates(kind: CategoryKind, recurring: RecurringTemplate[]){
+  const counts: Record<string, number> = {};
+  for (const t of recurring) if (t.type === kind && t.category) counts[t.category] = (counts[t.category] || 0) + 1;
+  return counts;
+}
+
+/**
+ * Renames `from` to `to`, rewriting every row, template of the same kind and budget that uses it.
+ * When `to` already exists the two are merged: `to` keeps its place in the list and its own
+ * limit and style, falling back to those of `from` when it has none.
+ */
+export function renameCategory<T extends Categorized>(kind: CategoryKind, data: CategoryData<T>, from: string, to: string): CategoryData<T> {
+  const name = to.trim();
+  if (!name || from === name) return data;
+  const existing = data.categories.find(c => c === name);
+  const categories = existing
+    ? data.categories.filter(c => c !== from)
+    : data.categories.map(c => c === from ? name : c);
+  const limits = { ...data.limits };
+  if (from in limits){
+    if (!(name in limits)) limits[name] = limits[from];
+    delete limits[from];
+  }
+  const styles = { ...data.styles };
+  if (from in styles){
+    if (!(name in styles)) styles[name] = styles[from];
+    delete styles[from];
+  }
+  return {
+    categories,
+    rows: data.rows.map(r => renameInRow(r, from, name)),
+    recurring: data.recurring.map(t => t.type === kind && t.category === from ? { ...t, category: name } : t),
+    limits,
+    styles
+  };
+}
+
+/**
+ * Removes `name`. With `moveTo` its rows, templates and (when the target has none) its budget and
+ * style move there, as in a merge. Without it the name, limit and style are simply dropped, which
+ * is only allowed while no row or template of the kind uses it.
+ */
+export function deleteCategory<T extends Categorized>(kind: CategoryKind, data: CategoryData<T>, name: string, moveTo?: string): CategoryData<T> {
+  if (moveTo !== undefined){
+    if (name === moveTo || !data.categories.includes(moveTo)) return data;
+    return renameCategory(kind, data, name, moveTo);
+  }
+  if (countByCategory(data.rows)[name] || countTemplates(kind, data.recurring)[name]) return data;
+  const { [name]: _limit, ...limits } = data.limits;
+  const { [name]: _style, ...styles } = data.styles;
+  return { ...data, categories: data.categories.filter(c => c !== name), limits, styles };
+}
+
+/** Points a form or filter that still uses `from` (as its category or on a split line) at `to`. */
+export function retargetForm<F extends { category: string; splits?: { category: string }[] }>(f: F, from: string, to: string): F {
+  const moved = f.category === from ? { ...f, category: to } : f;
+  if (!f.splits?.some(l => l.category === from)) return moved;
+  return { ...moved, splits: f.splits.map(l => l.category === from ? { ...l, category: to } : l) };
+}
+
+/** Moves a category one place up (-1) or down (+1) in the select order. */
+export function moveCategory(categories: string[], name: string, delta: -1 | 1){
+  const i = categories.indexOf(name);
+  const j = i + delta;
+  if (i < 0 || j < 0 || j >= categories.length) return categories;
+  const next = [...categories];
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+export function normalizeCategoryStyles(raw: any): Record<string, CategoryStyle> {
+  const styles: Record<string, CategoryStyle> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return styles;
+  for (const [cat, v] of Object.entries<any>(raw)){
+    if (!v || typeof v !== 'object') continue;
+    const style: CategoryStyle = {};
+    if (typeof v.color === 'string' && /^#[0-9a-f]{6}$/i.test(v.color)) style.color = v.color;
+    if (typeof v.icon === 'string' && v.icon.trim()) style.icon = v.icon.trim().slice(0, 4);
+    if (style.color || style.icon) styles[cat] = style;
+  }
+  return styles;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { decodeCsvBytes, EMPTY_MAPPING, formatCsv, guessMapping, mapCsvRows, parseAmount, parseCsv, parseCsvTable, parseDateLoose } from "./csv";
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, escaped quotes and embedded newlines', () => {
+    expect(parseCsv('\uFEFFa,"b, c","say ""hi"""\r\n"two\r\nlines",x,\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\r\nlines', 'x', '']
+    ]);
+  });
+  it('skips blank lines but keeps the file line each row starts on', () => {
+    const table = parseCsvTable('Date,Amount\n\n2026-03-01,"1,000\nnote"\r\n ,\n2026-03-02,500');
+    expect(table.rows).toHaveLength(3);
+    expect(table.lines).toEqual([1, 3, 6]);
+  });
+  it('round-trips what formatCsv writes', () => {
+    const rows = [['Lunch, "team"', 'line\r\nbreak'], ['=1+1', 'x']];
+    expect(parseCsv(formatCsv(rows))).toEqual([rows[0], ["'=1+1", 'x']]);
+  });
+});
+
+describe('decodeCsvBytes', () => {
+  it('reads UTF-8 and falls back to EUC-KR', () => {
+    expect(decodeCsvBytes(new TextEncoder().encode('카페,4500').buffer)).toBe('카페,4500');
+    // "카페,4500" in EUC-KR
+    expect(decodeCsvBytes(new Uint8Array([0xc4, 0xab, 0xc6, 0xe4, 0x2c, 0x34, 0x35, 0x30, 0x30]).buffer)).toBe('카페,4500');
+  });
+});
+
+describe('cells', () => {
+  it('reads bank amounts', () => {
+    expect(parseAmount('1,234,500')).toBe(1234500);
+    expect(parseAmount('₩12,000')).toBe(12000);
+    expect(parseAmount('-3,000원')).toBe(-3000);
+    expect(parseAmount('(5,000)')).toBe(-5000);
+    expect(parseAmount(' ')).toBeNull();
+    expect(parseAmount('12a')).toBeNull();
+  });
+  it('reads bank dates', () => {
+    expect(parseDateLoose('2026.03.01 14:22')).toBe('2026-03-01');
+    expect(parseDateLoose('20260301')).toBe('2026-03-01');
+    expect(parseDateLoose('2026-02-30')).toBeNull();
+  });
+});
+
+describe('mapCsvRows', () => {
+  const text = '거래일,적요,출금,입금\n2026.03.01,스타벅스,4500,\n\n2026.03.02,급여,,2500000\nbad,x,1,\n';
+  it('guesses Korean headers and splits debit and credit', () => {
+    const { rows, lines } = parseCsvTable(text);
+    const mapping = guessMapping(rows);
+    expect(mapping).toMatchObject({ date: 0, desc: 1, debit: 2, credit: 3, amountMode: 'split' });
+    const { transactions, errors } = mapCsvRows(rows, mapping, lines);
+    expect(transactions.map(t => [t.type, t.amount, t.line])).toEqual([['expense', 4500, 2], ['income', 2500000, 4]]);
+    expect(errors).toEqual([{ line: 5, message: 'invalid date "bad"' }]);
+  });
+  it('uses the sign in single amount mode', () => {
+    const mapping = { ...EMPTY_MAPPING, date: 0, desc: 1, amount: 2 };
+    const { transactions } = mapCsvRows([['Date', 'Desc', 'Amount'], ['2026-03-01', 'Refund', '-3000']], { ...mapping, positiveIs: 'expense' });
+    expect(transactions[0]).toMatchObject({ type: 'income', amount: 3000, line: 2 });
+  });
+});
@@ -0,0 +1,189 @@
+export type AmountMode = 'single' | 'split';
+
+/** Column indexes (-1 = not mapped) plus how to read the amount column(s). */
+export type CsvMapping = {
+  headerRow: number; // 0-based index of the header line; data starts on the next line
+  date: number;
+  desc: number;
+  amount: number;
+  debit: number;
+  credit: number;
+  category: number;
+  notes: number;
+  amountMode: AmountMode;
+  positiveIs: 'expense' | 'income';
+};
+
+export type CsvTransaction = {
+  type: 'income' | 'expense';
+  date: string;
+  desc: string;
+  amount: number;
+  category?: string;
+  notes: string;
+  line: number; // 1-based line in the file where the row starts, for error reports
+};
+
+export type CsvResult = { transactions: CsvTransaction[]; errors: { line: number; message: string }[] };
+
+export const EMPTY_MAPPING: CsvMapping = {
+  headerRow: 0, date: -1, desc: -1, amount: -1, debit: -1, credit: -1, category: -1, notes: -1,
+  amountMode: 'single', positiveIs: 'expense'
+};
+
+/**
+ * Writes rows as RFC 4180 CSV with CRLF line ends. Text that a spreadsheet would run as a formula
+ * (starting with =, +, - or @) is prefixed with an apostrophe; numbers are written as they are.
+ */
+export function formatCsv(rows: (string | number)[][]): string {
+  const cell = (v: string | number) => {
+    if (typeof v === 'number') return String(v);
+    const text = /^[=+\-@]/.test(v) ? `'${v}` : v;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(r => r.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Parsed rows, with the 1-based line in the file where each one starts. */
+export type CsvTable = { rows: string[][]; lines: number[] };
+
+/**
+ * RFC 4180-ish parser: quoted fields, escaped quotes, CRLF and embedded newlines. Blank lines are
+ * skipped; `lines` keeps the file's own line numbers so errors can point at them.
+ */
+export function parseCsvTable(text: string): CsvTable {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const src = text.replace(/^\uFEFF/, '');
+  const endRow = () => {
+    row.push(field); field = '';
+    if (row.some(c => c.trim() !== '')) { rows.push(row); lines.push(start); }
+    row = [];
+  };
+  for (let i = 0; i < src.length; i++){
+    const ch = src[i];
+    if (ch === '\n' || ch === '\r'){
+      const crlf = ch === '\r' && src[i+1] === '\n';
+      if (crlf) i++;
+      line++;
+      if (quoted) field += crlf ? '\r\n' : ch;
+      else { endRow(); start = line; }
+    } else if (quoted){
+      if (ch === '"' && src[i+1] === '"'){ field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else field += ch;
+  }
+  endRow();
+  return { rows, lines };
+}
+
+export function parseCsv(text: string): string[][] {
+  return parseCsvTable(text).rows;
+}
+
+/** Decodes bank exports, which are often EUC-KR rather than UTF-8. */
+export function decodeCsvBytes(buf: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buf);
+  } catch {
+    return new TextDecoder('euc-kr').decode(buf);
+  }
+}
+
+/** "1,234,500", "₩12,000", "-3,000원", "(5,000)" → number; null when blank or not a number. */
+export function parseAmount(raw: string | undefined): number | null {
+  if (raw == null) return null;
+  let s = String(raw).trim();
+  if (!s) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) { negative = true; s = s.slice(1, -1); }
+  s = s.replace(/[,\s₩원]|KRW/g, '');
+  if (s.startsWith('-')) { negative = !negative; s = s.slice(1); }
+  else if (s.startsWith('+')) s = s.slice(1);
+  if (!/^\d+(\.\d+)?$/.test(s)) return null;
+  const n = Number(s);
+  return negative ? -n : n;
+}
+
+/** Accepts YYYY.MM.DD, YYYY-MM-DD, YYYY/MM/DD and YYYYMMDD, optionally followed by a time. */
+export function parseDateLoose(raw: string | undefined): string | null {
+  const s = String(raw ?? '').trim();
+  const m = s.match(/^(\d{4})[.\-/]\s?(\d{1,2})[.\-/]\s?(\d{1,2})\.?(?:\s|T|$)/) || s.match(/^(\d{4})(\d{2})(\d{2})(?:\s|$)/);
+  if (!m) return null;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const date = new Date(y, mo - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== mo - 1 || date.getDate() !== d) return null;
+  return `${y}-${String(mo).padStart(2,'0')}-${String(d).padStart(2,'0')}`;
+}
+
+export type ColumnKey = 'date' | 'desc' | 'amount' | 'debit' | 'credit' | 'category' | 'notes';
+const HEADER_HINTS: [ColumnKey, RegExp][] = [
+  ['date', /거래일|일자|날짜|일시|date/i],
+  ['debit', /출금|지출|withdraw|debit/i],
+  ['credit', /입금|수입|deposit|credit/i],
+  ['amount', /금액|amount/i],
+  ['category', /카테고리|분류|category/i],
+  ['notes', /메모|비고|note|memo/i],
+  ['desc', /적요|내용|거래처|가맹점|description|merchant|payee/i]
+];
+
+/** Guesses a mapping from header names in Korean or English. */
+export function guessMapping(rows: string[][]): CsvMapping {
+  const headerRow = Math.max(0, rows.findIndex(r => r.some(c => HEADER_HINTS.some(([, re]) => re.test(c)))));
+  const header = rows[headerRow] || [];
+  const mapping: CsvMapping = { ...EMPTY_MAPPING, headerRow };
+  header.forEach((cell, i) => {
+    const hit = HEADER_HINTS.find(([key, re]) => re.test(cell) && mapping[key] === -1);
+    if (hit) mapping[hit[0]] = i;
+  });
+  if (mapping.debit >= 0 && mapping.credit >= 0) mapping.amountMode = 'split';
+  return mapping;
+}
+
+/**
+ * Turns data rows into transactions. Split mode reads debit as expense and credit as income;
+ * single mode uses the sign, with `positiveIs` deciding what a positive amount means. `lines` are
+ * the file line numbers from parseCsvTable; without them rows are numbered from 1.
+ */
+export function mapCsvRows(rows: string[][], mapping: CsvMapping, lines?: number[]): CsvResult {
+  const transactions: CsvTransaction[] = [];
+  const errors: CsvResult['errors'] = [];
+  const cell = (r: string[], i: number) => (i >= 0 ? (r[i] ?? '').trim() : '');
+  rows.forEach((r, idx) => {
+    if (idx <= mapping.headerRow) return;
+    const line = lines?.[idx] ?? idx + 1;
+    const date = parseDateLoose(cell(r, mapping.date));
+    if (!date) { errors.push({ line, message: `invalid date "${cell(r, mapping.date)}"` }); return; }
+    let type: CsvTransaction['type'];
+    let amount: number | null;
+    if (mapping.amountMode === 'split'){
+      const debit = parseAmount(cell(r, mapping.debit));
+      const credit = parseAmount(cell(r, mapping.credit));
+      if (debit) { type = 'expense'; amount = Math.abs(debit); }
+      else if (credit) { type = 'income'; amount = Math.abs(credit); }
+      else { errors.push({ line, message: 'no debit or credit amount' }); return; }
+    } else {
+      amount = parseAmount(cell(r, mapping.amount));
+      if (!amount) { errors.push({ line, message: `invalid amount "${cell(r, mapping.amount)}"` }); return; }
+      const positive = amount > 0;
+      type = positive === (mapping.positiveIs === 'income') ? 'income' : 'expense';
+      amount = Math.abs(amount);
+    }
+    const desc = cell(r, mapping.desc) || '(no description)';
+    transactions.push({
+      type, date, desc: desc.slice(0, 100), amount: Math.round(amount),
+      category: cell(r, mapping.category) || undefined,
+      notes: cell(r, mapping.notes),
+      line
+    });
+  });
+  return { transactions, errors };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { currentMonthKey, inRange, isoDate, parseDate, periodRange } from "./dates";
+
+const today = new Date(2026, 2, 15); // 15 March 2026
+
+describe('periodRange', () => {
+  it('covers whole calendar months', () => {
+    expect(periodRange({ kind: 'this-month', from: '', to: '' }, today)).toEqual({ from: '2026-03-01', to: '2026-03-31' });
+    expect(periodRange({ kind: 'last-month', from: '', to: '' }, today)).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+  });
+  it('runs the year to date up to today', () => {
+    expect(periodRange({ kind: 'ytd', from: '', to: '' }, today)).toEqual({ from: '2026-01-01', to: '2026-03-15' });
+  });
+  it('passes custom bounds through and leaves "all" open', () => {
+    expect(periodRange({ kind: 'custom', from: '2026-01-10', to: '' }, today)).toEqual({ from: '2026-01-10', to: '' });
+    expect(periodRange({ kind: 'all', from: '2026-01-10', to: '2026-01-20' }, today)).toEqual({ from: '', to: '' });
+  });
+});
+
+describe('inRange', () => {
+  it('is inclusive and treats empty bounds as open', () => {
+    const range = { from: '2026-03-01', to: '2026-03-31' };
+    expect(inRange('2026-03-01', range)).toBe(true);
+    expect(inRange('2026-03-31', range)).toBe(true);
+    expect(inRange('2026-04-01', range)).toBe(false);
+    expect(inRange('1999-01-01', { from: '', to: '' })).toBe(true);
+  });
+  it('excludes undated rows from a bounded range', () => {
+    expect(inRange('', { from: '2026-03-01', to: '' })).toBe(false);
+  });
+});
+
+describe('date strings', () => {
+  it('round-trips local dates', () => {
+    expect(isoDate(parseDate('2026-12-31'))).toBe('2026-12-31');
+    expect(currentMonthKey(today)).toBe('2026-03');
+  });
+});
@@ -0,0 +1,40 @@
+/** Dates are local-time `YYYY-MM-DD` strings throughout; months are `YYYY-MM`. */
+export type PeriodKind = "this-month" | "last-month" | "ytd" | "custom" | "all";
+export type Period = { kind: PeriodKind; from: string; to: string };
+export type DateRange = { from: string; to: string };
+
+export const PERIOD_OPTIONS: { value: PeriodKind; label: string }[] = [
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'custom', label: 'Custom range' },
+  { value: 'all', label: 'All time' }
+];
+
+export function monthKey(date: string){ return (date || "").slice(0, 7); }
+export function isoDate(d: Date){
+  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
+}
+export function parseDate(date: string){
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+export function daysInMonth(year: number, month0: number){ return new Date(year, month0 + 1, 0).getDate(); }
+// Inclusive YYYY-MM-DD bounds for a period; an empty bound is open-ended.
+export function periodRange(p: Period, t = new Date()): DateRange {
+  switch (p.kind){
+    case 'this-month': return { from: isoDate(new Date(t.getFullYear(), t.getMonth(), 1)), to: isoDate(new Date(t.getFullYear(), t.getMonth()+1, 0)) };
+    case 'last-month': return { from: isoDate(new Date(t.getFullYear(), t.getMonth()-1, 1)), to: isoDate(new Date(t.getFullYear(), t.getMonth(), 0)) };
+    case 'ytd': return { from: isoDate(new Date(t.getFullYear(), 0, 1)), to: isoDate(t) };
+    case 'custom': return { from: p.from, to: p.to };
+    default: return { from: '', to: '' };
+  }
+}
+export function inRange(date: string, range: DateRange){
+  if (range.from && (!date || date < range.from)) return false;
+  if (range.to && (!date || date > range.to)) return false;
+  return true;
+}
+export function currentMonthKey(t = new Date()){
+  return `${t.getFullYear()}-${String(t.getMonth()+1).padStart(2,'0')}`;
+}
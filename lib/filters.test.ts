@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTER, filterRows, isFiltered, readFilterParams, sortRows, writeFilterParams } from "./filters";
+
+const rows = [
+  { id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000, notes: 'with team', receipts: ['r1'] },
+  { id: 'b', date: '2026-03-05', category: 'Transport', desc: 'Taxi', amount: 12000 },
+  { id: 'c', date: '2026-02-20', category: 'Food', desc: 'Groceries', amount: 45000, receipts: [] as string[], tags: ['home'],
+    splits: [{ category: 'Food', amount: 30000 }, { category: 'Household', amount: 15000 }] }
+];
+
+describe('filterRows', () => {
+  it('matches text in description or notes, category, dates and amounts', () => {
+    expect(filterRows(rows, { ...DEFAULT_FILTER, q: 'TEAM' }).map(r => r.id)).toEqual(['a']);
+    expect(filterRows(rows, { ...DEFAULT_FILTER, category: 'Food', from: '2026-03-01' }).map(r => r.id)).toEqual(['a']);
+    expect(filterRows(rows, { ...DEFAULT_FILTER, min: '10000', max: '20000' }).map(r => r.id)).toEqual(['b']);
+  });
+  it('separates rows with receipts from rows without', () => {
+    expect(filterRows(rows, { ...DEFAULT_FILTER, receipts: 'with' }).map(r => r.id)).toEqual(['a']);
+    expect(filterRows(rows, { ...DEFAULT_FILTER, receipts: 'without' }).map(r => r.id)).toEqual(['b', 'c']);
+    expect(isFiltered({ ...DEFAULT_FILTER, receipts: 'with' })).toBe(true);
+  });
+  it('matches tags and the categories of split lines', () => {
+    expect(filterRows(rows, { ...DEFAULT_FILTER, tag: 'home' }).map(r => r.id)).toEqual(['c']);
+    expect(filterRows(rows, { ...DEFAULT_FILTER, category: 'Household' }).map(r => r.id)).toEqual(['c']);
+    expect(isFiltered({ ...DEFAULT_FILTER, tag: 'home' })).toBe(true);
+  });
+});
+
+describe('sortRows', () => {
+  it('sorts by the key and falls back to newest first', () => {
+    expect(sortRows(rows, 'amount', 'asc').map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(sortRows(rows, 'category', 'asc').map(r => r.id)).toEqual(['a', 'c', 'b']);
+  });
+});
+
+describe('filter query parameters', () => {
+  it('round-trip and leave defaults out of the URL', () => {
+    const params = new URLSearchParams('other=1');
+    const f = { ...DEFAULT_FILTER, q: 'taxi', tag: 'trip-jeju', receipts: 'without' as const, sort: 'amount' as const, dir: 'asc' as const };
+    writeFilterParams(params, 'exp', f);
+    expect(readFilterParams(params, 'exp')).toEqual(f);
+    writeFilterParams(params, 'exp', DEFAULT_FILTER);
+    expect(params.toString()).toBe('other=1');
+  });
+});
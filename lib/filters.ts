@@ -0,0 +1,84 @@
+import type { SplitLine } from "./types";
+
+export type SortKey = 'date' | 'category' | 'desc' | 'amount' | 'notes';
+export type SortDir = 'asc' | 'desc';
+
+export type ReceiptFilter = '' | 'with' | 'without';
+
+/** Narrowing and ordering for one record table. Empty strings mean "no constraint". */
+export type TableFilter = {
+  q: string;
+  category: string;
+  tag: string;
+  /** Expenses only: rows with or without receipts attached. */
+  receipts: ReceiptFilter;
+  from: string;
+  to: string;
+  min: string;
+  max: string;
+  sort: SortKey;
+  dir: SortDir;
+};
+
+type FilterableRow = { date: string; desc: string; amount: number; notes?: string; category?: string; tags?: string[]; receipts?: string[]; splits?: SplitLine[] };
+
+export const DEFAULT_FILTER: TableFilter = { q: '', category: '', tag: '', receipts: '', from: '', to: '', min: '', max: '', sort: 'date', dir: 'desc' };
+const SORT_KEYS: SortKey[] = ['date', 'category', 'desc', 'amount', 'notes'];
+
+export function isFiltered(f: TableFilter){
+  return !!(f.q || f.category || f.tag || f.receipts || f.from || f.to || f.min || f.max);
+}
+
+export function filterRows<T extends FilterableRow>(rows: T[], f: TableFilter): T[] {
+  const q = f.q.trim().toLowerCase();
+  const min = f.min === '' ? null : Number(f.min);
+  const max = f.max === '' ? null : Number(f.max);
+  return rows.filter(r => {
+    if (q && !`${r.desc} ${r.notes || ''}`.toLowerCase().includes(q)) return false;
+    // A split row matches any of its categories
+    if (f.category && !(r.splits?.length ? r.splits.some(l => l.category === f.category) : r.category === f.category)) return false;
+    if (f.tag && !r.tags?.includes(f.tag)) return false;
+    if (f.receipts && !!r.receipts?.length !== (f.receipts === 'with')) return false;
+    if (f.from && (r.date || '') < f.from) return false;
+    if (f.to && (r.date || '') > f.to) return false;
+    if (min != null && Number.isFinite(min) && r.amount < min) return false;
+    if (max != null && Number.isFinite(max) && r.amount > max) return false;
+    return true;
+  });
+}
+
+export function sortRows<T extends FilterableRow>(rows: T[], key: SortKey, dir: SortDir): T[] {
+  const sign = dir === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const cmp = key === 'amount'
+      ? a.amount - b.amount
+      : String(a[key] ?? '').localeCompare(String(b[key] ?? ''));
+    // Fall back to newest first so equal keys keep a stable, useful order
+    return cmp ? cmp * sign : (b.date || '').localeCompare(a.date || '');
+  });
+}
+
+/** Writes the non-default fields as `<prefix>_<field>` query parameters, removing the rest. */
+export function writeFilterParams(params: URLSearchParams, prefix: string, f: TableFilter){
+  for (const key of ['q', 'category', 'tag', 'from', 'to', 'min', 'max'] as const){
+    if (f[key]) params.set(`${prefix}_${key}`, f[key]);
+    else params.delete(`${prefix}_${key}`);
+  }
+  if (f.receipts) params.set(`${prefix}_receipts`, f.receipts);
+  else params.delete(`${prefix}_receipts`);
+  if (f.sort !== DEFAULT_FILTER.sort || f.dir !== DEFAULT_FILTER.dir) params.set(`${prefix}_sort`, `${f.sort}:${f.dir}`);
+  else params.delete(`${prefix}_sort`);
+}
+
+export function readFilterParams(params: URLSearchParams, prefix: string): TableFilter {
+  const f = { ...DEFAULT_FILTER };
+  for (const key of ['q', 'category', 'tag', 'from', 'to', 'min', 'max'] as const){
+    f[key] = params.get(`${prefix}_${key}`) || '';
+  }
+  const receipts = params.get(`${prefix}_receipts`);
+  if (receipts === 'with' || receipts === 'without') f.receipts = receipts;
+  const [sort, dir] = (params.get(`${prefix}_sort`) || '').split(':');
+  if (SORT_KEYS.includes(sort as SortKey)) f.sort = sort as SortKey;
+  if (dir === 'asc' || dir === 'desc') f.dir = dir;
+  return f;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { allocatedKRW, averageMonthlyNet, goalProgress, monthsUntil, savedAmount } from "./goals";
+import type { SavingsGoal } from "./types";
+
+const TODAY = '2026-10-18';
+const goal: SavingsGoal = {
+  id: 'g', name: 'Trip', target: 1200000, currency: 'KRW', deadline: '2026-12-31',
+  entries: [
+    { id: 'a', date: '2026-09-01', amount: 200000, kind: 'allocation' },
+    { id: 'b', date: '2026-10-01', amount: 100000, kind: 'contribution' }
+  ]
+};
+const row = (date: string, amount: number) => ({ id: date, date, category: 'Other', desc: '', amount });
+
+describe('monthsUntil', () => {
+  it('counts both the current and the deadline month', () => {
+    expect(monthsUntil(TODAY, '2026-12-31')).toBe(3);
+    expect(monthsUntil(TODAY, '2026-10-31')).toBe(1);
+    expect(monthsUntil(TODAY, '2027-01-01')).toBe(4);
+  });
+  it('is 0 once the deadline has passed or when there is none', () => {
+    expect(monthsUntil(TODAY, '2026-10-17')).toBe(0);
+    expect(monthsUntil(TODAY, '')).toBe(0);
+  });
+});
+
+describe('averageMonthlyNet', () => {
+  it('averages complete months from the first record on, leaving out the current month', () => {
+    const income = [row('2026-08-25', 3000000), row('2026-10-01', 9000000)];
+    const expenses = [row('2026-08-03', 1000000), row('2026-09-10', 500000)];
+    expect(averageMonthlyNet(income, expenses, TODAY)).toBe(750000);
+    expect(averageMonthlyNet(income, expenses, TODAY, 1)).toBe(-500000);
+  });
+  it('is null with no complete month of records', () => {
+    expect(averageMonthlyNet([row('2026-10-01', 1000)], [], TODAY)).toBeNull();
+    expect(averageMonthlyNet([], [], TODAY)).toBeNull();
+  });
+});
+
+describe('goalProgress', () => {
+  it('splits what is left over the months to the deadline and compares it with the average net', () => {
+    expect(savedAmount(goal)).toBe(300000);
+    expect(savedAmount(goal, 'allocation')).toBe(200000);
+    expect(goalProgress(goal, TODAY, 300000)).toEqual({ saved: 300000, remaining: 900000, pct: 25, monthsLeft: 3, monthlyNeeded: 300000, status: 'on-track' });
+    expect(goalProgress(goal, TODAY, 299999).status).toBe('behind');
+    expect(goalProgress(goal, TODAY, null).status).toBe('unknown');
+  });
+  it('is overdue after the deadline, asking for everything that is left', () => {
+    expect(goalProgress({ ...goal, deadline: '2026-09-30' }, TODAY, 1e9)).toMatchObject({ monthsLeft: 0, monthlyNeeded: 900000, status: 'overdue' });
+  });
+  it('is reached once the target is saved, even past the deadline', () => {
+    const done = { ...goal, deadline: '2026-01-31', entries: [...goal.entries, { id: 'c', date: '2026-10-02', amount: 1000000, kind: 'contribution' as const }] };
+    expect(goalProgress(done, TODAY, null)).toMatchObject({ remaining: 0, pct: 100, monthlyNeeded: 0, status: 'reached' });
+  });
+});
+
+describe('allocatedKRW', () => {
+  it('adds allocations only, converting USD goals', () => {
+    const usd: SavingsGoal = { ...goal, id: 'u', currency: 'USD', entries: [{ id: 'x', date: '2026-10-01', amount: 100, kind: 'allocation' }] };
+    expect(allocatedKRW([goal, usd], 1400)).toBe(340000);
+  });
+});
@@ -0,0 +1,73 @@
+import type { ExpenseRow, IncomeRow, SavingsGoal } from "./types";
+
+export type GoalStatus = 'reached' | 'on-track' | 'behind' | 'overdue' | 'unknown';
+export type GoalProgress = {
+  saved: number;
+  remaining: number;
+  pct: number;
+  monthsLeft: number;
+  monthlyNeeded: number;
+  status: GoalStatus;
+};
+
+/** How many past months the on-track check averages over. */
+export const NET_HISTORY_MONTHS = 6;
+
+export function savedAmount(goal: SavingsGoal, kind?: 'allocation' | 'contribution'){
+  return goal.entries.reduce((s, e) => s + (!kind || e.kind === kind ? e.amount : 0), 0);
+}
+
+/** Calendar months from `today` to `deadline`, counting both months: Oct 18 → Dec 31 is 3. 0 once the deadline has passed. */
+export function monthsUntil(today: string, deadline: string){
+  if (!deadline || deadline < today) return 0;
+  const [ty, tm] = today.split('-').map(Number);
+  const [dy, dm] = deadline.split('-').map(Number);
+  return (dy - ty) * 12 + (dm - tm) + 1;
+}
+
+/**
+ * Average income minus expenses (KRW) over the last NET_HISTORY_MONTHS complete months,
+ * ignoring months before the first record. null when there is no complete month yet.
+ */
+export function averageMonthlyNet(income: IncomeRow[], expenses: ExpenseRow[], today: string, months = NET_HISTORY_MONTHS): number | null {
+  const current = today.slice(0, 7);
+  const net: Record<string, number> = {};
+  let first = '';
+  const add = (date: string, amount: number) => {
+    const m = (date || '').slice(0, 7);
+    if (!m || m >= current) return;
+    net[m] = (net[m] || 0) + amount;
+    if (!first || m < first) first = m;
+  };
+  for (const r of income) add(r.date, r.amount);
+  for (const r of expenses) add(r.date, -r.amount);
+  if (!first) return null;
+  const [y, m] = current.split('-').map(Number);
+  let total = 0, count = 0;
+  for (let i = 1; i <= months; i++){
+    const d = new Date(y, m - 1 - i, 1);
+    const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    if (key < first) break;
+    total += net[key] || 0;
+    count++;
+  }
+  return count ? total / count : null;
+}
+
+/** Progress toward a goal; `avgNet` is the average monthly net in the goal's currency (null when unknown). */
+export function goalProgress(goal: SavingsGoal, today: string, avgNet: number | null): GoalProgress {
+  const saved = savedAmount(goal);
+  const remaining = Math.max(0, goal.target - saved);
+  const monthsLeft = monthsUntil(today, goal.deadline);
+  const monthlyNeeded = remaining && monthsLeft ? remaining / monthsLeft : remaining;
+  const status: GoalStatus = !remaining ? 'reached'
+    : !monthsLeft ? 'overdue'
+    : avgNet == null ? 'unknown'
+    : avgNet >= monthlyNeeded ? 'on-track' : 'behind';
+  return { saved, remaining, pct: goal.target ? Math.min(100, (saved / goal.target) * 100) : 0, monthsLeft, monthlyNeeded, status };
+}
+
+/** KRW value of the money earmarked from remaining funds; USD goals are converted at `usdRate` (KRW per USD). */
+export function allocatedKRW(goals: SavingsGoal[], usdRate: number){
+  return goals.reduce((s, g) => s + savedAmount(g, 'allocation') * (g.currency === 'USD' ? usdRate : 1), 0);
+}
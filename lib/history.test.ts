@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_HISTORY, UNDO_LIMIT, addRestorePoint, parseRestorePoints, recordChange, redoChange, serializeRestorePoints, undoChange } from "./history";
+import { emptyLedger } from "./ledger";
+
+const entry = (label: string, n = 0) => ({ id: label, label, at: '2026-03-01T00:00:00.000Z', data: { ...emptyLedger(), categories: [`c${n}`] } });
+
+describe('undo history', () => {
+  it('steps back and forward through changes', () => {
+    const current = entry('now', 2).data;
+    const h = recordChange(recordChange(EMPTY_HISTORY, entry('one', 0)), entry('two', 1));
+    const undone = undoChange(h, current)!;
+    expect(undone.entry.label).toBe('two');
+    const redone = redoChange(undone.history, undone.entry.data)!;
+    expect(redone.entry.data).toBe(current);
+    expect(undoChange(EMPTY_HISTORY, current)).toBeNull();
+  });
+  it('drops redo steps on a new change and keeps at most UNDO_LIMIT steps', () => {
+    let h = EMPTY_HISTORY;
+    for (let i = 0; i < UNDO_LIMIT + 5; i++) h = recordChange(h, entry(`e${i}`));
+    expect(h.past).toHaveLength(UNDO_LIMIT);
+    const undone = undoChange(h, entry('now').data)!;
+    expect(recordChange(undone.history, entry('new')).future).toEqual([]);
+  });
+});
+
+describe('restore points', () => {
+  it('survive serialization, newest first', () => {
+    const points = addRestorePoint(addRestorePoint([], entry('old', 0)), entry('new', 1));
+    expect(parseRestorePoints(serializeRestorePoints(points))).toEqual(points);
+  });
+  it('ignores unreadable data', () => {
+    expect(parseRestorePoints('not json')).toEqual([]);
+    expect(parseRestorePoints(JSON.stringify([{ id: 'x' }]))).toEqual([]);
+  });
+});
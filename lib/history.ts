@@ -0,0 +1,64 @@
+import { SCHEMA_VERSION, migrate, validateData, type BudgetData } from "./schema";
+
+/** The whole ledger at one moment; state arrays are never mutated, so holding one is cheap. */
+export type Snapshot = Omit<BudgetData, 'version'>;
+/** `data` is the state from just before the change described by `label`. */
+export type HistoryEntry = { id: string; label: string; at: string; data: Snapshot };
+/** Undo stack (most recent last) and redo stack (next redo last). Kept in memory only. */
+export type UndoHistory = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const UNDO_LIMIT = 50;
+export const RESTORE_POINT_LIMIT = 10;
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+/** Adds the state from before a change. Any redo steps are dropped, as in an editor. */
+export function recordChange(history: UndoHistory, entry: HistoryEntry): UndoHistory {
+  return { past: [...history.past, entry].slice(-UNDO_LIMIT), future: [] };
+}
+
+/** Steps back once; `current` becomes the redo step. null when there is nothing to undo. */
+export function undoChange(history: UndoHistory, current: Snapshot): { history: UndoHistory; entry: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { ...entry, data: current }] }
+  };
+}
+
+export function redoChange(history: UndoHistory, current: Snapshot): { history: UndoHistory; entry: HistoryEntry } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: [...history.past, { ...entry, data: current }], future: history.future.slice(0, -1) }
+  };
+}
+
+/** Restore points are kept newest first. */
+export function addRestorePoint(points: HistoryEntry[], entry: HistoryEntry, limit = RESTORE_POINT_LIMIT){
+  return [entry, ...points].slice(0, limit);
+}
+
+export function serializeRestorePoints(points: HistoryEntry[]){
+  return JSON.stringify(points.map(p => ({ ...p, data: { version: SCHEMA_VERSION, ...p.data } })));
+}
+
+/** Reads stored restore points, upgrading older data shapes. Unreadable points are dropped. */
+export function parseRestorePoints(text: string | null): HistoryEntry[] {
+  if (!text) return [];
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { return []; }
+  if (!Array.isArray(raw)) return [];
+  const points: HistoryEntry[] = [];
+  for (const p of raw){
+    if (!p || typeof p !== 'object' || typeof p.id !== 'string' || typeof p.label !== 'string' || typeof p.at !== 'string' || !p.data) continue;
+    try {
+      const { version, ...data } = validateData(migrate(p.data).data).data;
+      points.push({ id: p.id, label: p.label, at: p.at, data });
+    } catch {
+      // A point from a newer schema cannot be read by this build
+    }
+  }
+  return points;
+}
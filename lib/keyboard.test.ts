@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { moveIndex, tabStop } from "./keyboard";
+
+describe('moveIndex', () => {
+  it('moves between rows and stops at the ends', () => {
+    expect(moveIndex('ArrowDown', 0, 3, 'rows')).toBe(1);
+    expect(moveIndex('j', 2, 3, 'rows')).toBe(2);
+    expect(moveIndex('k', 0, 3, 'rows')).toBe(0);
+    expect(moveIndex('End', 0, 3, 'rows')).toBe(2);
+    expect(moveIndex('ArrowRight', 0, 3, 'rows')).toBeNull();
+  });
+  it('wraps around between tabs', () => {
+    expect(moveIndex('ArrowLeft', 0, 8, 'tabs')).toBe(7);
+    expect(moveIndex('ArrowRight', 7, 8, 'tabs')).toBe(0);
+    expect(moveIndex('Home', 5, 8, 'tabs')).toBe(0);
+    expect(moveIndex('j', 0, 8, 'tabs')).toBeNull();
+    expect(moveIndex('End', 0, 0, 'tabs')).toBeNull();
+  });
+});
+
+describe('tabStop', () => {
+  it('follows the focused row and falls back to the first one', () => {
+    expect(tabStop(['a', 'b', 'c'], 'b')).toBe('b');
+    expect(tabStop(['a', 'c'], 'b')).toBe('a');
+    expect(tabStop([], 'b')).toBe('');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Keyboard navigation: `/` opens the quick-add bar, 1–8 switch tabs, arrow keys move between
+ * tabs, and arrow keys (or j / k) move between table rows, where Enter edits and Delete removes.
+ * Each table has one row in the tab order, the last one focused.
+ */
+
+/** Whether a key press belongs to a form field, which keeps its own keys. */
+export function isTyping(target: EventTarget | null){
+  return typeof HTMLElement !== 'undefined' && target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
+}
+
+const ROW_KEYS: Record<string, number> = { ArrowDown: 1, j: 1, ArrowUp: -1, k: -1 };
+const TAB_KEYS: Record<string, number> = { ArrowRight: 1, ArrowLeft: -1 };
+
+/**
+ * Where a key moves the focus in a list of `count` items: rows stop at the ends, tabs wrap around.
+ * Home and End go to the first and last item. null for keys that do not move.
+ */
+export function moveIndex(key: string, index: number, count: number, kind: 'rows' | 'tabs'): number | null {
+  if (!count) return null;
+  if (key === 'Home') return 0;
+  if (key === 'End') return count - 1;
+  const step = (kind === 'rows' ? ROW_KEYS : TAB_KEYS)[key];
+  if (!step) return null;
+  return kind === 'rows' ? Math.min(Math.max(index + step, 0), count - 1) : (index + step + count) % count;
+}
+
+/** The row that takes the table's tab stop: the last focused one while it is still listed, else the first. */
+export function tabStop(ids: string[], focused: string): string {
+  return ids.includes(focused) ? focused : ids[0] ?? '';
+}
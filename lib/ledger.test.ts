@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { budgetAlert, emptyTransactionForm, parseTransactionForm, rowBudgetAlerts, rowsFromCsv, spentInMonth, transactionForm, withCategories } from "./ledger";
+import { DEFAULT_RATES } from "./rates";
+
+const rates = { ...DEFAULT_RATES, USD: 1400 };
+const form = { ...emptyTransactionForm('2026-03-02'), category: 'Food', desc: ' Lunch ', amount: '9000' };
+
+describe('parseTransactionForm', () => {
+  it('trims text and converts the amount', () => {
+    expect(parseTransactionForm({ ...form, notes: ' team ' }, rates)).toEqual({
+      date: '2026-03-02', category: 'Food', desc: 'Lunch', amount: 9000, currency: 'KRW', originalAmount: 9000, fxRate: 1, notes: 'team', accountId: undefined
+    });
+  });
+  it('requires a date, category, description and a positive amount', () => {
+    expect(parseTransactionForm({ ...form, date: '' }, rates)).toBeNull();
+    expect(parseTransactionForm({ ...form, category: ' ' }, rates)).toBeNull();
+    expect(parseTransactionForm({ ...form, desc: '' }, rates)).toBeNull();
+    expect(parseTransactionForm({ ...form, amount: 'abc' }, rates)).toBeNull();
+  });
+  it('reads tags and split lines', () => {
+    const splits = [{ category: 'Food', amount: '6000' }, { category: 'Home', amount: '3000' }];
+    expect(parseTransactionForm({ ...form, category: '', tags: '#Work, trip', splits }, rates)).toMatchObject({
+      category: 'Food', tags: ['work', 'trip'], splits: [{ category: 'Food', amount: 6000 }, { category: 'Home', amount: 3000 }]
+    });
+    expect(parseTransactionForm({ ...form, splits: [{ category: 'Food', amount: '6000' }, { category: 'Home', amount: '2000' }] }, rates)).toBeNull();
+    expect(parseTransactionForm(form, rates)).toMatchObject({ tags: undefined, splits: undefined });
+  });
+  it('round-trips a row through the edit form', () => {
+    const row = { id: 'a', ...parseTransactionForm({ ...form, amount: '10', currency: 'USD' }, rates)! };
+    expect(transactionForm(row)).toMatchObject({ amount: '10', currency: 'USD', desc: 'Lunch' });
+  });
+});
+
+describe('budgets', () => {
+  const expenses = [
+    { id: 'a', date: '2026-03-01', category: 'Food', desc: 'x', amount: 70000 },
+    { id: 'b', date: '2026-02-01', category: 'Food', desc: 'y', amount: 50000 },
+    { id: 'c', date: '2026-03-05', category: 'Fun', desc: 'z', amount: 10000 }
+  ];
+  const budgets = { limits: { Food: 100000 }, warnAt: 80 };
+  it('sums one category for one month', () => {
+    expect(spentInMonth(expenses, 'Food', '2026-03')).toBe(70000);
+    expect(spentInMonth(expenses, 'Food', '2026-03', 'a')).toBe(0);
+    const split = { id: 'd', date: '2026-03-09', category: 'Fun', desc: 'w', amount: 30000, splits: [{ category: 'Fun', amount: 10000 }, { category: 'Food', amount: 20000 }] };
+    expect(spentInMonth([...expenses, split], 'Food', '2026-03')).toBe(90000);
+  });
+  it('warns once when crossing the warning level and again when going over', () => {
+    expect(budgetAlert(budgets, 'Food', '2026-03', 70000, 85000)).toEqual({ type: 'info', message: 'Food has used 85% of its 2026-03 budget.' });
+    expect(budgetAlert(budgets, 'Food', '2026-03', 85000, 90000)).toBeNull();
+    expect(budgetAlert(budgets, 'Food', '2026-03', 90000, 120000)?.type).toBe('error');
+    expect(budgetAlert(budgets, 'Food', '2026-03', 120000, 130000)).toBeNull();
+  });
+  it('stays quiet without a limit or when spending goes down', () => {
+    expect(budgetAlert(budgets, 'Fun', '2026-03', 0, 1e9)).toBeNull();
+    expect(budgetAlert(budgets, 'Food', '2026-03', 120000, 110000)).toBeNull();
+  });
+  it('checks each category a new or edited row counts toward', () => {
+    const limits = { limits: { Food: 100000, Fun: 20000 }, warnAt: 80 };
+    const split = { id: 'd', date: '2026-03-09', category: 'Fun', desc: 'w', amount: 45000, splits: [{ category: 'Fun', amount: 15000 }, { category: 'Food', amount: 30000 }] };
+    expect(rowBudgetAlerts(limits, expenses, split)).toEqual([
+      { type: 'error', message: expect.stringMatching(/^Fun is over its 2026-03 budget by .*5,000\.$/) },
+      { type: 'info', message: 'Food has used 100% of its 2026-03 budget.' }
+    ]);
+    // An edited row replaces its old amount instead of adding to it
+    expect(rowBudgetAlerts(limits, expenses, { ...expenses[0], amount: 75000 })).toEqual([]);
+    expect(rowBudgetAlerts(limits, expenses, { ...expenses[0], amount: 90000 })).toEqual([{ type: 'info', message: 'Food has used 90% of its 2026-03 budget.' }]);
+  });
+});
+
+describe('CSV rows', () => {
+  it('splits statement lines into income and expenses on one account', () => {
+    let n = 0;
+    const rows = rowsFromCsv([
+      { type: 'income', date: '2026-03-01', desc: 'Salary', amount: 3000000, notes: '' },
+      { type: 'expense', date: '2026-03-02', desc: 'Taxi', amount: 12000, category: 'Transport', notes: '' }
+    ], 'bank', () => `id${++n}`);
+    expect(rows.income).toEqual([{ id: 'id1', date: '2026-03-01', category: 'Other', desc: 'Salary', amount: 3000000, notes: '', accountId: 'bank' }]);
+    expect(rows.expenses[0]).toMatchObject({ id: 'id2', category: 'Transport', accountId: 'bank' });
+  });
+  it('adds only new category names', () => {
+    expect(withCategories(['Food', 'Other'], ['Other', 'Transport'])).toEqual(['Food', 'Other', 'Transport']);
+  });
+});
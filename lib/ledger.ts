@@ -0,0 +1,102 @@
+import { DEFAULT_ACCOUNTS } from "./accounts";
+import type { CsvTransaction } from "./csv";
+import { monthKey } from "./dates";
+import type { Snapshot } from "./history";
+import { convertEntry, fmtKRW, rowCurrency, rowOriginal } from "./money";
+import type { Currency, Rates } from "./rates";
+import { DEFAULT_CATEGORIES, DEFAULT_INCOME_CATEGORIES, DEFAULT_WARN_AT } from "./schema";
+import { categoryLines, parseSplits, splitForm, type SplitForm } from "./splits";
+import { formatTags, parseTags } from "./tags";
+import type { BudgetSettings, ExpenseRow, IncomeRow, Money } from "./types";
+
+/**
+ * What the add forms and inline row editing hold: everything as typed. `splits` is only used for
+ * expenses; while it has lines, they replace `category`.
+ */
+export type TransactionForm = { date: string; category: string; desc: string; amount: string; currency: Currency; notes: string; accountId: string; tags: string; splits: SplitForm[] };
+/** Income and expense rows share one shape; the type only says which list a row belongs to. */
+export type TransactionFields = Omit<ExpenseRow, "id" | "receipts">;
+
+export function emptyTransactionForm(date = "", currency: Currency = "KRW", accountId = ""): TransactionForm {
+  return { date, category: "", desc: "", amount: "", currency, notes: "", accountId, tags: "", splits: [] };
+}
+export function transactionForm(row: IncomeRow | ExpenseRow): TransactionForm {
+  return {
+    date: row.date || "", category: row.category, desc: row.desc, amount: String(rowOriginal(row)), currency: rowCurrency(row),
+    notes: row.notes || "", accountId: row.accountId || "", tags: formatTags(row.tags), splits: splitForm(row)
+  };
+}
+// Shared by the add forms and inline editing; returns null when any required field is invalid.
+// Optional fields that are empty are set to undefined, so editing a row can clear them.
+export function parseTransactionForm(f: TransactionForm, rates: Rates, prev?: Money): TransactionFields | null {
+  const date = f.date.trim();
+  const desc = f.desc.trim();
+  const money = convertEntry(f.amount, f.currency, rates, prev);
+  if (!date || !desc || !money) return null;
+  const splits = parseSplits(f.splits, f.amount, f.currency, money.amount);
+  if (!splits) return null;
+  const category = splits.length ? splits[0].category : f.category.trim();
+  if (!category) return null;
+  const tags = parseTags(f.tags);
+  return { date, category, desc, ...money, notes: f.notes.trim(), accountId: f.accountId || undefined, tags: tags.length ? tags : undefined, splits: splits.length ? splits : undefined };
+}
+
+/** KRW spent in a category in a month, counting each split line in its own category. */
+export function spentInMonth(expenses: ExpenseRow[], category: string, month: string, excludeId?: string){
+  return expenses.reduce((s, r) => {
+    if (monthKey(r.date) !== month || r.id === excludeId) return s;
+    return s + categoryLines(r).reduce((t, l) => l.category === category ? t + l.amount : t, 0);
+  }, 0);
+}
+
+export type BudgetAlert = { type: "error" | "info"; message: string };
+/** The warning to show when a change moves a category's spending for `month` from `before` to `after` (KRW). */
+export function budgetAlert(budgets: BudgetSettings, category: string, month: string, before: number, after: number): BudgetAlert | null {
+  const limit = budgets.limits[category];
+  if (!limit || after <= before) return null;
+  const warnLevel = limit * budgets.warnAt / 100;
+  if (after > limit && before <= limit){
+    return { type: "error", message: `${category} is over its ${month} budget by ${fmtKRW.format(after - limit)}.` };
+  }
+  if (after >= warnLevel && before < warnLevel && after <= limit){
+    return { type: "info", message: `${category} has used ${Math.round(after / limit * 100)}% of its ${month} budget.` };
+  }
+  return null;
+}
+
+/**
+ * Alerts for every category a new or edited row counts toward (split rows can cross several),
+ * measured against `expenses` as they were before the change.
+ */
+export function rowBudgetAlerts(budgets: BudgetSettings, expenses: ExpenseRow[], row: ExpenseRow): BudgetAlert[] {
+  const month = monthKey(row.date);
+  const added: Record<string, number> = {};
+  for (const l of categoryLines(row)) added[l.category] = (added[l.category] || 0) + l.amount;
+  return Object.entries(added).flatMap(([category, amount]) => {
+    const alert = budgetAlert(budgets, category, month, spentInMonth(expenses, category, month), spentInMonth(expenses, category, month, row.id) + amount);
+    return alert ? [alert] : [];
+  });
+}
+
+/** Rows for bank statement lines, all booked to `accountId`. */
+export function rowsFromCsv(rows: Omit<CsvTransaction, "line">[], accountId: string | undefined, makeId: () => string){
+  const toRow = (r: Omit<CsvTransaction, "line">) => ({ id: makeId(), date: r.date, category: r.category || 'Other', desc: r.desc, amount: r.amount, notes: r.notes, accountId });
+  const income: IncomeRow[] = rows.filter(r => r.type === 'income').map(toRow);
+  const expenses: ExpenseRow[] = rows.filter(r => r.type === 'expense').map(toRow);
+  return { income, expenses };
+}
+
+/** Adds any names not in the list yet, keeping the existing order. */
+export function withCategories(list: string[], names: string[]){
+  return Array.from(new Set([...list, ...names]));
+}
+
+/** A fresh ledger, as after "Clear All Data". */
+export function emptyLedger(): Snapshot {
+  return {
+    income: [], expenses: [], categories: [...DEFAULT_CATEGORIES], categoryStyles: {},
+    incomeCategories: [...DEFAULT_INCOME_CATEGORIES], incomeCategoryStyles: {},
+    budgets: { limits: {}, warnAt: DEFAULT_WARN_AT },
+    recurring: [], loans: [], accounts: DEFAULT_ACCOUNTS, transfers: [], goals: []
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { balancesByPerson, debtTotals, linkedRowIds, linkedRowType, outstanding, repaidAmount } from "./loans";
+import type { Loan } from "./types";
+
+const loan = (id: string, person: string, direction: Loan["direction"], amount: number, repaid: number[] = []): Loan => ({
+  id, person, direction, date: '2026-03-01', amount, repayments: repaid.map((a, i) => ({ id: `${id}-${i}`, date: '2026-03-10', amount: a }))
+});
+
+describe('outstanding', () => {
+  it('subtracts repayments and treats overpayment as settled', () => {
+    expect(outstanding(loan('a', 'Minji', 'lent', 100000, [30000]))).toBe(70000);
+    const over = loan('b', 'Minji', 'lent', 100000, [60000, 50000]);
+    expect(repaidAmount(over)).toBe(110000);
+    expect(outstanding(over)).toBe(0);
+  });
+});
+
+describe('linkedRowType', () => {
+  it('pays out lending as an expense and books its repayments as income, and the reverse for borrowing', () => {
+    expect(linkedRowType('lent', false)).toBe('expense');
+    expect(linkedRowType('lent', true)).toBe('income');
+    expect(linkedRowType('borrowed', false)).toBe('income');
+    expect(linkedRowType('borrowed', true)).toBe('expense');
+  });
+});
+
+describe('balances', () => {
+  const loans = [
+    loan('a', 'Alex', 'lent', 30000, [30000]),
+    loan('b', 'Minji', 'lent', 50000, [20000]),
+    loan('c', ' minji ', 'borrowed', 10000),
+    loan('d', 'Jun', 'borrowed', 5000, [9000])
+  ];
+  it('groups people by name regardless of case and spacing, largest balance first', () => {
+    expect(balancesByPerson(loans)).toEqual([
+      { person: 'Minji', receivable: 30000, payable: 10000, open: 2 },
+      { person: 'Alex', receivable: 0, payable: 0, open: 0 },
+      { person: 'Jun', receivable: 0, payable: 0, open: 0 }
+    ]);
+  });
+  it('totals what is owed in each direction', () => {
+    expect(debtTotals(loans)).toEqual({ receivable: 30000, payable: 10000 });
+  });
+  it('lists the rows linked to loans and repayments', () => {
+    const linked = { ...loan('e', 'Alex', 'lent', 1000), rowId: 'r1', repayments: [{ id: 'p', date: '2026-03-02', amount: 500, rowId: 'r2' }] };
+    expect(linkedRowIds([linked, loans[0]])).toEqual(new Set(['r1', 'r2']));
+  });
+});
@@ -0,0 +1,51 @@
+import type { Loan } from "./types";
+
+export type PersonBalance = { person: string; receivable: number; payable: number; open: number };
+
+export function repaidAmount(loan: Loan){
+  return loan.repayments.reduce((s, r) => s + r.amount, 0);
+}
+
+/** What is still owed on a loan; overpayments count as settled rather than negative. */
+export function outstanding(loan: Loan){
+  return Math.max(0, loan.amount - repaidAmount(loan));
+}
+
+/** Lending is paid out as an expense and repaid as income; borrowing is the reverse. */
+export function linkedRowType(direction: Loan["direction"], repayment: boolean): 'income' | 'expense' {
+  return (direction === 'lent') !== repayment ? 'expense' : 'income';
+}
+
+/** Outstanding amounts per person (case-insensitive name match), largest balance first. */
+export function balancesByPerson(loans: Loan[]): PersonBalance[] {
+  const byPerson = new Map<string, PersonBalance>();
+  for (const loan of loans){
+    const key = loan.person.trim().toLowerCase();
+    const b = byPerson.get(key) || { person: loan.person.trim(), receivable: 0, payable: 0, open: 0 };
+    const left = outstanding(loan);
+    if (loan.direction === 'lent') b.receivable += left;
+    else b.payable += left;
+    if (left > 0) b.open++;
+    byPerson.set(key, b);
+  }
+  return Array.from(byPerson.values()).sort((a, b) => (b.receivable + b.payable) - (a.receivable + a.payable) || a.person.localeCompare(b.person));
+}
+
+export function debtTotals(loans: Loan[]){
+  let receivable = 0, payable = 0;
+  for (const loan of loans){
+    if (loan.direction === 'lent') receivable += outstanding(loan);
+    else payable += outstanding(loan);
+  }
+  return { receivable, payable };
+}
+
+/** Ids of income/expense rows already linked to a loan or repayment. */
+export function linkedRowIds(loans: Loan[]){
+  const ids = new Set<string>();
+  for (const loan of loans){
+    if (loan.rowId) ids.add(loan.rowId);
+    for (const r of loan.repayments) if (r.rowId) ids.add(r.rowId);
+  }
+  return ids;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { applyMerge, descSimilarity, DUPLICATE_THRESHOLD, isConflict, planMerge } from "./merge";
+
+type Row = { id: string; date: string; desc: string; amount: number; category: string; notes?: string };
+const local: Row[] = [
+  { id: 'a', date: '2026-03-01', desc: 'Starbucks Gangnam', amount: 4500, category: 'Food', notes: '' },
+  { id: 'b', date: '2026-03-02', desc: 'Taxi', amount: 12000, category: 'Transport' }
+];
+const plan = (incoming: Row[]) => planMerge<Row, Row>({ income: [], expenses: local }, { income: [], expenses: incoming }).expenses;
+
+describe('planMerge', () => {
+  it('tells identical rows from id conflicts', () => {
+    const [same, conflict] = plan([
+      { id: 'a', date: '2026-03-01', desc: 'Starbucks Gangnam', amount: 4500, category: 'Food' },
+      { id: 'b', date: '2026-03-02', desc: 'Taxi', amount: 15000, category: 'Transport' }
+    ]);
+    expect(same.kind).toBe('same');
+    expect(conflict).toMatchObject({ kind: 'id-conflict', local: local[1] });
+    expect(isConflict(conflict)).toBe(true);
+  });
+  it('flags rows with another id but the same date, amount and a similar description', () => {
+    expect(descSimilarity('STARBUCKS 강남', 'starbucks강남')).toBe(1);
+    expect(descSimilarity('Starbucks Gangnam', 'Starbucks Gangnam-gu')).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+    expect(descSimilarity('Starbucks', 'Taxi')).toBeLessThan(DUPLICATE_THRESHOLD);
+    const items = plan([
+      { id: 'x', date: '2026-03-01', desc: 'Starbucks Gangnam-gu', amount: 4500, category: 'Food' },
+      { id: 'y', date: '2026-03-01', desc: 'Starbucks Gangnam', amount: 5000, category: 'Food' },
+      { id: 'z', date: '2026-03-01', desc: 'Olive Young', amount: 4500, category: 'Shopping' }
+    ]);
+    expect(items.map(i => i.kind)).toEqual(['duplicate', 'add', 'add']);
+    expect(items[0].local).toBe(local[0]);
+  });
+});
+
+describe('applyMerge', () => {
+  const items = plan([
+    { id: 'a', date: '2026-03-01', desc: 'Starbucks Gangnam', amount: 4500, category: 'Food' },
+    { id: 'b', date: '2026-03-02', desc: 'Taxi', amount: 15000, category: 'Transport' },
+    { id: 'x', date: '2026-03-01', desc: 'Starbucks Gangnam', amount: 4500, category: 'Food' },
+    { id: 'n', date: '2026-03-05', desc: 'Books', amount: 20000, category: 'Shopping' }
+  ]);
+  it('skips undecided conflicts so local data is kept', () => {
+    const { rows, report } = applyMerge(local, items, {}, () => 'new');
+    expect(rows.map(r => r.id)).toEqual(['a', 'b', 'n']);
+    expect(report).toEqual({ added: 1, updated: 0, skipped: 3 });
+  });
+  it('overwrites or keeps both as decided, giving a kept id conflict a new id', () => {
+    const { rows, report } = applyMerge(local, items, { [items[1].key]: 'keep', [items[2].key]: 'overwrite' }, () => 'new');
+    expect(rows.map(r => [r.id, r.amount])).toEqual([['x', 4500], ['b', 12000], ['new', 15000], ['n', 20000]]);
+    expect(report).toEqual({ added: 2, updated: 1, skipped: 1 });
+  });
+});
@@ -0,0 +1,99 @@
+export type MergeableRow = { id: string; date: string; desc: string; amount: number };
+
+/**
+ * add: new row; same: identical row already present;
+ * id-conflict: same id, different contents; duplicate: different id, same date/amount and a similar description.
+ */
+export type MergeKind = 'add' | 'same' | 'id-conflict' | 'duplicate';
+/** keep: keep both rows; skip: ignore the imported row; overwrite: replace the local row with the imported one. */
+export type MergeDecision = 'keep' | 'skip' | 'overwrite';
+
+export type MergeItem<T extends MergeableRow> = { key: string; kind: MergeKind; incoming: T; local?: T };
+export type MergePlan<I extends MergeableRow, E extends MergeableRow> = { income: MergeItem<I>[]; expenses: MergeItem<E>[] };
+export type MergeReport = { added: number; updated: number; skipped: number };
+
+function normalizeDesc(s: string){ return String(s || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ''); }
+
+function bigrams(s: string){
+  const out = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++){
+    const b = s.slice(i, i + 2);
+    out.set(b, (out.get(b) || 0) + 1);
+  }
+  return out;
+}
+
+/** Dice coefficient over character bigrams of the normalized descriptions, 0..1. */
+export function descSimilarity(a: string, b: string){
+  const x = normalizeDesc(a);
+  const y = normalizeDesc(b);
+  if (x === y) return 1;
+  if (!x || !y) return 0;
+  if (x.includes(y) || y.includes(x)) return 0.9;
+  const bx = bigrams(x);
+  const by = bigrams(y);
+  let overlap = 0;
+  for (const [g, n] of bx) overlap += Math.min(n, by.get(g) || 0);
+  const total = Math.max(1, x.length - 1) + Math.max(1, y.length - 1);
+  return (2 * overlap) / total;
+}
+
+export const DUPLICATE_THRESHOLD = 0.7;
+
+/** Field by field; a missing field equals an empty one, so `notes: ''` and no notes match. */
+function sameContents(a: Record<string, unknown>, b: Record<string, unknown>){
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const k of keys){
+    const va = a[k] ?? '';
+    const vb = b[k] ?? '';
+    if (JSON.stringify(va) !== JSON.stringify(vb)) return false;
+  }
+  return true;
+}
+
+function planRows<T extends MergeableRow>(local: T[], incoming: T[], prefix: string): MergeItem<T>[] {
+  const byId = new Map(local.map(r => [r.id, r]));
+  return incoming.map((row, i) => {
+    const key = `${prefix}-${i}`;
+    const sameId = byId.get(row.id);
+    if (sameId) return { key, kind: sameContents(sameId, row) ? 'same' : 'id-conflict', incoming: row, local: sameId };
+    const dup = local.find(l => l.date === row.date && Number(l.amount) === Number(row.amount) && descSimilarity(l.desc, row.desc) >= DUPLICATE_THRESHOLD);
+    if (dup) return { key, kind: 'duplicate', incoming: row, local: dup };
+    return { key, kind: 'add', incoming: row };
+  });
+}
+
+/** Matches imported rows against local ones by id first, then flags likely duplicates. Nothing is written. */
+export function planMerge<I extends MergeableRow, E extends MergeableRow>(
+  local: { income: I[]; expenses: E[] },
+  incoming: { income: I[]; expenses: E[] }
+): MergePlan<I, E> {
+  return { income: planRows(local.income, incoming.income, 'income'), expenses: planRows(local.expenses, incoming.expenses, 'expense') };
+}
+
+export function isConflict(item: MergeItem<MergeableRow>){ return item.kind === 'id-conflict' || item.kind === 'duplicate'; }
+
+/** Applies a plan; conflicts without a decision are skipped so local data is never lost by default. */
+export function applyMerge<T extends MergeableRow>(
+  local: T[], items: MergeItem<T>[], decisions: Record<string, MergeDecision>, newId: () => string
+): { rows: T[]; report: MergeReport } {
+  const rows = [...local];
+  const report: MergeReport = { added: 0, updated: 0, skipped: 0 };
+  for (const item of items){
+    if (item.kind === 'add'){ rows.push(item.incoming); report.added++; continue; }
+    if (item.kind === 'same'){ report.skipped++; continue; }
+    const decision = decisions[item.key] || 'skip';
+    if (decision === 'skip'){ report.skipped++; continue; }
+    if (decision === 'keep'){
+      const taken = rows.some(r => r.id === item.incoming.id);
+      rows.push(taken ? { ...item.incoming, id: newId() } : item.incoming);
+      report.added++;
+      continue;
+    }
+    const idx = rows.findIndex(r => r.id === item.local!.id);
+    if (idx >= 0) rows[idx] = item.incoming;
+    else rows.push(item.incoming);
+    report.updated++;
+  }
+  return { rows, report };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { conversionHint, convertEntry, fromKRW, krwToUsd, rowValue } from "./money";
+import { DEFAULT_RATES } from "./rates";
+
+const rates = { ...DEFAULT_RATES, USD: 1400 };
+
+describe('krwToUsd', () => {
+  it('divides by the rate', () => {
+    expect(krwToUsd(14000, 1400)).toBe(10);
+  });
+  it('returns 0 for an unusable rate', () => {
+    expect(krwToUsd(14000, 0)).toBe(0);
+    expect(krwToUsd(14000, NaN)).toBe(0);
+  });
+  it('leaves KRW alone', () => {
+    expect(fromKRW(5000, 'KRW', rates)).toBe(5000);
+  });
+});
+
+describe('convertEntry', () => {
+  it('keeps KRW amounts as typed, rounded to whole won', () => {
+    expect(convertEntry('1500.4', 'KRW', rates)).toEqual({ amount: 1500, currency: 'KRW', originalAmount: 1500, fxRate: 1 });
+  });
+  it('converts foreign amounts at the current rate', () => {
+    expect(convertEntry('12.345', 'USD', rates)).toEqual({ amount: 17290, currency: 'USD', originalAmount: 12.35, fxRate: 1400 });
+  });
+  it('rejects empty, zero and negative amounts', () => {
+    expect(convertEntry('', 'KRW', rates)).toBeNull();
+    expect(convertEntry('0', 'USD', rates)).toBeNull();
+    expect(convertEntry('-5', 'KRW', rates)).toBeNull();
+  });
+  it('reuses the rate of the row being edited while its amount is unchanged', () => {
+    const prev = { amount: 13000, currency: 'USD' as const, originalAmount: 10, fxRate: 1300 };
+    expect(convertEntry('10', 'USD', rates, prev)?.fxRate).toBe(1300);
+    expect(convertEntry('11', 'USD', rates, prev)?.fxRate).toBe(1400);
+  });
+});
+
+describe('rowValue', () => {
+  it('uses the original amount in the row currency and converts otherwise', () => {
+    const row = { amount: 14000, currency: 'USD' as const, originalAmount: 10, fxRate: 1400 };
+    expect(rowValue(row, 'USD', { ...rates, USD: 1000 })).toBe(10);
+    expect(rowValue(row, 'KRW', rates)).toBe(14000);
+    expect(rowValue({ amount: 2800 }, 'USD', rates)).toBe(2);
+  });
+});
+
+describe('conversionHint', () => {
+  it('shows USD for KRW input and both for foreign input', () => {
+    expect(conversionHint('14000', 'KRW', rates)).toBe('USD ≈ $10.00');
+    expect(conversionHint('1', 'USD', rates)).toMatch(/^KRW ≈ ₩1,400 · USD ≈ \$1\.00$/);
+  });
+});
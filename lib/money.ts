@@ -0,0 +1,45 @@
+import { isCurrency, type Currency, type Rates } from "./rates";
+import type { Money } from "./types";
+
+/** Amounts and conversions. Amounts are stored in KRW; rows entered in another currency also keep what was typed. */
+export const CURRENCY_DECIMALS: Record<Currency, number> = { KRW: 0, USD: 2, JPY: 0, EUR: 2 };
+const CURRENCY_LOCALES: Record<Currency, string> = { KRW: 'ko-KR', USD: 'en-US', JPY: 'ja-JP', EUR: 'de-DE' };
+
+const formatters = {} as Record<Currency, Intl.NumberFormat>;
+export function currencyFormatter(currency: Currency){
+  return formatters[currency] ||= new Intl.NumberFormat(CURRENCY_LOCALES[currency], {
+    style: 'currency', currency, minimumFractionDigits: CURRENCY_DECIMALS[currency], maximumFractionDigits: CURRENCY_DECIMALS[currency]
+  });
+}
+export function fmtMoney(value: number, currency: Currency){ return currencyFormatter(currency).format(value); }
+export const fmtKRW = currencyFormatter('KRW');
+export const fmtUSD = currencyFormatter('USD');
+
+export function krwToUsd(krw:number, rate:number){
+  const normalizedRate = Number(rate);
+  if (!Number.isFinite(normalizedRate) || normalizedRate <= 0) return 0;
+  return Number(krw) / normalizedRate;
+}
+export function fromKRW(krw: number, currency: Currency, rates: Rates){ return currency === 'KRW' ? krw : krwToUsd(krw, rates[currency]); }
+export function rowCurrency(r: Money): Currency { return isCurrency(r.currency) ? r.currency : 'KRW'; }
+export function rowOriginal(r: Money){ return r.originalAmount ?? r.amount; }
+// Value of a row in `currency` at the given rates; rows entered in that currency keep their original amount.
+export function rowValue(r: Money, currency: Currency, rates: Rates){
+  return rowCurrency(r) === currency ? rowOriginal(r) : fromKRW(r.amount, currency, rates);
+}
+// Converts an amount typed in `currency` to KRW. When editing, the previous row's
+// rate is reused as long as its currency and original amount did not change.
+export function convertEntry(amountStr: string, currency: Currency, rates: Rates, prev?: Money): Money | null {
+  const factor = 10 ** CURRENCY_DECIMALS[currency];
+  const originalAmount = Math.round(Number(amountStr) * factor) / factor;
+  if (!(originalAmount > 0)) return null;
+  if (currency === 'KRW') return { amount: originalAmount, currency, originalAmount, fxRate: 1 };
+  const keep = prev && rowCurrency(prev) === currency && rowOriginal(prev) === originalAmount && prev.fxRate;
+  const fxRate = keep ? prev.fxRate as number : rates[currency];
+  return { amount: Math.round(originalAmount * fxRate), currency, originalAmount, fxRate };
+}
+/** The "≈" line under an amount field: the typed amount in KRW and USD at today's rates. */
+export function conversionHint(amount: string, currency: Currency, rates: Rates){
+  const krw = Number(amount || 0) * rates[currency];
+  return currency === 'KRW' ? `USD ≈ ${fmtUSD.format(krwToUsd(krw, rates.USD))}` : `KRW ≈ ${fmtKRW.format(krw)} · USD ≈ ${fmtUSD.format(krwToUsd(krw, rates.USD))}`;
+}
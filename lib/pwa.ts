@@ -0,0 +1,38 @@
+/**
+ * Browser glue for running as an installed, offline-capable app: the service worker in
+ * public/sw.js and the "connection is back" signal that queued work waits for.
+ */
+const REPLAY_TAG = 'budget-replay';
+
+/** Registers the service worker. Skipped in development, where it would serve stale builds. */
+export function registerServiceWorker(){
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch(err => console.error('Failed to register the service worker', err));
+}
+
+/**
+ * Asks to be woken when the connection returns. Background Sync is not available everywhere;
+ * the `online` event in onReconnect covers the rest while the page is open.
+ */
+export function requestReplay(){
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then(reg => (reg as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync?.register(REPLAY_TAG))
+    .catch(() => undefined);
+}
+
+/** Calls `run` when the browser comes back online or the service worker reports it. Returns an unsubscribe function. */
+export function onReconnect(run: () => void){
+  const onMessage = (e: MessageEvent) => { if (e.data?.type === 'replay') run(); };
+  window.addEventListener('online', run);
+  navigator.serviceWorker?.addEventListener('message', onMessage);
+  return () => {
+    window.removeEventListener('online', run);
+    navigator.serviceWorker?.removeEventListener('message', onMessage);
+  };
+}
+
+/** Whether a failed request failed for lack of a connection (fetch rejects with a TypeError then). */
+export function isNetworkError(err: unknown){
+  return (typeof navigator !== 'undefined' && !navigator.onLine) || err instanceof TypeError;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { draftProblem, guessCategory, parseAmountWord, parseDateWord, parseQuickAdd, quickHistory, type QuickContext } from "./quickAdd";
+import { DEFAULT_CATEGORIES, DEFAULT_INCOME_CATEGORIES } from "./schema";
+
+// A Wednesday
+const today = new Date(2026, 9, 28);
+const history = quickHistory(
+  [{ date: '2026-09-25', desc: 'October pay', category: 'Salary' }],
+  [
+    { date: '2026-10-01', desc: 'Starbucks latte', category: 'Food & Drinks' },
+    { date: '2026-10-02', desc: 'Taxi home', category: 'Transportation' },
+    { date: '2026-10-20', desc: 'Coupang', category: 'Shopping' },
+    { date: '2026-09-01', desc: 'Coupang', category: 'Daily Expense' }
+  ]
+);
+const ctx: QuickContext = { today, categories: DEFAULT_CATEGORIES, incomeCategories: DEFAULT_INCOME_CATEGORIES, history };
+
+describe('words', () => {
+  it('reads dates relative to today', () => {
+    expect(parseDateWord('today', today)).toBe('2026-10-28');
+    expect(parseDateWord('Yesterday', today)).toBe('2026-10-27');
+    expect(parseDateWord('fri', today)).toBe('2026-10-23');
+    expect(parseDateWord('wednesday', today)).toBe('2026-10-28');
+    expect(parseDateWord('10/25', today)).toBe('2026-10-25');
+    expect(parseDateWord('12/31', today)).toBe('2025-12-31');
+    expect(parseDateWord('2026-02-03', today)).toBe('2026-02-03');
+    expect(parseDateWord('2/30', today)).toBeNull();
+    expect(parseDateWord('sun-cream', today)).toBeNull();
+  });
+  it('reads amounts with separators, k and currency symbols', () => {
+    expect(parseAmountWord('2,500,000')).toEqual({ amount: 2500000, currency: undefined });
+    expect(parseAmountWord('12.5k')).toEqual({ amount: 12500, currency: undefined });
+    expect(parseAmountWord('$8.50')).toEqual({ amount: 8.5, currency: 'USD' });
+    expect(parseAmountWord('0')).toBeNull();
+    expect(parseAmountWord('1,00')).toBeNull();
+  });
+});
+
+describe('parseQuickAdd', () => {
+  it('reads an expense with a category word and a date word', () => {
+    const draft = parseQuickAdd('12000 taxi transport yesterday', ctx);
+    expect(draft).toMatchObject({ type: 'expense', categoryFrom: 'typed' });
+    expect(draft.form).toMatchObject({ date: '2026-10-27', category: 'Transportation', desc: 'taxi', amount: '12000', currency: 'KRW' });
+    expect(draftProblem(draft)).toBe('');
+  });
+  it('reads income, using the category as the description when nothing else is left', () => {
+    const draft = parseQuickAdd('salary 2,500,000 income 10/25', ctx);
+    expect(draft.type).toBe('income');
+    expect(draft.form).toMatchObject({ date: '2026-10-25', category: 'Salary', desc: 'Salary', amount: '2500000' });
+  });
+  it('picks up currencies, multi-word categories and tags', () => {
+    expect(parseQuickAdd('$25 dinner food & drinks #Trip', ctx).form).toMatchObject({ category: 'Food & Drinks', desc: 'dinner', amount: '25', currency: 'USD', tags: 'trip' });
+    expect(parseQuickAdd('30 usd gift gifts', ctx).form).toMatchObject({ category: 'Gifts', desc: 'gift', currency: 'USD' });
+    expect(parseQuickAdd('rent 500000 room and utility', { ...ctx, currency: 'USD' }).form).toMatchObject({ category: 'Room and Utility', desc: 'rent', currency: 'USD' });
+  });
+  it('guesses the category and type from earlier descriptions', () => {
+    expect(parseQuickAdd('coupang 15000', ctx)).toMatchObject({ type: 'expense', categoryFrom: 'history', form: { category: 'Shopping' } });
+    expect(parseQuickAdd('4500 latte', ctx).form.category).toBe('Food & Drinks');
+    expect(parseQuickAdd('november pay 2500000', ctx)).toMatchObject({ type: 'income', form: { category: 'Salary', date: '2026-10-28' } });
+  });
+  it('says what is missing', () => {
+    expect(draftProblem(parseQuickAdd('taxi', ctx))).toMatch(/amount/);
+    expect(draftProblem(parseQuickAdd('9000 zzz', ctx))).toMatch(/No expense category/);
+  });
+});
+
+describe('guessCategory', () => {
+  it('prefers the latest row with the same description', () => {
+    expect(guessCategory('COUPANG', history)).toEqual({ type: 'expense', category: 'Shopping' });
+    expect(guessCategory('taxi to airport', history)).toEqual({ type: 'expense', category: 'Transportation' });
+    expect(guessCategory('pay', history, 'expense')).toBeNull();
+    expect(guessCategory('', history)).toBeNull();
+  });
+});
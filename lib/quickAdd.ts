@@ -0,0 +1,189 @@
+import type { CategoryKind } from "./categories";
+import { isoDate } from "./dates";
+import { emptyTransactionForm, type TransactionForm } from "./ledger";
+import { CURRENCIES, type Currency } from "./rates";
+import { formatTags, normalizeTag } from "./tags";
+
+/**
+ * The quick-add bar: one line such as "12000 taxi transport yesterday" or
+ * "salary 2,500,000 income 10/25" read into a draft row. Words are picked out in any order:
+ * an amount (with an optional currency), a date, `income` / `expense`, a category name (or the
+ * start of one), `#tags`; what is left is the description. Without a category name the category
+ * is guessed from earlier rows with similar descriptions.
+ */
+export type QuickDraft = {
+  type: CategoryKind;
+  form: TransactionForm;
+  /** How the category was found: typed, guessed from history, or not at all. */
+  categoryFrom: 'typed' | 'history' | 'none';
+};
+export type QuickContext = {
+  today: Date;
+  categories: readonly string[];
+  incomeCategories: readonly string[];
+  /** Earlier rows, for guessing the category (and type) from the description. */
+  history: QuickHistory[];
+  /** Currency when none is typed. */
+  currency?: Currency;
+};
+export type QuickHistory = { type: CategoryKind; date: string; desc: string; category: string };
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const SYMBOLS: Record<string, Currency> = { '₩': 'KRW', '$': 'USD', '¥': 'JPY', '€': 'EUR' };
+const AMOUNT = /^([₩$¥€])?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(k)?$/i;
+
+function addDays(d: Date, days: number){
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+/**
+ * A date word relative to `today`: today, yesterday, a weekday such as `fri` or `friday` (the latest
+ * one, today included), M/D, M/D/YYYY or YYYY-MM-DD.
+ */
+export function parseDateWord(word: string, today: Date): string | null {
+  const w = word.toLowerCase();
+  if (w === 'today') return isoDate(today);
+  if (w === 'yesterday') return isoDate(addDays(today, -1));
+  const weekday = WEEKDAYS.findIndex(d => w === d || w === d.slice(0, 3));
+  if (weekday >= 0) return isoDate(addDays(today, -((today.getDay() - weekday + 7) % 7)));
+  let y: number, m: number, d: number;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(w);
+  const short = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/.exec(w);
+  if (iso) [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  else if (short){
+    [m, d] = [Number(short[1]), Number(short[2])];
+    y = short[3] ? Number(short[3]) : today.getFullYear();
+  } else return null;
+  const date = new Date(y, m - 1, d);
+  if (date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  // A month and day still ahead this year is most likely last year's
+  if (short && !short[3] && date > today) date.setFullYear(y - 1);
+  return isoDate(date);
+}
+
+/** An amount word: `12000`, `2,500,000`, `12.5k`, `$8.50`, `₩9000`. */
+export function parseAmountWord(word: string): { amount: number; currency?: Currency } | null {
+  const m = AMOUNT.exec(word);
+  if (!m) return null;
+  const amount = Number(m[2].replace(/,/g, '') + (m[3] || '')) * (m[4] ? 1000 : 1);
+  return amount > 0 ? { amount: Number(amount.toFixed(2)), currency: m[1] ? SYMBOLS[m[1]] : undefined } : null;
+}
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length >= 2);
+
+/**
+ * The category of earlier rows with the same description (the latest one), or else the category
+ * sharing the most description words with it. `type` limits the guess to income or expenses.
+ */
+export function guessCategory(desc: string, history: QuickHistory[], type?: CategoryKind): { type: CategoryKind; category: string } | null {
+  const text = desc.trim().toLowerCase();
+  if (!text) return null;
+  const rows = history.filter(h => !type || h.type === type).sort((a, b) => b.date.localeCompare(a.date));
+  const same = rows.find(h => h.desc.trim().toLowerCase() === text);
+  if (same) return { type: same.type, category: same.category };
+  const wanted = new Set(words(text));
+  const scores = new Map<string, { type: CategoryKind; category: string; score: number }>();
+  for (const h of rows){
+    const shared = words(h.desc).filter(w => wanted.has(w)).length;
+    if (!shared) continue;
+    const key = `${h.type}:${h.category}`;
+    const s = scores.get(key) || { type: h.type, category: h.category, score: 0 };
+    s.score += shared;
+    scores.set(key, s);
+  }
+  // Highest score; ties go to the category used most recently, which was seen first
+  let best: { type: CategoryKind; category: string; score: number } | null = null;
+  for (const s of Array.from(scores.values())) if (!best || s.score > best.score) best = s;
+  return best && { type: best.type, category: best.category };
+}
+
+/**
+ * Finds a category among the words: a whole name (several words for names like "Room and
+ * Utility") first, then a word of three letters or more that starts a name ("transport"). Returns
+ * the category and which words it used.
+ */
+function findCategory(list: readonly string[], text: string[]): { category: string; at: number; length: number } | null {
+  const lower = text.map(w => w.toLowerCase());
+  const byLength = [...list].sort((a, b) => b.split(/\s+/).length - a.split(/\s+/).length);
+  for (const category of byLength){
+    const parts = category.toLowerCase().split(/\s+/);
+    for (let i = 0; i + parts.length <= lower.length; i++){
+      if (parts.every((p, j) => lower[i + j] === p)) return { category, at: i, length: parts.length };
+    }
+  }
+  for (let i = 0; i < lower.length; i++){
+    const category = lower[i].length >= 3 && list.find(c => c.toLowerCase().startsWith(lower[i]));
+    if (category) return { category, at: i, length: 1 };
+  }
+  return null;
+}
+
+export function parseQuickAdd(input: string, ctx: QuickContext): QuickDraft {
+  let type: CategoryKind | undefined;
+  let date = '';
+  let amount: number | undefined;
+  let currency: Currency | undefined;
+  const tags: string[] = [];
+  const rest: string[] = [];
+  for (const word of input.trim().split(/\s+/).filter(Boolean)){
+    const lower = word.toLowerCase();
+    const upper = word.toUpperCase() as Currency;
+    const money = amount === undefined ? parseAmountWord(word) : null;
+    const day = !date ? parseDateWord(word, ctx.today) : null;
+    if (word.startsWith('#') && normalizeTag(word)) tags.push(normalizeTag(word));
+    else if (!type && (lower === 'income' || lower === 'expense')) type = lower as CategoryKind;
+    else if (day) date = day;
+    else if (money){
+      amount = money.amount;
+      currency ||= money.currency;
+    }
+    else if (!currency && CURRENCIES.includes(upper)) currency = upper;
+    else rest.push(word);
+  }
+
+  // A typed category name decides the type when `income` / `expense` was not typed
+  let category = '';
+  let categoryFrom: QuickDraft['categoryFrom'] = 'none';
+  const lists: [CategoryKind, readonly string[]][] = type ? [[type, type === 'income' ? ctx.incomeCategories : ctx.categories]] : [['expense', ctx.categories], ['income', ctx.incomeCategories]];
+  for (const [kind, list] of lists){
+    const found = findCategory(list, rest);
+    if (!found) continue;
+    type = kind;
+    category = found.category;
+    categoryFrom = 'typed';
+    rest.splice(found.at, found.length);
+    break;
+  }
+  let desc = rest.join(' ');
+  if (!category){
+    const guess = guessCategory(desc, ctx.history, type);
+    const known = guess && (guess.type === 'income' ? ctx.incomeCategories : ctx.categories).includes(guess.category);
+    if (guess && known){
+      type = guess.type;
+      category = guess.category;
+      categoryFrom = 'history';
+    }
+  }
+  if (!desc) desc = category;
+
+  const form: TransactionForm = {
+    ...emptyTransactionForm(date || isoDate(ctx.today), currency || ctx.currency || 'KRW'),
+    category, desc, amount: amount === undefined ? '' : String(amount), tags: formatTags(tags)
+  };
+  return { type: type || 'expense', form, categoryFrom };
+}
+
+/** What is still missing before the draft can be added, or '' when it is complete. */
+export function draftProblem(draft: QuickDraft){
+  if (!draft.form.amount) return 'Add an amount, e.g. 12000 or $8.50';
+  if (!draft.form.category) return `No ${draft.type} category matched; type one of your category names`;
+  if (!draft.form.desc) return 'Add a description';
+  return '';
+}
+
+type Described = { date: string; desc: string; category: string };
+/** Earlier rows as guessing material for the quick-add bar. */
+export function quickHistory(income: Described[], expenses: Described[]): QuickHistory[] {
+  const pick = (type: CategoryKind) => (r: Described): QuickHistory => ({ type, date: r.date, desc: r.desc, category: r.category });
+  return [...income.map(pick('income')), ...expenses.map(pick('expense'))];
+}
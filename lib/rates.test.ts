@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_RATES, RATE_MAX_AGE_MS, createOpenErApiSource, createStaticRateSource, normalizeHistory, ratesAreStale, ratesOn, refreshRates, upsertRate
+} from "./rates";
+
+const day = (date: string, USD: number, source: 'manual' | 'fetched' = 'fetched') => ({ date, rates: { ...DEFAULT_RATES, USD }, source });
+
+describe('rate history', () => {
+  it('keeps one entry per day, sorted, and never lets a fetch replace a manual override', () => {
+    let h = upsertRate([], day('2026-01-02', 1300));
+    h = upsertRate(h, day('2026-01-01', 1290, 'manual'));
+    h = upsertRate(h, day('2026-01-01', 1500));
+    expect(h.map(e => [e.date, e.rates.USD])).toEqual([['2026-01-01', 1290], ['2026-01-02', 1300]]);
+  });
+  it('uses the nearest recorded date, the earlier one on a tie', () => {
+    const h = [day('2026-01-01', 1300), day('2026-01-05', 1400)];
+    expect(ratesOn(h, '2026-01-03', DEFAULT_RATES).USD).toBe(1300);
+    expect(ratesOn(h, '2026-01-04', DEFAULT_RATES).USD).toBe(1400);
+    expect(ratesOn([], '2026-01-04', DEFAULT_RATES)).toBe(DEFAULT_RATES);
+  });
+  it('drops unreadable entries when loading', () => {
+    expect(normalizeHistory([{ date: 'x' }, { date: '2026-01-01', rates: { USD: -1 } }])).toEqual([
+      { date: '2026-01-01', rates: DEFAULT_RATES, source: 'fetched' }
+    ]);
+  });
+});
+
+describe('rate service', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('refreshes after the maximum age', () => {
+    const now = 1_000_000_000_000;
+    expect(ratesAreStale(now - RATE_MAX_AGE_MS + 1, now)).toBe(false);
+    expect(ratesAreStale(now - RATE_MAX_AGE_MS - 1, now)).toBe(true);
+    expect(ratesAreStale(NaN, now)).toBe(true);
+  });
+  it('returns the fetched rates with a history entry for today', async () => {
+    const rates = { ...DEFAULT_RATES, USD: 1350 };
+    expect(await refreshRates(createStaticRateSource(rates), '2026-03-01')).toEqual({ rates, entry: { date: '2026-03-01', rates, source: 'fetched' } });
+  });
+  it('reads open.er-api.com responses as KRW per unit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ rates: { USD: 0.0008, JPY: 0.1, EUR: 0.0005 } }))));
+    const rates = await createOpenErApiSource('http://stub').fetchLatest();
+    expect(rates).toEqual({ KRW: 1, USD: 1250, JPY: 10, EUR: 2000 });
+  });
+  it('rejects HTTP errors and incomplete data', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 503 })));
+    await expect(createOpenErApiSource('http://stub').fetchLatest()).rejects.toThrow('HTTP 503');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ rates: { USD: 0.0008 } }))));
+    await expect(createOpenErApiSource('http://stub').fetchLatest()).rejects.toThrow('Invalid rate data');
+  });
+});
@@ -0,0 +1,108 @@
+export const CURRENCIES = ['KRW', 'USD', 'JPY', 'EUR'] as const;
+export type Currency = typeof CURRENCIES[number];
+export type Rates = Record<Currency, number>; // KRW per one unit of each currency
+
+export const DEFAULT_RATES: Rates = { KRW: 1, USD: 1388, JPY: 9.3, EUR: 1500 };
+
+export type RateEntry = { date: string; rates: Rates; source: 'fetched' | 'manual' };
+/** Dated rate snapshots, kept sorted by date with at most one entry per day. */
+export type RateHistory = RateEntry[];
+
+/** Anything that can produce today's KRW rates: the public API, a local stub, a fixture. */
+export interface RateSource {
+  name: string;
+  fetchLatest(): Promise<Rates>;
+}
+
+export function isCurrency(v: any): v is Currency { return CURRENCIES.includes(v); }
+
+export function normalizeRates(raw: any): Rates {
+  const rates = { ...DEFAULT_RATES };
+  for (const c of CURRENCIES){
+    const n = Number(raw?.[c]);
+    if (c !== 'KRW' && Number.isFinite(n) && n > 0) rates[c] = n;
+  }
+  return rates;
+}
+
+/**
+ * Reads an open.er-api.com style response (`{ rates: { USD: 0.00072, ... } }`, units per KRW)
+ * from `url`. Point it at a local server to run against stubbed data.
+ */
+export function createOpenErApiSource(url = 'https://open.er-api.com/v6/latest/KRW'): RateSource {
+  return {
+    name: url,
+    async fetchLatest(){
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      const rates = { ...DEFAULT_RATES };
+      for (const c of CURRENCIES){
+        if (c === 'KRW') continue;
+        const perKrw = Number(data?.rates?.[c]);
+        if (!Number.isFinite(perKrw) || perKrw <= 0) throw new Error('Invalid rate data');
+        rates[c] = 1 / perKrw;
+      }
+      return rates;
+    }
+  };
+}
+
+/** A source that always answers with fixed rates, for offline use and tests. */
+export function createStaticRateSource(rates: Rates): RateSource {
+  return { name: 'static', fetchLatest: async () => ({ ...rates }) };
+}
+
+export const defaultRateSource: RateSource = createOpenErApiSource(process.env.NEXT_PUBLIC_RATE_SOURCE_URL || undefined);
+
+/** Fetched rates are refreshed automatically once they are older than this. */
+export const RATE_MAX_AGE_MS = 1000 * 60 * 60 * 12;
+/** `lastFetched` is a millisecond timestamp; anything unreadable counts as stale. */
+export function ratesAreStale(lastFetched: number, now = Date.now()){
+  return !Number.isFinite(lastFetched) || (now - lastFetched) > RATE_MAX_AGE_MS;
+}
+/** Fetches today's rates from `source` along with the history entry recording them. Throws when the source fails. */
+export async function refreshRates(source: RateSource, today: string): Promise<{ rates: Rates; entry: RateEntry }> {
+  const rates = await source.fetchLatest();
+  return { rates, entry: { date: today, rates, source: 'fetched' } };
+}
+
+export function normalizeHistory(raw: any): RateHistory {
+  if (!Array.isArray(raw)) return [];
+  const entries = raw
+    .filter((e:any) => e && /^\d{4}-\d{2}-\d{2}$/.test(String(e.date)))
+    .map((e:any): RateEntry => ({ date: String(e.date), rates: normalizeRates(e.rates), source: e.source === 'manual' ? 'manual' : 'fetched' }));
+  return entries.reduce((h: RateHistory, e) => upsertRate(h, e), []);
+}
+
+/** Adds or replaces the entry for `entry.date`. A fetched rate never overwrites a manual override. */
+export function upsertRate(history: RateHistory, entry: RateEntry): RateHistory {
+  const existing = history.find(e => e.date === entry.date);
+  if (existing && existing.source === 'manual' && entry.source === 'fetched') return history;
+  return [...history.filter(e => e.date !== entry.date), entry].sort((a,b)=> a.date.localeCompare(b.date));
+}
+
+export function removeRate(history: RateHistory, date: string): RateHistory {
+  return history.filter(e => e.date !== date);
+}
+
+function dayNumber(date: string){
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, (m || 1) - 1, d || 1) / 86400000;
+}
+
+/**
+ * The rates in effect on `date`: that day's entry, otherwise the nearest known one
+ * (the earlier entry wins a tie), otherwise `fallback`.
+ */
+export function ratesOn(history: RateHistory, date: string, fallback: Rates): Rates {
+  if (!history.length || !date) return fallback;
+  const target = dayNumber(date);
+  let best = history[0];
+  let bestDist = Math.abs(dayNumber(best.date) - target);
+  for (const e of history){
+    const dist = Math.abs(dayNumber(e.date) - target);
+    if (dist < bestDist){ best = e; bestDist = dist; }
+  }
+  return best.rates;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryReceiptStore, NotAnImageError, receiptErrorMessage, receiptFromFile, receiptPath, storeReceiptFiles, unusedReceipts, withReceipts, withoutReceipt, type Receipt } from "./receipts";
+import type { ExpenseRow } from "./types";
+
+const lunch: ExpenseRow = { id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000, notes: '' };
+const receipt = (id: string): Receipt => ({ id, name: `${id}.jpg`, type: 'image/jpeg', size: 3, addedAt: '2026-03-01T00:00:00.000Z', original: new Blob(['abc']), thumbnail: new Blob(['a']) });
+
+describe('receipt ids on rows', () => {
+  it('adds ids once and drops the field when the last one goes', () => {
+    const row = withReceipts(withReceipts(lunch, ['r1']), ['r1', 'r2']);
+    expect(row.receipts).toEqual(['r1', 'r2']);
+    expect(withoutReceipt(withoutReceipt(row, 'r1'), 'r2')).not.toHaveProperty('receipts', expect.anything());
+    expect(withReceipts(lunch, []).receipts).toBeUndefined();
+  });
+});
+
+describe('unusedReceipts', () => {
+  it('keeps receipts used by the data or by a restore point', () => {
+    const current = { expenses: [{ ...lunch, receipts: ['r1'] }] };
+    const restorePoint = { expenses: [{ ...lunch, id: 'b', receipts: ['r2'] }] };
+    expect(unusedReceipts(['r1', 'r2', 'r3'], [current, restorePoint])).toEqual(['r3']);
+  });
+});
+
+describe('receiptPath', () => {
+  it('names the file after the id with an extension for its type', () => {
+    expect(receiptPath(receipt('r1'))).toBe('receipts/r1.jpg');
+    expect(receiptPath({ id: 'r2', name: 'scan.HEIC', type: '' })).toBe('receipts/r2.heic');
+  });
+});
+
+describe('memory store', () => {
+  it('puts, reads and removes receipts', async () => {
+    const store = createMemoryReceiptStore();
+    await store.put([receipt('r1'), receipt('r2')]);
+    expect((await store.get('r1'))?.name).toBe('r1.jpg');
+    await store.remove(['r1']);
+    expect((await store.all()).map(r => r.id)).toEqual(['r2']);
+  });
+});
+
+describe('storeReceiptFiles', () => {
+  const file = (name: string) => new File(['abc'], name, { type: name.endsWith('.jpg') ? 'image/jpeg' : 'text/plain' });
+  const read = async (f: File) => {
+    if (!f.type.startsWith('image/')) throw new NotAnImageError(`${f.name} is not an image`);
+    return receipt(f.name.replace('.jpg', ''));
+  };
+  it('stores every file and returns their ids', async () => {
+    const store = createMemoryReceiptStore();
+    expect(await storeReceiptFiles(store, [file('r1.jpg'), file('r2.jpg')], read)).toEqual(['r1', 'r2']);
+    expect((await store.all()).map(r => r.id)).toEqual(['r1', 'r2']);
+  });
+  it('stores nothing when one file cannot be read', async () => {
+    const store = createMemoryReceiptStore();
+    const err = await storeReceiptFiles(store, [file('r1.jpg'), file('notes.txt')], read).catch(e => e);
+    expect(receiptErrorMessage(err)).toBe('notes.txt is not an image');
+    expect(await store.all()).toEqual([]);
+    expect(receiptErrorMessage(new Error('QuotaExceededError'))).toBe('Receipt images could not be saved.');
+  });
+  it('rejects files that are not images before reading them', async () => {
+    await expect(receiptFromFile(file('notes.txt'))).rejects.toBeInstanceOf(NotAnImageError);
+  });
+});
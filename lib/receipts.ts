@@ -0,0 +1,151 @@
+import { uid } from "./ids";
+import type { ExpenseRow } from "./types";
+
+/**
+ * Receipt photos attached to expenses. An expense lists the ids of its receipts in `receipts`;
+ * the images live in their own IndexedDB database, the original as picked plus a small JPEG
+ * thumbnail for lists. They stay on this device: sync and JSON export carry only the ids.
+ */
+export type Receipt = {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  addedAt: string;
+  original: Blob;
+  thumbnail: Blob;
+};
+
+export interface ReceiptStore {
+  get(id: string): Promise<Receipt | undefined>;
+  /** Every stored receipt, oldest first. */
+  all(): Promise<Receipt[]>;
+  put(receipts: Receipt[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+/** Longest side of a thumbnail, in pixels. */
+export const THUMBNAIL_SIZE = 320;
+/** What the pickers accept. HEIC is left out: most browsers cannot draw it to make a thumbnail. */
+export const RECEIPT_TYPES = 'image/jpeg,image/png,image/webp,image/gif';
+
+/** Scales an image down to a JPEG of at most `size` pixels on its longest side. Browser only. */
+export async function makeThumbnail(image: Blob, size = THUMBNAIL_SIZE, quality = 0.7): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  // JPEG has no transparency; paint a white page behind PNG receipts instead of black
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('Could not encode the thumbnail')), 'image/jpeg', quality));
+}
+
+/** A picked file that is not an image; its message names the file and can be shown as is. */
+export class NotAnImageError extends Error {}
+
+/** Reads a picked file into a receipt. Rejects files that are not images the browser can decode. */
+export async function receiptFromFile(file: File, now = new Date()): Promise<Receipt> {
+  if (!file.type.startsWith('image/')) throw new NotAnImageError(`${file.name} is not an image`);
+  return { id: uid(), name: file.name || 'receipt', type: file.type, size: file.size, addedAt: now.toISOString(), original: file, thumbnail: await makeThumbnail(file) };
+}
+
+/**
+ * Reads every file and stores them together, returning the new ids. Nothing is stored unless all
+ * of them could be read, so a row never points at half of what was picked.
+ */
+export async function storeReceiptFiles(store: ReceiptStore, files: File[], read = receiptFromFile): Promise<string[]> {
+  const receipts = await Promise.all(files.map(f => read(f)));
+  await store.put(receipts);
+  return receipts.map(r => r.id);
+}
+/** What to tell the user when `storeReceiptFiles` fails. */
+export function receiptErrorMessage(err: unknown){
+  return err instanceof NotAnImageError ? err.message : "Receipt images could not be saved.";
+}
+
+/** Adds receipt ids to a row, leaving `receipts` off rows that have none. */
+export function withReceipts<T extends ExpenseRow>(row: T, ids: string[]): T {
+  const receipts = Array.from(new Set([...(row.receipts || []), ...ids]));
+  return { ...row, receipts: receipts.length ? receipts : undefined };
+}
+export function withoutReceipt<T extends ExpenseRow>(row: T, id: string): T {
+  const receipts = (row.receipts || []).filter(r => r !== id);
+  return { ...row, receipts: receipts.length ? receipts : undefined };
+}
+
+/**
+ * Stored receipts no row points at any more, in `ledgers` (the current data plus any restore
+ * points, whose rows may come back). Removing a receipt from a row does not delete the image right
+ * away, so undo can bring it back; these are cleaned up on the next start instead.
+ */
+export function unusedReceipts(stored: string[], ledgers: { expenses: ExpenseRow[] }[]): string[] {
+  const used = new Set(ledgers.flatMap(l => l.expenses.flatMap(e => e.receipts || [])));
+  return stored.filter(id => !used.has(id));
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' };
+/** Path of a receipt's original inside the full backup zip. */
+export function receiptPath(r: Pick<Receipt, 'id' | 'name' | 'type'>){
+  const ext = EXTENSIONS[r.type] || r.name.split('.').pop()?.toLowerCase() || 'bin';
+  return `receipts/${r.id}.${ext}`;
+}
+
+export function createMemoryReceiptStore(): ReceiptStore {
+  const items = new Map<string, Receipt>();
+  return {
+    async get(id){ return items.get(id); },
+    async all(){ return Array.from(items.values()); },
+    async put(receipts){ for (const r of receipts) items.set(r.id, r); },
+    async remove(ids){ for (const id of ids) items.delete(id); }
+  };
+}
+
+const STORE = 'receipts';
+
+function request<T>(req: IDBRequest<T>){
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Kept apart from the ledger database so large images never slow down loading the ledger. */
+export function createIndexedDbReceiptStore(name = 'budget-receipts'): ReceiptStore {
+  let db: Promise<IDBDatabase> | null = null;
+  function open(){
+    db ||= new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('addedAt', 'addedAt');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return db;
+  }
+  async function write(run: (store: IDBObjectStore) => void){
+    const tx = (await open()).transaction(STORE, 'readwrite');
+    run(tx.objectStore(STORE));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    });
+  }
+  return {
+    async get(id){
+      return request<Receipt | undefined>((await open()).transaction(STORE).objectStore(STORE).get(id));
+    },
+    async all(){
+      return request<Receipt[]>((await open()).transaction(STORE).objectStore(STORE).index('addedAt').getAll());
+    },
+    put(receipts){ return write(store => { for (const r of receipts) store.put(r); }); },
+    remove(ids){ return write(store => { for (const id of ids) store.delete(id); }); }
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { describeSchedule, emptyRecurringForm, nextOccurrence, parseRecurringForm, runRecurring } from "./recurring";
+import type { RecurringTemplate } from "./types";
+
+const rent: RecurringTemplate = {
+  id: 'rent', type: 'expense', desc: 'Rent', amount: 500000, category: 'Housing',
+  schedule: { freq: 'monthly', day: 31 }, startDate: '2026-01-01', paused: false
+};
+
+describe('runRecurring', () => {
+  it('creates each due occurrence once, clamping the day to short months', () => {
+    const run = runRecurring([rent], [], [], '2026-03-31');
+    expect(run.newExpenses.map(r => r.date)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+    expect(run.templates[0].lastRun).toBe('2026-03-31');
+    expect(runRecurring(run.templates, [], run.newExpenses, '2026-03-31').newExpenses).toEqual([]);
+  });
+  it('gives every occurrence the same id on every device', () => {
+    const a = runRecurring([rent], [], [], '2026-01-31').newExpenses;
+    const b = runRecurring([rent], [], [], '2026-01-31').newExpenses;
+    expect(a[0].id).toBe('rent-2026-01-31');
+    expect(b[0].id).toBe(a[0].id);
+  });
+  it('skips paused templates and stops at the end date', () => {
+    expect(runRecurring([{ ...rent, paused: true }], [], [], '2026-03-31').newExpenses).toEqual([]);
+    const ended = runRecurring([{ ...rent, endDate: '2026-02-15' }], [], [], '2026-03-31');
+    expect(ended.newExpenses.map(r => r.date)).toEqual(['2026-01-31']);
+    expect(ended.templates[0].lastRun).toBe('2026-02-15');
+  });
+  it('does not recreate a row that already exists for the date', () => {
+    const existing = { id: 'x', date: '2026-01-31', category: 'Housing', desc: 'Rent', amount: 500000, recurringId: 'rent' };
+    expect(runRecurring([rent], [], [existing], '2026-01-31').newExpenses).toEqual([]);
+  });
+});
+
+describe('schedules', () => {
+  it('finds the next occurrence after today', () => {
+    expect(nextOccurrence({ ...rent, lastRun: '2026-02-28' }, '2026-03-10')).toBe('2026-03-31');
+    expect(nextOccurrence({ ...rent, endDate: '2026-03-30' }, '2026-03-10')).toBeNull();
+  });
+  it('describes each frequency', () => {
+    expect(describeSchedule({ freq: 'weekly', weekday: 1 })).toBe('Weekly on Monday');
+    expect(describeSchedule({ freq: 'yearly', month: 2, day: 14 })).toBe('Yearly on February 14');
+  });
+});
+
+describe('parseRecurringForm', () => {
+  const base = { ...emptyRecurringForm(new Date(2026, 0, 5)), desc: 'Gym', amount: '50000', category: 'Health' };
+  it('builds the schedule for the chosen frequency', () => {
+    expect(parseRecurringForm(base)?.schedule).toEqual({ freq: 'monthly', day: 5 });
+    expect(parseRecurringForm({ ...base, freq: 'weekly', weekday: '3' })?.schedule).toEqual({ freq: 'weekly', weekday: 3 });
+  });
+  it('rejects missing fields and an end before the start', () => {
+    expect(parseRecurringForm({ ...base, desc: ' ' })).toBeNull();
+    expect(parseRecurringForm({ ...base, category: '' })).toBeNull();
+    expect(parseRecurringForm({ ...base, endDate: '2025-12-31' })).toBeNull();
+    expect(parseRecurringForm({ ...base, day: '32' })).toBeNull();
+  });
+});
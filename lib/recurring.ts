@@ -0,0 +1,91 @@
+import { daysInMonth, isoDate, parseDate } from "./dates";
+import type { ExpenseRow, IncomeRow, RecurringTemplate, Schedule } from "./types";
+
+export type RecurringForm = {
+  type: "income" | "expense"; desc: string; amount: string; category: string; notes: string; accountId: string;
+  freq: Schedule["freq"]; day: string; weekday: string; month: string; startDate: string; endDate: string;
+};
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export function scheduleMatches(s: Schedule, d: Date){
+  if (s.freq === 'weekly') return d.getDay() === s.weekday;
+  if (s.freq === 'monthly') return d.getDate() === Math.min(s.day, daysInMonth(d.getFullYear(), d.getMonth()));
+  return d.getMonth() + 1 === s.month && d.getDate() === Math.min(s.day, daysInMonth(d.getFullYear(), d.getMonth()));
+}
+export function describeSchedule(s: Schedule){
+  if (s.freq === 'weekly') return `Weekly on ${WEEKDAYS[s.weekday]}`;
+  if (s.freq === 'monthly') return `Monthly on day ${s.day}`;
+  return `Yearly on ${MONTHS[s.month - 1]} ${s.day}`;
+}
+export function nextOccurrence(t: RecurringTemplate, today: string){
+  const after = [t.lastRun, today].filter(Boolean).sort().pop() as string;
+  const d = parseDate(t.startDate > after ? t.startDate : after);
+  if (t.startDate <= after) d.setDate(d.getDate() + 1);
+  for (let i = 0; i < 370; i++, d.setDate(d.getDate() + 1)){
+    const iso = isoDate(d);
+    if (t.endDate && iso > t.endDate) return null;
+    if (scheduleMatches(t.schedule, d)) return iso;
+  }
+  return null;
+}
+export function isEnded(t: RecurringTemplate, today: string){ return !!t.endDate && t.endDate <= today; }
+/**
+ * Creates the rows for every occurrence between each active template's lastRun and today.
+ * Rows already carrying the template's id for that date are never recreated.
+ */
+export function runRecurring(templates: RecurringTemplate[], income: IncomeRow[], expenses: ExpenseRow[], today: string){
+  const seen = new Set([...income, ...expenses].filter(r => r.recurringId).map(r => `${r.recurringId}|${r.date}`));
+  const newIncome: IncomeRow[] = [];
+  const newExpenses: ExpenseRow[] = [];
+  const updated = templates.map(t => {
+    if (t.paused || t.startDate > today) return t;
+    const end = t.endDate && t.endDate < today ? t.endDate : today;
+    if (t.lastRun && t.lastRun >= end) return t;
+    const d = parseDate(t.lastRun && t.lastRun >= t.startDate ? t.lastRun : t.startDate);
+    if (t.lastRun && t.lastRun >= t.startDate) d.setDate(d.getDate() + 1);
+    for (; isoDate(d) <= end; d.setDate(d.getDate() + 1)){
+      const date = isoDate(d);
+      if (!scheduleMatches(t.schedule, d) || seen.has(`${t.id}|${date}`)) continue;
+      seen.add(`${t.id}|${date}`);
+      // One id per template and date, so devices that both fill in a due row end up with the same record
+      const id = `${t.id}-${date}`;
+      if (t.type === 'income') newIncome.push({ id, date, category: t.category || 'Other', desc: t.desc, amount: t.amount, notes: t.notes || "", recurringId: t.id, accountId: t.accountId });
+      else newExpenses.push({ id, date, category: t.category || 'Other', desc: t.desc, amount: t.amount, notes: t.notes || "", recurringId: t.id, accountId: t.accountId });
+    }
+    return { ...t, lastRun: end };
+  });
+  return { templates: updated, newIncome, newExpenses };
+}
+export function emptyRecurringForm(t = new Date()): RecurringForm {
+  return { type: 'expense', desc: '', amount: '', category: '', notes: '', accountId: '', freq: 'monthly', day: String(t.getDate()), weekday: String(t.getDay()), month: String(t.getMonth() + 1), startDate: isoDate(t), endDate: '' };
+}
+export function parseRecurringForm(f: RecurringForm): Omit<RecurringTemplate, "id" | "paused" | "lastRun"> | null {
+  const desc = f.desc.trim();
+  const amount = Math.round(Number(f.amount));
+  const category = f.category.trim();
+  const day = Math.round(Number(f.day));
+  const weekday = Number(f.weekday);
+  const month = Number(f.month);
+  if (!desc || !(amount > 0) || !f.startDate) return null;
+  if (!category) return null;
+  if (f.endDate && f.endDate < f.startDate) return null;
+  let schedule: Schedule;
+  if (f.freq === 'weekly'){
+    if (!(weekday >= 0 && weekday <= 6)) return null;
+    schedule = { freq: 'weekly', weekday };
+  } else if (f.freq === 'monthly'){
+    if (!(day >= 1 && day <= 31)) return null;
+    schedule = { freq: 'monthly', day };
+  } else {
+    if (!(month >= 1 && month <= 12) || !(day >= 1 && day <= 31)) return null;
+    schedule = { freq: 'yearly', month, day };
+  }
+  return {
+    type: f.type, desc, amount, notes: f.notes.trim(), schedule, startDate: f.startDate,
+    category,
+    accountId: f.accountId || undefined,
+    endDate: f.endDate || undefined
+  };
+}
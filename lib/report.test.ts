@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { valuer } from "./aggregate";
+import { parseCsv } from "./csv";
+import { DEFAULT_RATES } from "./rates";
+import { buildReport, csvFileName, monthRange, rangeMonth, reportCsv, reportTitle, rowsCsv } from "./report";
+
+const valueAt = valuer('historical', { ...DEFAULT_RATES, USD: 1000 }, []);
+const income = [{ id: 'i1', date: '2026-03-25', category: 'Salary', desc: 'Pay', amount: 3000000, notes: '' }];
+const expenses = [
+  { id: 'e1', date: '2026-03-02', category: 'Food', desc: 'Lunch, with "team"', amount: 20000, notes: '' },
+  { id: 'e2', date: '2026-03-10', category: 'Rent', desc: 'Rent', amount: 1000000, notes: '', accountId: 'bank' },
+  { id: 'e3', date: '2026-03-25', category: 'Food', desc: 'Dinner', amount: 30000, notes: '=SUM(A1)', currency: 'USD' as const, originalAmount: 25, fxRate: 1200 },
+  { id: 'e4', date: '2026-04-01', category: 'Food', desc: 'April', amount: 5000, notes: '' },
+  { id: 'e5', date: '2026-04-02', category: 'Food', desc: 'Market', amount: 30000, notes: '', tags: ['trip-jeju', 'work'], splits: [{ category: 'Food', amount: 20000 }, { category: 'Home', amount: 10000 }] }
+];
+
+describe('ranges', () => {
+  it('recognises whole months', () => {
+    expect(monthRange('2026-02')).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+    expect(rangeMonth(monthRange('2026-02'))).toBe('2026-02');
+    expect(rangeMonth({ from: '2026-02-01', to: '2026-02-27' })).toBe('');
+    expect(reportTitle(monthRange('2026-03'))).toBe('March 2026');
+    expect(reportTitle({ from: '2026-03-05', to: '' })).toBe('2026-03-05 – …');
+    expect(reportTitle({ from: '', to: '' })).toBe('All records');
+  });
+});
+
+describe('buildReport', () => {
+  const report = buildReport(income, expenses, monthRange('2026-03'), valueAt, 2);
+  it('totals the range', () => {
+    expect(report).toMatchObject({ title: 'March 2026', income: 3000000, expense: 1050000, net: 1950000, savingsRate: 0.65 });
+    // USD rows keep their original amount
+    expect(report.expenseUSD).toBeCloseTo(20 + 1000 + 25);
+  });
+  it('breaks expenses down by category, largest first', () => {
+    expect(report.categories.map(c => [c.category, c.krw])).toEqual([['Rent', 1000000], ['Food', 50000]]);
+    expect(report.categories[1].share).toBeCloseTo(50000 / 1050000);
+  });
+  it('lists the top expenses and every row in date order', () => {
+    expect(report.topExpenses.map(l => l.row.id)).toEqual(['e2', 'e3']);
+    expect(report.lines.map(l => l.row.id)).toEqual(['e1', 'e2', 'i1', 'e3']);
+  });
+  it('has no savings rate without income', () => {
+    expect(buildReport([], expenses, monthRange('2026-03'), valueAt).savingsRate).toBeNull();
+  });
+});
+
+describe('CSV export', () => {
+  const accountName = (id?: string) => id === 'bank' ? 'Bank Account' : '';
+  it('writes the shown rows with quoting and formula protection', () => {
+    const rows = parseCsv(rowsCsv([expenses[0], expenses[2]], r => valueAt(r, 'USD'), accountName));
+    expect(rows[0][0]).toBe('Date');
+    expect(rows[1]).toEqual(['2026-03-02', 'Food', 'Lunch, with "team"', '20000', '20.00', 'KRW', '20000', '', '', '', '']);
+    expect(rows[2]).toEqual(['2026-03-25', 'Food', 'Dinner', '30000', '25.00', 'USD', '25', '', "'=SUM(A1)", '', '']);
+  });
+  it('writes tags and split lines', () => {
+    const rows = parseCsv(rowsCsv([expenses[4]], r => valueAt(r, 'USD'), accountName));
+    expect(rows[1].slice(9)).toEqual(['trip-jeju, work', 'Food 20000; Home 10000']);
+  });
+  it('adds a type column and totals to the report export', () => {
+    const rows = parseCsv(reportCsv(buildReport(income, expenses, monthRange('2026-03'), valueAt), accountName));
+    expect(rows.map(r => r[1]).slice(1, 5)).toEqual(['Expense', 'Expense', 'Income', 'Expense']);
+    expect(rows[2][8]).toBe('Bank Account');
+    expect(rows[rows.length - 1]).toEqual(['', 'Net', '', '', '1950000', '1955.00']);
+  });
+  it('names files after the range', () => {
+    expect(csvFileName('report', monthRange('2026-03'))).toBe('budget_report_2026-03-01_2026-03-31.csv');
+    expect(csvFileName('income', { from: '', to: '' }, new Date(2026, 2, 9))).toBe('budget_income_2026-03-09.csv');
+  });
+});
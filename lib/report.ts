@@ -0,0 +1,127 @@
+import { categoryTotals, sumKRW, type Valuer } from "./aggregate";
+import { formatCsv } from "./csv";
+import { inRange, isoDate, monthKey, type DateRange } from "./dates";
+import { rowCurrency, rowOriginal } from "./money";
+import { formatTags } from "./tags";
+import type { ExpenseRow, IncomeRow } from "./types";
+
+/**
+ * The printable report for a month or range, and the CSV exports of the record tables. Amounts are
+ * KRW with USD at the rate stored for each row's date, like the record tables.
+ */
+type Row = IncomeRow | ExpenseRow;
+export type ReportLine = { type: 'income' | 'expense'; row: Row; usd: number };
+export type ReportCategory = { category: string; krw: number; usd: number; share: number };
+export type Report = {
+  range: DateRange;
+  title: string;
+  income: number;
+  expense: number;
+  net: number;
+  incomeUSD: number;
+  expenseUSD: number;
+  netUSD: number;
+  /** Share of income left over, or null without income. */
+  savingsRate: number | null;
+  categories: ReportCategory[];
+  incomeCategories: ReportCategory[];
+  topExpenses: ReportLine[];
+  /** Every income and expense row in the range, oldest first. */
+  lines: ReportLine[];
+};
+
+export const TOP_EXPENSES = 10;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** First and last day of a `YYYY-MM` month. */
+export function monthRange(month: string): DateRange {
+  const [y, m] = month.split('-').map(Number);
+  return { from: isoDate(new Date(y, m - 1, 1)), to: isoDate(new Date(y, m, 0)) };
+}
+
+/** The `YYYY-MM` month a range covers exactly, or '' when it is anything else. */
+export function rangeMonth(range: DateRange){
+  const month = monthKey(range.from);
+  if (!month) return '';
+  const whole = monthRange(month);
+  return whole.from === range.from && whole.to === range.to ? month : '';
+}
+
+/** "March 2026" for a whole calendar month, otherwise the bounds. */
+export function reportTitle(range: DateRange){
+  if (!range.from && !range.to) return 'All records';
+  const month = rangeMonth(range);
+  if (month){
+    const [y, m] = month.split('-').map(Number);
+    return `${MONTH_NAMES[m - 1]} ${y}`;
+  }
+  return `${range.from || '…'} – ${range.to || '…'}`;
+}
+
+function breakdown(rows: Row[], valueAt: Valuer, total: number): ReportCategory[] {
+  return Object.entries(categoryTotals(rows, valueAt))
+    .map(([category, t]) => ({ category, krw: t.krw, usd: t.usd, share: total ? t.krw / total : 0 }))
+    .sort((a, b) => b.krw - a.krw);
+}
+
+export function buildReport(income: IncomeRow[], expenses: ExpenseRow[], range: DateRange, valueAt: Valuer, top = TOP_EXPENSES): Report {
+  const inc = income.filter(r => inRange(r.date, range));
+  const exp = expenses.filter(r => inRange(r.date, range));
+  const line = (type: ReportLine['type']) => (row: Row): ReportLine => ({ type, row, usd: valueAt(row, 'USD') });
+  const incomeLines = inc.map(line('income'));
+  const expenseLines = exp.map(line('expense'));
+  const incomeKRW = sumKRW(inc);
+  const expenseKRW = sumKRW(exp);
+  const incomeUSD = incomeLines.reduce((s, l) => s + l.usd, 0);
+  const expenseUSD = expenseLines.reduce((s, l) => s + l.usd, 0);
+  return {
+    range,
+    title: reportTitle(range),
+    income: incomeKRW,
+    expense: expenseKRW,
+    net: incomeKRW - expenseKRW,
+    incomeUSD,
+    expenseUSD,
+    netUSD: incomeUSD - expenseUSD,
+    savingsRate: incomeKRW > 0 ? (incomeKRW - expenseKRW) / incomeKRW : null,
+    categories: breakdown(exp, valueAt, expenseKRW),
+    incomeCategories: breakdown(inc, valueAt, incomeKRW),
+    topExpenses: [...expenseLines].sort((a, b) => b.row.amount - a.row.amount || a.row.date.localeCompare(b.row.date)).slice(0, top),
+    // Income before expenses on the same day, each in the order it was entered
+    lines: [...incomeLines, ...expenseLines].sort((a, b) => a.row.date.localeCompare(b.row.date))
+  };
+}
+
+const usdCell = (usd: number) => usd.toFixed(2);
+/** Split lines as `Food 20000; Shopping 10000` (KRW), blank for a row in one category. */
+const splitsCell = (r: Row) => 'splits' in r && r.splits?.length ? r.splits.map(l => `${l.category} ${l.amount}`).join('; ') : '';
+
+/**
+ * A record table as CSV, in the order given (the table's filtered and sorted rows). Amounts are
+ * plain numbers so spreadsheets can add them up.
+ */
+export function rowsCsv(rows: Row[], usdOf: (r: Row) => number, accountName: (id?: string) => string){
+  return formatCsv([
+    ['Date', 'Category', 'Description', 'Amount (KRW)', 'Amount (USD)', 'Currency', 'Original Amount', 'Account', 'Notes', 'Tags', 'Splits'],
+    ...rows.map(r => [r.date, r.category, r.desc, r.amount, usdCell(usdOf(r)), rowCurrency(r), rowOriginal(r), accountName(r.accountId), r.notes || '', formatTags(r.tags), splitsCell(r)])
+  ]);
+}
+
+/** The report's transaction list as CSV, with a Type column and the totals last. */
+export function reportCsv(report: Report, accountName: (id?: string) => string){
+  return formatCsv([
+    ['Date', 'Type', 'Category', 'Description', 'Amount (KRW)', 'Amount (USD)', 'Currency', 'Original Amount', 'Account', 'Notes', 'Tags', 'Splits'],
+    ...report.lines.map(({ type, row, usd }) => [row.date, type === 'income' ? 'Income' : 'Expense', row.category, row.desc, row.amount, usdCell(usd), rowCurrency(row), rowOriginal(row), accountName(row.accountId), row.notes || '', formatTags(row.tags), splitsCell(row)]),
+    [],
+    ['', 'Total income', '', '', report.income, usdCell(report.incomeUSD)],
+    ['', 'Total expenses', '', '', report.expense, usdCell(report.expenseUSD)],
+    ['', 'Net', '', '', report.net, usdCell(report.netUSD)]
+  ]);
+}
+
+/** `budget_<name>_<from>_<to>.csv`, or with today's date when the range is open. */
+export function csvFileName(name: string, range: DateRange, now = new Date()){
+  const span = range.from || range.to ? `${range.from || 'start'}_${range.to || isoDate(now)}` : isoDate(now);
+  return `budget_${name}_${span}.csv`;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { SCHEMA_VERSION, migrate, parseExportFile, validateData } from "./schema";
+
+describe('migrate', () => {
+  it('upgrades version 1 exports', () => {
+    const { data, from } = migrate({ income: [{ id: 1, date: '2024-01-01', desc: ' Pay ', amount: '100.6' }], expenses: [{ date: '2024-01-02', desc: 'Food', amount: 5 }] });
+    expect(from).toBe(1);
+    expect(data.version).toBe(SCHEMA_VERSION);
+    expect(data.income[0]).toMatchObject({ id: '1', desc: 'Pay', amount: 101, category: 'Other' });
+    expect(data.expenses[0].category).toBe('Other');
+    expect(typeof data.expenses[0].id).toBe('string');
+  });
+  it('carries version 3 data over unchanged', () => {
+    const v3 = { version: 3, income: [], expenses: [{ id: 'a', date: '2026-02-01', category: 'Food', desc: 'x', amount: 5 }] };
+    expect(migrate(v3)).toEqual({ data: { ...v3, version: 4 }, from: 3 });
+  });
+  it('refuses data from a newer version', () => {
+    expect(() => migrate({ version: SCHEMA_VERSION + 1 })).toThrow(/newer version/);
+  });
+});
+
+describe('validateData', () => {
+  it('drops invalid rows and says which and why', () => {
+    const { data, errors } = validateData({
+      version: SCHEMA_VERSION,
+      income: [],
+      expenses: [
+        { id: 'a', date: '2026-02-30', category: 'Food', desc: 'x', amount: 5 },
+        { id: 'b', date: '2026-02-01', category: 'Food', desc: 'y', amount: 5, receipts: ['r1'] },
+        { id: 'c', date: '2026-02-01', category: 'Food', desc: 'z', amount: 5, receipts: 'r1' },
+        { id: 'd', date: '2026-02-01', category: 'Food', desc: 'w', amount: 5, tags: ['Trip'] },
+        { id: 'e', date: '2026-02-01', category: 'Food', desc: 'v', amount: 5, splits: [{ category: 'Food', amount: 2 }, { category: 'Home', amount: 2 }] }
+      ]
+    });
+    expect(data.expenses.map(e => e.id)).toEqual(['b']);
+    expect(errors).toEqual([
+      'expense row 1: invalid date "2026-02-30"', 'expense row 3: receipts must be a list of ids',
+      'expense row 4: tags must be a list of lowercase names', 'expense row 5: split lines add up to 4, not 5'
+    ]);
+  });
+  it('lists every category a row uses', () => {
+    const split = { id: 'b', date: '2026-02-01', category: 'Food', desc: 'y', amount: 5, splits: [{ category: 'Food', amount: 3 }, { category: 'Home', amount: 2 }] };
+    const { data } = validateData({ version: SCHEMA_VERSION, income: [], expenses: [{ id: 'a', date: '2026-02-01', category: 'Pets', desc: 'x', amount: 5 }, split], categories: ['Food'] });
+    expect(data.categories).toEqual(['Food', 'Pets', 'Home']);
+  });
+});
+
+describe('parseExportFile', () => {
+  it('rejects a file with any invalid row', () => {
+    const result = parseExportFile({ version: SCHEMA_VERSION, income: [{ id: 'a' }], expenses: [] });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toMatch(/^income row 1: /);
+  });
+  it('rejects anything that is not an export', () => {
+    expect(parseExportFile([])).toEqual({ ok: false, errors: ['file is not a JSON object'] });
+  });
+});
@@ -0,0 +1,378 @@
+import { DEFAULT_ACCOUNTS, normalizeAccounts } from "./accounts";
+import { normalizeCategoryStyles } from "./categories";
+import { uid } from "./ids";
+import { rowCategories, splitErrors } from "./splits";
+import { tagErrors } from "./tags";
+import { isCurrency, normalizeHistory, normalizeRates, type Currency, type RateHistory, type Rates } from "./rates";
+import type { Account, BudgetSettings, CategoryStyle, ExpenseRow, IncomeRow, Loan, RecurringTemplate, SavingsGoal, Transfer } from "./types";
+
+/**
+ * Version of the persisted/exported data shape.
+ *  1 — original format: unversioned localStorage, loosely typed rows.
+ *  2 — rows carry string ids, integer KRW amounts and string notes; budgets and recurring are always present.
+ *  3 — income rows and income templates carry a category, with a separate income category list.
+ *  4 — loans, accounts and transfers, savings goals, receipts, tags and split rows. All are optional,
+ *      so older data needs no change, but a split row's `category` is only its first line, which
+ *      builds before 4 would read as the whole amount.
+ */
+export const SCHEMA_VERSION = 4;
+
+export const DEFAULT_CATEGORIES = [
+  'Room and Utility',
+  'Daily Expense',
+  'Borrow Others',
+  'Food & Drinks',
+  'Transportation',
+  'Entertainment',
+  'Shopping',
+  'Other'
+] as const;
+export const DEFAULT_INCOME_CATEGORIES = [
+  'Salary',
+  'Freelance',
+  'Refunds',
+  'Borrow Others',
+  'Gifts',
+  'Other'
+] as const;
+export const DEFAULT_WARN_AT = 80;
+
+/** The ledger itself, as persisted by the storage layer (`lib/storage.ts`). */
+export type BudgetData = {
+  version: number;
+  income: IncomeRow[];
+  expenses: ExpenseRow[];
+  categories: string[];
+  categoryStyles: Record<string, CategoryStyle>;
+  incomeCategories: string[];
+  incomeCategoryStyles: Record<string, CategoryStyle>;
+  budgets: BudgetSettings;
+  recurring: RecurringTemplate[];
+  loans: Loan[];
+  accounts: Account[];
+  transfers: Transfer[];
+  goals: SavingsGoal[];
+};
+/** An exportJSON file: the ledger plus the exchange-rate settings. */
+export type ExportFile = BudgetData & {
+  exportedAt?: string;
+  rate?: number;
+  rates?: Rates;
+  rateHistory?: RateHistory;
+  displayCurrency?: Currency;
+};
+
+/** localStorage keys the ledger was kept under before the IndexedDB storage layer; read once to migrate. */
+export const STORAGE_KEYS = {
+  version: 'budget_schema_version',
+  income: 'budget_income',
+  expenses: 'budget_expenses',
+  categories: 'budget_categories',
+  categoryStyles: 'budget_category_styles',
+  incomeCategories: 'budget_income_categories',
+  incomeCategoryStyles: 'budget_income_category_styles',
+  budgets: 'budget_limits',
+  recurring: 'budget_recurring',
+  loans: 'budget_loans',
+  accounts: 'budget_accounts',
+  transfers: 'budget_transfers',
+  goals: 'budget_goals',
+  restorePoints: 'budget_restore_points',
+  backup: 'budget_backup'
+} as const;
+
+type KeyValueStore = Pick<Storage, 'getItem' | 'setItem'>;
+
+export function isIsoDate(v: unknown): v is string {
+  if (typeof v !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+  const [y, m, d] = v.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
+}
+
+const isObject = (x: unknown): x is Record<string, any> => !!x && typeof x === 'object' && !Array.isArray(x);
+const show = (v: unknown) => JSON.stringify(v) ?? String(v);
+
+function baseRowErrors(x: Record<string, any>): string[] {
+  const errors: string[] = [];
+  if (typeof x.id !== 'string' || !x.id) errors.push('missing id');
+  if (!isIsoDate(x.date)) errors.push(`invalid date ${show(x.date)}`);
+  if (typeof x.desc !== 'string' || !x.desc.trim()) errors.push('missing description');
+  if (typeof x.amount !== 'number' || !Number.isInteger(x.amount) || x.amount <= 0) errors.push(`invalid amount ${show(x.amount)}`);
+  if (x.notes != null && typeof x.notes !== 'string') errors.push('notes must be text');
+  if (x.recurringId != null && typeof x.recurringId !== 'string') errors.push('invalid recurringId');
+  if (x.accountId != null && typeof x.accountId !== 'string') errors.push('invalid accountId');
+  if (x.tags != null) errors.push(...tagErrors(x.tags));
+  if (x.currency != null){
+    if (!isCurrency(x.currency)) errors.push(`unknown currency ${show(x.currency)}`);
+    else if (x.currency !== 'KRW'){
+      if (!(Number(x.originalAmount) > 0)) errors.push(`invalid originalAmount ${show(x.originalAmount)}`);
+      if (!(Number(x.fxRate) > 0)) errors.push(`invalid fxRate ${show(x.fxRate)}`);
+    }
+  }
+  return errors;
+}
+
+function categorizedRowErrors(x: unknown): string[] {
+  if (!isObject(x)) return ['not an object'];
+  const errors = baseRowErrors(x);
+  if (typeof x.category !== 'string' || !x.category.trim()) errors.push('missing category');
+  return errors;
+}
+export function incomeRowErrors(x: unknown): string[] { return categorizedRowErrors(x); }
+export function expenseRowErrors(x: unknown): string[] {
+  const errors = categorizedRowErrors(x);
+  const receipts = isObject(x) ? x.receipts : undefined;
+  if (receipts != null && !(Array.isArray(receipts) && receipts.every(r => typeof r === 'string' && r))) errors.push('receipts must be a list of ids');
+  if (isObject(x) && x.splits != null) errors.push(...splitErrors(x.splits, x.amount));
+  return errors;
+}
+export function loanErrors(x: unknown): string[] {
+  if (!isObject(x)) return ['not an object'];
+  const errors: string[] = [];
+  const amountOk = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v > 0;
+  if (typeof x.id !== 'string' || !x.id) errors.push('missing id');
+  if (typeof x.person !== 'string' || !x.person.trim()) errors.push('missing person');
+  if (x.direction !== 'lent' && x.direction !== 'borrowed') errors.push(`invalid direction ${show(x.direction)}`);
+  if (!isIsoDate(x.date)) errors.push(`invalid date ${show(x.date)}`);
+  if (!amountOk(x.amount)) errors.push(`invalid amount ${show(x.amount)}`);
+  if (x.rowId != null && typeof x.rowId !== 'string') errors.push('invalid rowId');
+  if (!Array.isArray(x.repayments)) errors.push('repayments: expected a list');
+  else x.repayments.forEach((r: unknown, i: number) => {
+    if (!isObject(r) || typeof r.id !== 'string' || !r.id) errors.push(`repayment ${i + 1}: missing id`);
+    else if (!isIsoDate(r.date)) errors.push(`repayment ${i + 1}: invalid date ${show(r.date)}`);
+    else if (!amountOk(r.amount)) errors.push(`repayment ${i + 1}: invalid amount ${show(r.amount)}`);
+  });
+  return errors;
+}
+
+export function transferErrors(x: unknown): string[] {
+  if (!isObject(x)) return ['not an object'];
+  const errors: string[] = [];
+  if (typeof x.id !== 'string' || !x.id) errors.push('missing id');
+  if (!isIsoDate(x.date)) errors.push(`invalid date ${show(x.date)}`);
+  if (typeof x.from !== 'string' || !x.from || typeof x.to !== 'string' || !x.to) errors.push('missing account');
+  else if (x.from === x.to) errors.push('from and to are the same account');
+  if (typeof x.amount !== 'number' || !Number.isInteger(x.amount) || x.amount <= 0) errors.push(`invalid amount ${show(x.amount)}`);
+  return errors;
+}
+
+export function goalErrors(x: unknown): string[] {
+  if (!isObject(x)) return ['not an object'];
+  const errors: string[] = [];
+  const amountOk = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+  if (typeof x.id !== 'string' || !x.id) errors.push('missing id');
+  if (typeof x.name !== 'string' || !x.name.trim()) errors.push('missing name');
+  if (x.currency !== 'KRW' && x.currency !== 'USD') errors.push(`invalid currency ${show(x.currency)}`);
+  if (!amountOk(x.target)) errors.push(`invalid target ${show(x.target)}`);
+  if (!isIsoDate(x.deadline)) errors.push(`invalid deadline ${show(x.deadline)}`);
+  if (!Array.isArray(x.entries)) errors.push('entries: expected a list');
+  else x.entries.forEach((e: unknown, i: number) => {
+    if (!isObject(e) || typeof e.id !== 'string' || !e.id) errors.push(`entry ${i + 1}: missing id`);
+    else if (!isIsoDate(e.date)) errors.push(`entry ${i + 1}: invalid date ${show(e.date)}`);
+    else if (!amountOk(e.amount)) errors.push(`entry ${i + 1}: invalid amount ${show(e.amount)}`);
+    else if (e.kind !== 'allocation' && e.kind !== 'contribution') errors.push(`entry ${i + 1}: invalid kind ${show(e.kind)}`);
+  });
+  return errors;
+}
+
+export function isIncomeRow(x: unknown): x is IncomeRow { return incomeRowErrors(x).length === 0; }
+export function isExpenseRow(x: unknown): x is ExpenseRow { return expenseRowErrors(x).length === 0; }
+
+export function normalizeBudgets(raw: any): BudgetSettings {
+  const limits: Record<string, number> = {};
+  if (raw && typeof raw.limits === 'object' && raw.limits){
+    for (const [cat, v] of Object.entries(raw.limits)){
+      const n = Math.round(Number(v));
+      if (Number.isFinite(n) && n > 0) limits[cat] = n;
+    }
+  }
+  const warn = Number(raw?.warnAt);
+  const warnAt = Number.isFinite(warn) && warn > 0 && warn <= 100 ? warn : DEFAULT_WARN_AT;
+  return { limits, warnAt };
+}
+
+export function normalizeTemplates(raw: any): RecurringTemplate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((t:any) => t && t.schedule && ['monthly','weekly','yearly'].includes(t.schedule.freq) && t.startDate).map((t:any) => ({
+    id: String(t.id || uid()),
+    type: t.type === 'income' ? 'income' : 'expense',
+    desc: String(t.desc || ''),
+    amount: Math.max(0, Math.round(Number(t.amount || 0))),
+    category: String(t.category || 'Other'),
+    notes: String(t.notes || ''),
+    accountId: typeof t.accountId === 'string' && t.accountId ? t.accountId : undefined,
+    schedule: t.schedule.freq === 'weekly' ? { freq: 'weekly', weekday: Number(t.schedule.weekday) || 0 }
+      : t.schedule.freq === 'monthly' ? { freq: 'monthly', day: Number(t.schedule.day) || 1 }
+      : { freq: 'yearly', month: Number(t.schedule.month) || 1, day: Number(t.schedule.day) || 1 },
+    startDate: String(t.startDate),
+    endDate: t.endDate ? String(t.endDate) : undefined,
+    paused: !!t.paused,
+    lastRun: t.lastRun ? String(t.lastRun) : undefined
+  }));
+}
+
+// Migrations. MIGRATIONS[n] upgrades data at version n to version n + 1; append one per shape change.
+// Unknown fields are carried through untouched so data from newer builds survives a round trip.
+type Migration = (data: Record<string, any>) => Record<string, any>;
+const MIGRATIONS: Record<number, Migration> = {
+  1: (d) => {
+    const row = (n: any) => isObject(n) ? {
+      ...n,
+      id: n.id ? String(n.id) : uid(),
+      date: n.date == null ? '' : String(n.date),
+      desc: n.desc == null ? '' : String(n.desc).trim(),
+      amount: Math.round(Number(n.amount)),
+      notes: n.notes == null ? '' : String(n.notes)
+    } : n;
+    return {
+      ...d,
+      version: 2,
+      income: Array.isArray(d.income) ? d.income.map(row) : [],
+      expenses: Array.isArray(d.expenses) ? d.expenses.map((n: any) => isObject(n) ? { ...row(n), category: n.category ? String(n.category) : 'Other' } : n) : [],
+      budgets: d.budgets ?? {},
+      recurring: d.recurring ?? []
+    };
+  },
+  2: (d) => ({
+    ...d,
+    version: 3,
+    income: Array.isArray(d.income) ? d.income.map((n: any) => isObject(n) && !n.category ? { ...n, category: 'Other' } : n) : d.income,
+    recurring: Array.isArray(d.recurring) ? d.recurring.map((t: any) => isObject(t) && !t.category ? { ...t, category: 'Other' } : t) : d.recurring
+  }),
+  // Only new optional fields; the bump makes older builds refuse data they would misread
+  3: (d) => ({ ...d, version: 4 })
+};
+
+export function detectVersion(raw: Record<string, any>){
+  const v = Number(raw.version);
+  return Number.isInteger(v) && v >= 1 ? v : 1;
+}
+
+/** Runs every migration from the data's version up to SCHEMA_VERSION. */
+export function migrate(raw: Record<string, any>): { data: Record<string, any>; from: number } {
+  const from = detectVersion(raw);
+  if (from > SCHEMA_VERSION) throw new Error(`Data is from a newer version (schema ${from}); this app reads up to ${SCHEMA_VERSION}.`);
+  let data = raw;
+  for (let v = from; v < SCHEMA_VERSION; v++) data = MIGRATIONS[v](data);
+  return { data, from };
+}
+
+/** Validates current-version data. Invalid rows are left out and reported as "income row 14: invalid date …". */
+export function validateData(data: Record<string, any>): { data: BudgetData; errors: string[] } {
+  const errors: string[] = [];
+  const pick = <T,>(label: string, list: unknown, check: (x: unknown) => string[]): T[] => {
+    if (!Array.isArray(list)) { errors.push(`${label}: expected a list`); return []; }
+    return list.filter((x, i) => {
+      const problems = check(x);
+      for (const p of problems) errors.push(`${label} row ${i + 1}: ${p}`);
+      return !problems.length;
+    }) as T[];
+  };
+  const income = pick<IncomeRow>('income', data.income, incomeRowErrors);
+  const expenses = pick<ExpenseRow>('expense', data.expenses, expenseRowErrors);
+  const loans = pick<Loan>('loan', data.loans ?? [], loanErrors);
+  const transfers = pick<Transfer>('transfer', data.transfers ?? [], transferErrors);
+  const goals = pick<SavingsGoal>('goal', data.goals ?? [], goalErrors);
+  const stored = normalizeAccounts(data.accounts);
+  const accounts = stored.length ? stored : DEFAULT_ACCOUNTS.map(a => ({ ...a }));
+  // Names used by rows are always listed, so no row points at a missing category
+  const names = (label: string, list: unknown, defaults: readonly string[], used: string[]) => {
+    const out: string[] = [];
+    if (list != null && !Array.isArray(list)) errors.push(`${label}: expected a list`);
+    else {
+      (list as unknown[] || []).forEach((c, i) => {
+        if (typeof c === 'string' && c.trim()) out.push(c);
+        else errors.push(`${label.replace(/ies$/, 'y')} ${i + 1}: invalid name ${show(c)}`);
+      });
+    }
+    return Array.from(new Set([...(out.length ? out : defaults), ...used]));
+  };
+  const categories = names('categories', data.categories, DEFAULT_CATEGORIES, expenses.flatMap(rowCategories));
+  const incomeCategories = names('income categories', data.incomeCategories, DEFAULT_INCOME_CATEGORIES, income.map(r => r.category));
+  return {
+    data: {
+      version: SCHEMA_VERSION, income, expenses, categories, categoryStyles: normalizeCategoryStyles(data.categoryStyles),
+      incomeCategories, incomeCategoryStyles: normalizeCategoryStyles(data.incomeCategoryStyles),
+      budgets: normalizeBudgets(data.budgets), recurring: normalizeTemplates(data.recurring), loans,
+      accounts, transfers, goals
+    },
+    errors
+  };
+}
+
+/** Parses an exportJSON file. Any field-level error rejects the whole file so nothing is half-imported. */
+export function parseExportFile(raw: unknown): { ok: true; data: ExportFile; migratedFrom: number } | { ok: false; errors: string[] } {
+  if (!isObject(raw)) return { ok: false, errors: ['file is not a JSON object'] };
+  if (!Array.isArray(raw.income) || !Array.isArray(raw.expenses)) return { ok: false, errors: ['missing income/expenses arrays'] };
+  let migrated;
+  try {
+    migrated = migrate(raw);
+  } catch (err: any) {
+    return { ok: false, errors: [err.message] };
+  }
+  const { data, errors } = validateData(migrated.data);
+  if (errors.length) return { ok: false, errors };
+  const rate = Number(raw.rate);
+  return {
+    ok: true,
+    migratedFrom: migrated.from,
+    data: {
+      ...data,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : undefined,
+      rate: Number.isFinite(rate) && rate > 0 ? rate : undefined,
+      rates: raw.rates ? normalizeRates(raw.rates) : (rate > 0 ? normalizeRates({ USD: rate }) : undefined),
+      rateHistory: Array.isArray(raw.rateHistory) ? normalizeHistory(raw.rateHistory) : undefined,
+      displayCurrency: isCurrency(raw.displayCurrency) ? raw.displayCurrency : undefined
+    }
+  };
+}
+
+/**
+ * Reads the ledger from the old localStorage keys, migrating older shapes. Unreadable values and invalid rows are
+ * left out of the result, and the raw stored values are copied to STORAGE_KEYS.backup first.
+ */
+export function loadStored(store: KeyValueStore): { data: BudgetData; errors: string[]; migratedFrom: number } {
+  const errors: string[] = [];
+  const rawValues: Record<string, string | null> = {};
+  const read = (key: string, fallback: unknown) => {
+    const text = store.getItem(key);
+    rawValues[key] = text;
+    if (text == null) return fallback;
+    try {
+      return JSON.parse(text);
+    } catch {
+      errors.push(`${key}: stored value is not valid JSON`);
+      return fallback;
+    }
+  };
+  const raw = {
+    version: Number(store.getItem(STORAGE_KEYS.version)) || 1,
+    income: read(STORAGE_KEYS.income, []),
+    expenses: read(STORAGE_KEYS.expenses, []),
+    categories: read(STORAGE_KEYS.categories, []),
+    categoryStyles: read(STORAGE_KEYS.categoryStyles, {}),
+    incomeCategories: read(STORAGE_KEYS.incomeCategories, []),
+    incomeCategoryStyles: read(STORAGE_KEYS.incomeCategoryStyles, {}),
+    budgets: read(STORAGE_KEYS.budgets, {}),
+    recurring: read(STORAGE_KEYS.recurring, []),
+    loans: read(STORAGE_KEYS.loans, []),
+    accounts: read(STORAGE_KEYS.accounts, []),
+    transfers: read(STORAGE_KEYS.transfers, []),
+    goals: read(STORAGE_KEYS.goals, [])
+  };
+  let migrated: { data: Record<string, any>; from: number };
+  try {
+    migrated = migrate(raw);
+  } catch (err: any) {
+    errors.push(err.message);
+    migrated = { data: { ...raw, income: [], expenses: [], categories: [], incomeCategories: [], version: SCHEMA_VERSION }, from: raw.version };
+  }
+  const result = validateData(migrated.data);
+  errors.push(...result.errors);
+  if (errors.length || migrated.from < SCHEMA_VERSION){
+    const hasData = Object.values(rawValues).some(v => v != null);
+    if (hasData) store.setItem(STORAGE_KEYS.backup, JSON.stringify({ savedAt: new Date().toISOString(), version: raw.version, values: rawValues }));
+  }
+  return { data: result.data, errors, migratedFrom: migrated.from };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { categoryLines, parseSplits, renameInRow, rowCategories, splitErrors, splitForm, unassigned } from "./splits";
+
+const lines = (...pairs: [string, string][]) => pairs.map(([category, amount]) => ({ category, amount }));
+const split = {
+  id: 'a', date: '2026-03-02', category: 'Food', desc: 'Market', amount: 30000,
+  splits: [{ category: 'Food', amount: 20000 }, { category: 'Home', amount: 10000 }]
+};
+
+describe('parseSplits', () => {
+  it('treats no lines as no split and a single line as invalid', () => {
+    expect(parseSplits([], '30000', 'KRW', 30000)).toEqual([]);
+    expect(parseSplits(lines(['', ' ']), '30000', 'KRW', 30000)).toEqual([]);
+    expect(parseSplits(lines(['Food', '30000']), '30000', 'KRW', 30000)).toBeNull();
+  });
+  it('needs lines that add up to the total', () => {
+    expect(unassigned(lines(['Food', '20000'], ['Home', '5000']), '30000', 'KRW')).toBe(5000);
+    expect(parseSplits(lines(['Food', '20000'], ['Home', '5000']), '30000', 'KRW', 30000)).toBeNull();
+    expect(parseSplits(lines(['Food', '20000'], ['', '10000']), '30000', 'KRW', 30000)).toBeNull();
+    expect(parseSplits(lines(['Food', '20000'], ['Home', '10000']), '30000', 'KRW', 30000)).toEqual(split.splits);
+  });
+  it('stores foreign currency lines in KRW, rounding onto the last line', () => {
+    expect(unassigned(lines(['Food', '10.10'], ['Home', '10.20']), '20.30', 'USD')).toBe(0);
+    expect(parseSplits(lines(['Food', '10'], ['Home', '10'], ['Fun', '10']), '30', 'USD', 40001)).toEqual([
+      { category: 'Food', amount: 13334 }, { category: 'Home', amount: 13334 }, { category: 'Fun', amount: 13333 }
+    ]);
+  });
+});
+
+describe('split rows', () => {
+  it('count toward each line\'s category', () => {
+    expect(categoryLines(split)).toBe(split.splits);
+    expect(categoryLines({ category: 'Fun', amount: 5000 })).toEqual([{ category: 'Fun', amount: 5000 }]);
+    expect(rowCategories({ ...split, splits: [...split.splits, { category: 'Food', amount: 1 }] })).toEqual(['Food', 'Home']);
+  });
+  it('go back into the editor in the currency they were typed in', () => {
+    expect(splitForm(split)).toEqual(lines(['Food', '20000'], ['Home', '10000']));
+    const usd = { ...split, amount: 42000, currency: 'USD' as const, originalAmount: 30, fxRate: 1400, splits: [{ category: 'Food', amount: 28000 }, { category: 'Home', amount: 14000 }] };
+    expect(splitForm(usd)).toEqual(lines(['Food', '20'], ['Home', '10']));
+    expect(splitForm({ ...split, splits: undefined })).toEqual([]);
+  });
+  it('rename a category in every line', () => {
+    expect(renameInRow(split, 'Home', 'Household')).toMatchObject({ category: 'Food', splits: [{ category: 'Food' }, { category: 'Household' }] });
+    expect(renameInRow(split, 'Fun', 'Leisure')).toBe(split);
+  });
+  it('are validated on import', () => {
+    expect(splitErrors(split.splits, 30000)).toEqual([]);
+    expect(splitErrors(split.splits, 25000)).toEqual(['split lines add up to 30000, not 25000']);
+    expect(splitErrors([{ category: 'Food', amount: 1 }], 1)).toEqual(['a split needs at least two lines']);
+    expect(splitErrors([{ category: '', amount: 1 }, { category: 'Home', amount: 1.5 }], 2.5)).toHaveLength(2);
+  });
+});
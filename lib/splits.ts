@@ -0,0 +1,81 @@
+import { CURRENCY_DECIMALS, rowCurrency, rowOriginal } from "./money";
+import type { Currency } from "./rates";
+import type { ExpenseRow, SplitLine } from "./types";
+
+/**
+ * Split expenses: one row divided into category lines whose KRW amounts add up to the row's
+ * amount. The row's own `category` is the first line's, so sorting and anything else that wants a
+ * single category keeps working; totals per category go through `categoryLines`.
+ */
+export type SplitForm = { category: string; amount: string };
+type Splittable = { category: string; amount: number; splits?: SplitLine[] };
+
+/** The category lines a row counts toward: its splits, or the whole amount in its category. */
+export function categoryLines(r: Splittable): SplitLine[] {
+  return r.splits?.length ? r.splits : [{ category: r.category, amount: Number(r.amount || 0) }];
+}
+/** Every category a row uses, once each. */
+export function rowCategories(r: Splittable): string[] {
+  return Array.from(new Set(categoryLines(r).map(l => l.category)));
+}
+
+const isObject = (x: unknown): x is Record<string, unknown> => !!x && typeof x === 'object' && !Array.isArray(x);
+
+export function splitErrors(splits: unknown, amount: unknown): string[] {
+  if (!Array.isArray(splits)) return ['splits must be a list'];
+  if (splits.length < 2) return ['a split needs at least two lines'];
+  const errors: string[] = [];
+  splits.forEach((l: unknown, i) => {
+    if (!isObject(l) || typeof l.category !== 'string' || !l.category.trim()) errors.push(`split line ${i + 1}: missing category`);
+    else if (typeof l.amount !== 'number' || !Number.isInteger(l.amount) || l.amount <= 0) errors.push(`split line ${i + 1}: invalid amount ${JSON.stringify(l.amount)}`);
+  });
+  const sum = splits.reduce((s: number, l: unknown) => s + (isObject(l) ? Number(l.amount) || 0 : 0), 0);
+  if (!errors.length && sum !== amount) errors.push(`split lines add up to ${sum}, not ${amount}`);
+  return errors;
+}
+
+const round = (n: number, currency: Currency) => Number(n.toFixed(CURRENCY_DECIMALS[currency]));
+
+/** How much of the typed total is not assigned to a line yet, in the row's currency. */
+export function unassigned(lines: SplitForm[], total: string, currency: Currency){
+  return round(Number(total || 0) - lines.reduce((s, l) => s + (Number(l.amount) || 0), 0), currency);
+}
+
+/**
+ * Reads the split editor. Lines are typed in the row's currency and must add up to the typed total;
+ * they are stored in KRW in proportion to `amountKRW`, with any rounding left on the last line.
+ * Blank lines are ignored; no lines at all means no split (`[]`). null when anything is invalid,
+ * including a single line.
+ */
+export function parseSplits(lines: SplitForm[], total: string, currency: Currency, amountKRW: number): SplitLine[] | null {
+  const filled = lines.filter(l => l.category.trim() || l.amount.trim());
+  if (!filled.length) return [];
+  if (filled.length < 2) return null;
+  const typed = filled.map(l => ({ category: l.category.trim(), amount: Number(l.amount) }));
+  if (typed.some(l => !l.category || !Number.isFinite(l.amount) || l.amount <= 0)) return null;
+  if (unassigned(lines, total, currency) !== 0) return null;
+  const sum = typed.reduce((s, l) => s + l.amount, 0);
+  const out = typed.map(l => ({ category: l.category, amount: Math.round(l.amount / sum * amountKRW) }));
+  out[out.length - 1].amount = amountKRW - out.slice(0, -1).reduce((s, l) => s + l.amount, 0);
+  return out.every(l => l.amount > 0) ? out : null;
+}
+
+/** The split editor's lines for a row, in the currency it was entered in. */
+export function splitForm(row: ExpenseRow): SplitForm[] {
+  if (!row.splits?.length) return [];
+  const currency = rowCurrency(row);
+  if (currency === 'KRW') return row.splits.map(l => ({ category: l.category, amount: String(l.amount) }));
+  const original = rowOriginal(row);
+  const lines = row.splits.map(l => ({ category: l.category, amount: round(l.amount / row.amount * original, currency) }));
+  // Keep the typed total exact after rounding each line
+  lines[lines.length - 1].amount = round(original - lines.slice(0, -1).reduce((s, l) => s + l.amount, 0), currency);
+  return lines.map(l => ({ category: l.category, amount: String(l.amount) }));
+}
+
+/** Renames a category in a row and its split lines; rows that do not use it are returned as they are. */
+export function renameInRow<T extends Splittable>(row: T, from: string, to: string): T {
+  if (!rowCategories(row).includes(from)) return row;
+  const next = { ...row, category: row.category === from ? to : row.category };
+  if (row.splits?.length) next.splits = row.splits.map(l => l.category === from ? { ...l, category: to } : l);
+  return next;
+}
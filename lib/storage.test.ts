@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { emptyLedger } from "./ledger";
+import { SCHEMA_VERSION, STORAGE_KEYS, type BudgetData } from "./schema";
+import { createMemoryRepository, diffLedger, isEmptyChange, openLedger } from "./storage";
+
+function fakeLocalStorage(values: Record<string, string> = {}){
+  const map = new Map(Object.entries(values));
+  return {
+    map,
+    getItem: (k: string) => map.get(k) ?? null,
+    setItem: (k: string, v: string) => { map.set(k, v); },
+    removeItem: (k: string) => { map.delete(k); }
+  };
+}
+const ledger = (patch: Partial<BudgetData> = {}): BudgetData => ({ version: SCHEMA_VERSION, ...emptyLedger(), ...patch });
+const lunch = { id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000, notes: '' };
+
+describe('diffLedger', () => {
+  it('writes only the items that changed', () => {
+    const before = ledger({ expenses: [lunch] });
+    const after = { ...before, expenses: [{ ...lunch, amount: 10000 }], income: [{ ...lunch, id: 'i' }] };
+    const changes = diffLedger(before, after);
+    expect(changes.put).toEqual({ expenses: [after.expenses[0]], income: [after.income[0]] });
+    expect(changes.remove).toEqual({});
+    expect(diffLedger(after, { ...after, expenses: [] }).remove).toEqual({ expenses: ['a'] });
+    expect(isEmptyChange(diffLedger(after, after))).toBe(true);
+  });
+  it('rewrites everything without a baseline', () => {
+    expect(diffLedger(null, ledger()).replace).toBe(true);
+  });
+});
+
+describe('openLedger', () => {
+  it('moves data over from localStorage once', async () => {
+    const legacy = fakeLocalStorage({
+      [STORAGE_KEYS.version]: '2',
+      [STORAGE_KEYS.income]: JSON.stringify([{ id: 'i', date: '2026-01-01', desc: 'Pay', amount: 100, notes: '' }]),
+      [STORAGE_KEYS.expenses]: JSON.stringify([lunch]),
+      budget_active_tab: 'summary'
+    });
+    const repo = createMemoryRepository();
+    const first = await openLedger(repo, legacy);
+    expect(first.movedFromLocalStorage).toBe(true);
+    expect(first.data.income[0].category).toBe('Other');
+    // The pre-migration copy of the v2 data stays behind; everything else is gone
+    expect([...legacy.map.keys()]).toEqual(['budget_active_tab', STORAGE_KEYS.backup]);
+
+    const second = await openLedger(repo, legacy);
+    expect(second.movedFromLocalStorage).toBe(false);
+    expect(second.data.expenses).toEqual([lunch]);
+  });
+  it('backs up and then drops stored rows that fail validation', async () => {
+    const repo = createMemoryRepository();
+    await repo.write(diffLedger(null, ledger({ expenses: [lunch, { ...lunch, id: 'bad', amount: -1 }] })));
+    const opened = await openLedger(repo, fakeLocalStorage());
+    expect(opened.errors).toEqual(['expense row 2: invalid amount -1']);
+    expect(opened.data.expenses).toEqual([lunch]);
+    expect((await repo.load())?.settings.backup).toBeTruthy();
+    await repo.write(diffLedger(opened.baseline, opened.data));
+    expect((await repo.load())?.collections.expenses).toEqual([lunch]);
+  });
+  it('keeps the position of rewritten items', async () => {
+    const repo = createMemoryRepository();
+    const a = ledger({ expenses: [lunch, { ...lunch, id: 'b' }] });
+    await repo.write(diffLedger(null, a));
+    await repo.write(diffLedger(a, { ...a, expenses: [{ ...lunch, desc: 'Dinner' }, a.expenses[1]] }));
+    expect((await repo.load())?.collections.expenses.map((e: any) => e.desc)).toEqual(['Dinner', 'Lunch']);
+  });
+});
@@ -0,0 +1,225 @@
+import { parseRestorePoints, type HistoryEntry } from "./history";
+import { SCHEMA_VERSION, STORAGE_KEYS, loadStored, migrate, validateData, type BudgetData } from "./schema";
+
+/**
+ * Persistence for the ledger. Record lists are stored one item per id, so a change only writes
+ * the items that changed; category lists, styles, budgets and restore points are stored whole.
+ * Small preferences (rates, active tab, period) stay in localStorage.
+ */
+export const COLLECTIONS = ['income', 'expenses', 'recurring', 'loans', 'accounts', 'transfers', 'goals'] as const;
+export type CollectionName = typeof COLLECTIONS[number];
+const LEDGER_SETTINGS = ['version', 'categories', 'categoryStyles', 'incomeCategories', 'incomeCategoryStyles', 'budgets'] as const;
+/** `backup` holds the stored values from before a load that dropped invalid rows; `sync` is the outbox and cursor of lib/sync.ts. */
+export const SETTINGS = [...LEDGER_SETTINGS, 'restorePoints', 'backup', 'sync'] as const;
+export type SettingName = typeof SETTINGS[number];
+
+type Item = { id: string };
+export type StoredValues = { collections: Record<CollectionName, unknown[]>; settings: Partial<Record<SettingName, unknown>> };
+/** One incremental write. `replace` clears every collection first, for full rewrites. */
+export type ChangeSet = {
+  replace?: boolean;
+  put?: Partial<Record<CollectionName, Item[]>>;
+  remove?: Partial<Record<CollectionName, string[]>>;
+  settings?: Partial<Record<SettingName, unknown>>;
+};
+
+export interface BudgetRepository {
+  /** Everything stored, each collection in the order its items were first written; null before the first write. */
+  load(): Promise<StoredValues | null>;
+  /** Applies a change set atomically. Rewritten items keep their position; new ones go last. */
+  write(changes: ChangeSet): Promise<void>;
+}
+
+type LegacyStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/** Items added or changed (compared by reference, as state updates replace changed objects) and ids removed. */
+export function diffLedger(prev: BudgetData | null, next: BudgetData): ChangeSet {
+  if (!prev){
+    const put: ChangeSet["put"] = {};
+    for (const name of COLLECTIONS) put[name] = next[name];
+    const settings: ChangeSet["settings"] = {};
+    for (const key of LEDGER_SETTINGS) settings[key] = next[key];
+    return { replace: true, put, settings };
+  }
+  const changes: Required<Omit<ChangeSet, 'replace'>> = { put: {}, remove: {}, settings: {} };
+  for (const name of COLLECTIONS){
+    const before: Item[] = prev[name];
+    const after: Item[] = next[name];
+    if (before === after) continue;
+    const old = new Map(before.map(x => [x.id, x]));
+    const put = after.filter(x => old.get(x.id) !== x);
+    const kept = new Set(after.map(x => x.id));
+    const remove = before.filter(x => !kept.has(x.id)).map(x => x.id);
+    if (put.length) changes.put[name] = put;
+    if (remove.length) changes.remove[name] = remove;
+  }
+  for (const key of LEDGER_SETTINGS){
+    if (prev[key] !== next[key]) changes.settings[key] = next[key];
+  }
+  return changes;
+}
+
+export function isEmptyChange(c: ChangeSet){
+  const count = (o?: object) => o ? Object.keys(o).length : 0;
+  return !c.replace && !count(c.put) && !count(c.remove) && !count(c.settings);
+}
+
+/**
+ * Reads the ledger from the repository. The first time, when it is still empty, the data is
+ * copied over from the old localStorage keys, which are removed once the copy is written.
+ * `baseline` is what is actually stored, to diff the first save against: it still contains
+ * rows that failed validation, so that save removes them (after a copy is kept under `backup`).
+ */
+export async function openLedger(repo: BudgetRepository, legacy: LegacyStore): Promise<{
+  data: BudgetData; baseline: BudgetData; errors: string[]; migratedFrom: number; restorePoints: HistoryEntry[]; movedFromLocalStorage: boolean; sync: unknown;
+}> {
+  const stored = await repo.load();
+  if (!stored){
+    const old = loadStored(legacy);
+    if (old.migratedFrom > SCHEMA_VERSION) throw new Error(old.errors[0]);
+    const restorePoints = legacy.getItem(STORAGE_KEYS.restorePoints);
+    const changes = diffLedger(null, old.data);
+    await repo.write({ ...changes, settings: { ...changes.settings, restorePoints: restorePoints ?? undefined } });
+    for (const [name, key] of Object.entries(STORAGE_KEYS)) if (name !== 'backup') legacy.removeItem(key);
+    return { ...old, baseline: old.data, restorePoints: parseRestorePoints(restorePoints), movedFromLocalStorage: true, sync: null };
+  }
+  const raw: Record<string, any> = { ...stored.collections, ...stored.settings };
+  raw.version = Number(stored.settings.version) || SCHEMA_VERSION;
+  // Throws for data from a newer build, which must then be left alone rather than overwritten
+  const migrated = migrate(raw);
+  const result = validateData(migrated.data);
+  if (result.errors.length){
+    const values = Object.fromEntries(Object.entries(raw).filter(([key]) => key !== 'restorePoints' && key !== 'backup' && key !== 'sync'));
+    await repo.write({ settings: { backup: { savedAt: new Date().toISOString(), values } } });
+  }
+  const restorePoints = typeof stored.settings.restorePoints === 'string' ? stored.settings.restorePoints : null;
+  return {
+    data: result.data,
+    baseline: raw as BudgetData,
+    errors: result.errors,
+    migratedFrom: migrated.from,
+    restorePoints: parseRestorePoints(restorePoints),
+    movedFromLocalStorage: false,
+    sync: stored.settings.sync ?? null
+  };
+}
+
+/** Keeps everything in memory. Used by unit tests, and values are cloned like IndexedDB would. */
+export function createMemoryRepository(): BudgetRepository {
+  const collections = new Map<CollectionName, Map<string, unknown>>(COLLECTIONS.map(n => [n, new Map()]));
+  const settings = new Map<SettingName, unknown>();
+  return {
+    async load(){
+      if (!settings.has('version')) return null;
+      const out = { collections: {} as Record<CollectionName, unknown[]>, settings: {} as Partial<Record<SettingName, unknown>> };
+      for (const [name, items] of collections) out.collections[name] = Array.from(items.values(), v => structuredClone(v));
+      for (const [key, value] of settings) out.settings[key] = structuredClone(value);
+      return out;
+    },
+    async write(changes){
+      if (changes.replace) for (const items of collections.values()) items.clear();
+      for (const [name, ids] of Object.entries(changes.remove || {}) as [CollectionName, string[]][]){
+        for (const id of ids) collections.get(name)!.delete(id);
+      }
+      // Map keeps first-insertion order, so a rewritten item stays where it was
+      for (const [name, items] of Object.entries(changes.put || {}) as [CollectionName, Item[]][]){
+        for (const item of items) collections.get(name)!.set(item.id, structuredClone(item));
+      }
+      for (const [key, value] of Object.entries(changes.settings || {}) as [SettingName, unknown][]){
+        if (value === undefined) settings.delete(key);
+        else settings.set(key, structuredClone(value));
+      }
+    }
+  };
+}
+
+const DB_VERSION = 1;
+const SETTINGS_STORE = 'settings';
+
+function request<T>(req: IDBRequest<T>){
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+function completion(tx: IDBTransaction){
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * One object store per collection holding `{ id, pos, value }` records, with an index on `pos`
+ * to read them back in order, and a key-value store for the settings.
+ */
+export function createIndexedDbRepository(name = 'budget-tracker'): BudgetRepository {
+  let db: Promise<IDBDatabase> | null = null;
+  const nextPos: Record<string, number> = {};
+  function open(){
+    db ||= new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const d = req.result;
+        for (const c of COLLECTIONS) if (!d.objectStoreNames.contains(c)) d.createObjectStore(c, { keyPath: 'id' }).createIndex('pos', 'pos');
+        if (!d.objectStoreNames.contains(SETTINGS_STORE)) d.createObjectStore(SETTINGS_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('Storage is open in an older version of the app in another tab'));
+    });
+    return db;
+  }
+  return {
+    async load(){
+      const d = await open();
+      const tx = d.transaction([...COLLECTIONS, SETTINGS_STORE], 'readonly');
+      const settingsStore = tx.objectStore(SETTINGS_STORE);
+      // Every request is issued before awaiting, so the transaction stays open for all of them
+      const [keys, values, ...lists] = await Promise.all([
+        request(settingsStore.getAllKeys()),
+        request(settingsStore.getAll()),
+        ...COLLECTIONS.map(c => request<{ pos: number; value: unknown }[]>(tx.objectStore(c).index('pos').getAll()))
+      ]);
+      const collections = {} as Record<CollectionName, unknown[]>;
+      COLLECTIONS.forEach((c, i) => {
+        const records = lists[i] as { pos: number; value: unknown }[];
+        nextPos[c] = records.length ? records[records.length - 1].pos + 1 : 0;
+        collections[c] = records.map(r => r.value);
+      });
+      if (!keys.includes('version')) return null;
+      const settings: Partial<Record<SettingName, unknown>> = {};
+      keys.forEach((k, i) => { settings[k as SettingName] = values[i]; });
+      return { collections, settings };
+    },
+    async write(changes){
+      const d = await open();
+      const tx = d.transaction([...COLLECTIONS, SETTINGS_STORE], 'readwrite');
+      const done = completion(tx);
+      if (changes.replace){
+        for (const c of COLLECTIONS){ tx.objectStore(c).clear(); nextPos[c] = 0; }
+      }
+      for (const [c, ids] of Object.entries(changes.remove || {}) as [CollectionName, string[]][]){
+        const store = tx.objectStore(c);
+        for (const id of ids) store.delete(id);
+      }
+      for (const [c, items] of Object.entries(changes.put || {}) as [CollectionName, Item[]][]){
+        const store = tx.objectStore(c);
+        for (const item of items){
+          const existing = store.get(item.id);
+          existing.onsuccess = () => {
+            const pos = existing.result ? existing.result.pos : (nextPos[c] = (nextPos[c] || 0) + 1) - 1;
+            store.put({ id: item.id, pos, value: item });
+          };
+        }
+      }
+      const settings = tx.objectStore(SETTINGS_STORE);
+      for (const [key, value] of Object.entries(changes.settings || {})){
+        if (value === undefined) settings.delete(key);
+        else settings.put(value, key);
+      }
+      await done;
+    }
+  };
+}
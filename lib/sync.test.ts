@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { emptyLedger } from "./ledger";
+import { SCHEMA_VERSION } from "./schema";
+import { applyRemote, initialUpload, isSyncRecord, queueRecords, readSyncState, recordsFromChanges, type SyncRecord } from "./sync";
+
+const lunch = { id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000, notes: '' };
+const put = (value: typeof lunch, updatedAt: string): SyncRecord => ({ kind: 'expenses', id: value.id, value, updatedAt });
+const T1 = '2026-03-01T00:00:00.000Z';
+const T2 = '2026-03-02T00:00:00.000Z';
+const T3 = '2026-03-03T00:00:00.000Z';
+
+describe('records', () => {
+  it('validates values per kind', () => {
+    expect(isSyncRecord(put(lunch, T1))).toBe(true);
+    expect(isSyncRecord(put({ ...lunch, amount: -5 }, T1))).toBe(false);
+    expect(isSyncRecord({ ...put(lunch, T1), id: 'other' })).toBe(false);
+    expect(isSyncRecord({ kind: 'settings', id: 'version', value: 3, updatedAt: T1 })).toBe(false);
+  });
+  it('turns a storage change set into records, skipping what came from the server', () => {
+    const records = recordsFromChanges({ put: { expenses: [lunch] }, remove: { income: ['x'] }, settings: { version: 3, budgets: { limits: {}, warnAt: 80 } } }, T1, (kind) => kind === 'income');
+    expect(records.map(r => `${r.kind}:${r.id}`)).toEqual(['expenses:a', 'settings:budgets']);
+  });
+  it('keeps the latest queued change per record', () => {
+    const queued = queueRecords([put(lunch, T1)], [put({ ...lunch, amount: 1 }, T2), put({ ...lunch, id: 'b' }, T1)]);
+    expect(queued.map(r => [r.id, (r.value as typeof lunch).amount])).toEqual([['a', 1], ['b', 9000]]);
+  });
+  it('uploads existing data stamped so the server copy wins', () => {
+    expect(new Set(initialUpload({ version: SCHEMA_VERSION, ...emptyLedger() }).map(r => r.updatedAt))).toEqual(new Set([new Date(0).toISOString()]));
+  });
+  it('starts over from unreadable stored state', () => {
+    expect(readSyncState('x')).toEqual({ outbox: [], cursor: 0 });
+  });
+});
+
+describe('applyRemote', () => {
+  const data = { ...emptyLedger(), expenses: [lunch] };
+  it('applies newer server records', () => {
+    const result = applyRemote(data, [put({ ...lunch, amount: 1 }, T2), { kind: 'expenses', id: 'gone', value: null, deleted: true, updatedAt: T2 }], []);
+    expect(result.data.expenses[0].amount).toBe(1);
+    expect(result.applied).toHaveLength(1);
+  });
+  it('applies pulled settings and templates in their normalized form and skips malformed ones', () => {
+    const template = { id: 't', type: 'expense', desc: 'Rent', amount: '500000.4', category: 'Rent', schedule: { freq: 'monthly', day: 1 }, startDate: '2026-01-01', extra: 1 };
+    const result = applyRemote(data, [
+      { kind: 'settings', id: 'budgets', value: {}, updatedAt: T2 },
+      { kind: 'settings', id: 'categoryStyles', value: { Food: { color: 'red', icon: '🍜' } }, updatedAt: T2 },
+      { kind: 'recurring', id: 't', value: template, updatedAt: T2 },
+      { kind: 'accounts', id: 'x', value: { id: 'x', name: ' ' }, updatedAt: T2 }
+    ], []);
+    expect(result.data.budgets).toBe(data.budgets);
+    expect(result.data.categoryStyles).toEqual({ Food: { icon: '🍜' } });
+    expect(result.data.recurring).toEqual([expect.objectContaining({ id: 't', amount: 500000 })]);
+    expect(result.data.recurring[0]).not.toHaveProperty('extra');
+    expect(result.data.accounts).toBe(data.accounts);
+    expect(result.applied.map(r => r.id)).toEqual(['categoryStyles', 't']);
+    expect(applyRemote(data, [{ kind: 'settings', id: 'budgets', value: { limits: { Food: '9000', Bad: -1 }, warnAt: 500 }, updatedAt: T2 }], []).data.budgets)
+      .toEqual({ limits: { Food: 9000 }, warnAt: 80 });
+  });
+  it('leaves records with a pending local change of the same age or newer', () => {
+    const result = applyRemote(data, [put({ ...lunch, amount: 1 }, T1)], [put(lunch, T1)]);
+    expect(result.data).toBe(data);
+  });
+});
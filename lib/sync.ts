@@ -0,0 +1,168 @@
+import { normalizeAccounts } from "./accounts";
+import { normalizeCategoryStyles } from "./categories";
+import { expenseRowErrors, goalErrors, incomeRowErrors, loanErrors, normalizeBudgets, normalizeTemplates, transferErrors, type BudgetData } from "./schema";
+import { COLLECTIONS, diffLedger, type ChangeSet, type CollectionName } from "./storage";
+
+/**
+ * Optional sync with the server routes under app/api. Every record and setting travels as a
+ * SyncRecord stamped with the time it changed on the device that changed it; the newest write
+ * for an id wins on both sides. The server numbers what it stores so clients pull by cursor.
+ */
+export type SyncKind = CollectionName | 'settings';
+export const SYNC_SETTINGS = ['categories', 'categoryStyles', 'incomeCategories', 'incomeCategoryStyles', 'budgets'] as const;
+export type SyncSetting = typeof SYNC_SETTINGS[number];
+
+export type SyncRecord = { kind: SyncKind; id: string; value: unknown; deleted?: boolean; updatedAt: string };
+export type SyncRequest = { since: number; changes: SyncRecord[] };
+export type SyncResponse = { cursor: number; records: SyncRecord[] };
+/** What a device keeps between sessions: changes not yet accepted by the server, and how far it has pulled. */
+export type SyncState = { outbox: SyncRecord[]; cursor: number };
+
+type Ledger = Omit<BudgetData, 'version'>;
+
+export function recordKey(r: { kind: string; id: string }){ return `${r.kind}:${r.id}`; }
+
+/** Last write wins; a tie keeps what is already there so replays change nothing. */
+export function isNewer(incoming: SyncRecord, current?: { updatedAt: string }){
+  return !current || incoming.updatedAt > current.updatedAt;
+}
+
+const VALUE_CHECKS: Record<CollectionName, (x: unknown) => boolean> = {
+  income: x => !incomeRowErrors(x).length,
+  expenses: x => !expenseRowErrors(x).length,
+  recurring: x => normalizeTemplates([x]).length === 1,
+  loans: x => !loanErrors(x).length,
+  accounts: x => normalizeAccounts([x]).length === 1,
+  transfers: x => !transferErrors(x).length,
+  goals: x => !goalErrors(x).length
+};
+const isPlainObject = (x: unknown): x is Record<string, unknown> => !!x && typeof x === 'object' && !Array.isArray(x);
+const isNameList = (x: unknown) => Array.isArray(x) && x.length > 0 && x.every(c => typeof c === 'string' && c.trim());
+const isBudgets = (x: unknown) => isPlainObject(x) && isPlainObject(x.limits) && typeof x.warnAt === 'number';
+const SETTING_CHECKS: Record<SyncSetting, (x: unknown) => boolean> = {
+  categories: isNameList,
+  incomeCategories: isNameList,
+  categoryStyles: isPlainObject,
+  incomeCategoryStyles: isPlainObject,
+  budgets: isBudgets
+};
+
+// Pulled values are applied as the normalized copy loading them from storage would give,
+// so a bad value from another client cannot break this one
+const keep = (x: unknown) => x;
+const NORMALIZE_VALUE: Record<CollectionName, (x: unknown) => unknown> = {
+  income: keep,
+  expenses: keep,
+  recurring: x => normalizeTemplates([x])[0],
+  loans: keep,
+  accounts: x => normalizeAccounts([x])[0],
+  transfers: keep,
+  goals: keep
+};
+const NORMALIZE_SETTING: Record<SyncSetting, (x: unknown) => unknown> = {
+  categories: keep,
+  incomeCategories: keep,
+  categoryStyles: normalizeCategoryStyles,
+  incomeCategoryStyles: normalizeCategoryStyles,
+  budgets: normalizeBudgets
+};
+
+/** Shape check for records coming over the network, in either direction. */
+export function isSyncRecord(x: any): x is SyncRecord {
+  if (!x || typeof x !== 'object' || typeof x.id !== 'string' || !x.id) return false;
+  if (typeof x.updatedAt !== 'string' || Number.isNaN(Date.parse(x.updatedAt))) return false;
+  if (x.kind === 'settings') return SYNC_SETTINGS.includes(x.id) && !x.deleted && SETTING_CHECKS[x.id as SyncSetting](x.value);
+  if (!COLLECTIONS.includes(x.kind)) return false;
+  return x.deleted ? true : VALUE_CHECKS[x.kind as CollectionName](x.value) && x.value.id === x.id;
+}
+
+/** The records to send for one storage change set. */
+export function recordsFromChanges(changes: ChangeSet, updatedAt: string, skip?: (kind: SyncKind, id: string, value?: unknown) => boolean): SyncRecord[] {
+  const out: SyncRecord[] = [];
+  for (const [kind, items] of Object.entries(changes.put || {}) as [CollectionName, { id: string }[]][]){
+    for (const item of items) if (!skip?.(kind, item.id, item)) out.push({ kind, id: item.id, value: item, updatedAt });
+  }
+  for (const [kind, ids] of Object.entries(changes.remove || {}) as [CollectionName, string[]][]){
+    for (const id of ids) if (!skip?.(kind, id)) out.push({ kind, id, value: null, deleted: true, updatedAt });
+  }
+  for (const [key, value] of Object.entries(changes.settings || {})){
+    if ((SYNC_SETTINGS as readonly string[]).includes(key) && !skip?.('settings', key, value)) out.push({ kind: 'settings', id: key, value, updatedAt });
+  }
+  return out;
+}
+
+/** Adds records to the outbox, keeping only the latest change per id. */
+export function queueRecords(outbox: SyncRecord[], records: SyncRecord[]){
+  const byKey = new Map(outbox.map(r => [recordKey(r), r]));
+  for (const r of records){
+    const key = recordKey(r);
+    const queued = byKey.get(key);
+    if (!queued || r.updatedAt >= queued.updatedAt) byKey.set(key, r);
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Applies records pulled from the server. Anything with a newer (or the same) change still waiting
+ * in the outbox is skipped, since that change wins on the server too, as is anything that fails
+ * `isSyncRecord`. `applied` lists the records that changed the data; `data` is the same object
+ * when none did.
+ */
+export function applyRemote(data: Ledger, records: SyncRecord[], pending: SyncRecord[]): { data: Ledger; applied: SyncRecord[] } {
+  const waiting = new Map(pending.map(r => [recordKey(r), r]));
+  const applied: SyncRecord[] = [];
+  let next = data;
+  for (const r of records){
+    const local = waiting.get(recordKey(r));
+    if ((local && !isNewer(r, local)) || !isSyncRecord(r)) continue;
+    if (r.kind === 'settings'){
+      if (r.deleted) continue;
+      next = { ...next, [r.id]: NORMALIZE_SETTING[r.id as SyncSetting](r.value) };
+      applied.push(r);
+      continue;
+    }
+    const list = next[r.kind] as { id: string }[];
+    const i = list.findIndex(x => x.id === r.id);
+    if (r.deleted){
+      if (i < 0) continue;
+      next = { ...next, [r.kind]: list.filter(x => x.id !== r.id) };
+    } else {
+      const value = NORMALIZE_VALUE[r.kind](r.value);
+      next = { ...next, [r.kind]: i >= 0 ? list.map(x => x.id === r.id ? value : x) : [...list, value] };
+    }
+    applied.push(r);
+  }
+  return { data: next, applied };
+}
+
+/**
+ * Everything on this device, for the first sync after sync is turned on. Stamped with the epoch
+ * so that anything already on the server (from another device) wins over the local copy.
+ */
+export function initialUpload(data: BudgetData): SyncRecord[] {
+  return recordsFromChanges(diffLedger(null, data), new Date(0).toISOString());
+}
+
+/** Reads the stored sync state; anything unreadable starts over from an empty outbox. */
+export function readSyncState(raw: unknown): SyncState {
+  const x = raw as Partial<SyncState> | null;
+  if (!x || typeof x !== 'object' || !Array.isArray(x.outbox)) return { outbox: [], cursor: 0 };
+  const cursor = Number(x.cursor);
+  return { outbox: x.outbox.filter(isSyncRecord), cursor: Number.isInteger(cursor) && cursor > 0 ? cursor : 0 };
+}
+
+export class SyncAuthError extends Error {}
+
+/** One round trip: sends the outbox and returns what changed on the server since `since`. */
+export async function syncOnce(baseUrl: string, passphrase: string, body: SyncRequest, fetchImpl: typeof fetch = fetch): Promise<SyncResponse> {
+  const res = await fetchImpl(`${baseUrl}/api/sync`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${passphrase}` },
+    body: JSON.stringify(body)
+  });
+  if (res.status === 401 || res.status === 404) throw new SyncAuthError(res.status === 401 ? 'Wrong passphrase' : 'Sync is not enabled on the server');
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data = await res.json();
+  if (!data || typeof data.cursor !== 'number' || !Array.isArray(data.records)) throw new Error('Unexpected sync response');
+  return { cursor: data.cursor, records: data.records.filter(isSyncRecord) };
+}
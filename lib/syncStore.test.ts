@@ -0,0 +1,67 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SyncRecord } from "./sync";
+import { authorize, createFileStore } from "./syncStore";
+
+const lunch = { id: 'a', date: '2026-03-01', category: 'Food', desc: 'Lunch', amount: 9000, notes: '' };
+const put = (value: typeof lunch, updatedAt: string): SyncRecord => ({ kind: 'expenses', id: value.id, value, updatedAt });
+const T1 = '2026-03-01T00:00:00.000Z';
+const T2 = '2026-03-02T00:00:00.000Z';
+const T3 = '2026-03-03T00:00:00.000Z';
+
+describe('file store', () => {
+  let dir = '';
+  let file = '';
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'budget-sync-'));
+    file = path.join(dir, 'store.json');
+  });
+  afterEach(async () => { await rm(dir, { recursive: true, force: true }); });
+
+  it('keeps the newest write per record and numbers changes for cursors', async () => {
+    const store = createFileStore(file);
+    expect(await store.apply([put(lunch, T2)])).toBe(1);
+    expect(await store.apply([put({ ...lunch, amount: 1 }, T1)])).toBe(1);
+    expect(await store.apply([{ kind: 'expenses', id: 'a', value: null, deleted: true, updatedAt: T3 }, put({ ...lunch, id: 'b' }, T1)])).toBe(3);
+    const reopened = createFileStore(file);
+    expect(await reopened.get('expenses', 'a')).toBeUndefined();
+    expect((await reopened.since(1)).records.map(r => r.id)).toEqual(['a', 'b']);
+    expect((await reopened.values('expenses')).map(r => r.id)).toEqual(['b']);
+  });
+
+  it('writes the whole file each time and leaves no temporary file behind', async () => {
+    await createFileStore(file).apply([put(lunch, T1)]);
+    expect(await readdir(dir)).toEqual(['store.json']);
+    expect(JSON.parse(await readFile(file, 'utf8')).seq).toBe(1);
+  });
+
+  it('moves a corrupt file aside and starts over instead of failing every request', async () => {
+    await writeFile(file, '{"seq":4,"records":{"expenses:a":');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const store = createFileStore(file);
+    expect(await store.since(0)).toEqual({ cursor: 0, records: [] });
+    expect(await store.apply([put(lunch, T1)])).toBe(1);
+    expect(logged).toHaveBeenCalledOnce();
+    logged.mockRestore();
+    const files = await readdir(dir);
+    expect(files).toContain('store.json');
+    const aside = files.find(f => f.startsWith('store.json.corrupt-'))!;
+    expect(await readFile(path.join(dir, aside), 'utf8')).toBe('{"seq":4,"records":{"expenses:a":');
+  });
+});
+
+describe('authorize', () => {
+  afterEach(() => { vi.unstubAllEnvs(); });
+  const request = (auth?: string) => new Request('http://localhost/api/sync', { headers: auth ? { authorization: auth } : {} });
+
+  it('is off without a passphrase and checks the bearer token otherwise', async () => {
+    vi.stubEnv('BUDGET_SYNC_PASSPHRASE', '');
+    expect(authorize(request('Bearer x'))?.status).toBe(404);
+    vi.stubEnv('BUDGET_SYNC_PASSPHRASE', 'secret');
+    expect(authorize(request('Bearer wrong'))?.status).toBe(401);
+    expect(authorize(request())?.status).toBe(401);
+    expect(authorize(request('Bearer secret'))).toBeNull();
+  });
+});
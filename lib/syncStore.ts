@@ -0,0 +1,135 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { timingSafeEqual } from "crypto";
+import { isNewer, isSyncRecord, recordKey, type SyncKind, type SyncRecord } from "./sync";
+
+/**
+ * Server side of sync, used only by the route handlers in app/api. Records are kept in one JSON
+ * file, each numbered with the store's sequence at the time it was written so clients can ask
+ * for everything after a cursor. Node only.
+ */
+export type StoredRecord = SyncRecord & { seq: number };
+type StoreFile = { seq: number; records: Record<string, StoredRecord> };
+
+export interface SyncStore {
+  /** Applies each record that is newer than the stored one; returns the new sequence number. */
+  apply(records: SyncRecord[]): Promise<number>;
+  /** Records written after `seq`, oldest first, with the current sequence number. */
+  since(seq: number): Promise<{ cursor: number; records: StoredRecord[] }>;
+  /** Current (not deleted) values of one kind. */
+  values(kind: SyncKind): Promise<StoredRecord[]>;
+  get(kind: SyncKind, id: string): Promise<StoredRecord | undefined>;
+}
+
+export function createFileStore(file: string): SyncStore {
+  let cache: StoreFile | null = null;
+  let loading: Promise<StoreFile> | null = null;
+  // Writes are chained so two requests never interleave a read-modify-write
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Requests arriving together share the first load
+  function read(): Promise<StoreFile> {
+    if (cache) return Promise.resolve(cache);
+    loading ||= load().finally(() => { loading = null; });
+    return loading;
+  }
+  async function load(): Promise<StoreFile> {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+      return cache = { seq: 0, records: {} };
+    }
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== 'object') throw new SyntaxError('not a store object');
+      cache = { seq: Number(parsed.seq) || 0, records: parsed.records && typeof parsed.records === 'object' ? parsed.records : {} };
+    } catch (err) {
+      // An unreadable file would fail every request from now on: keep it aside for inspection
+      // (or manual recovery) and start over
+      const aside = `${file}.corrupt-${Date.now()}`;
+      await fs.rename(file, aside);
+      console.error(`Sync store ${file} could not be read (${err instanceof Error ? err.message : err}); moved it to ${aside} and started an empty store`);
+      cache = { seq: 0, records: {} };
+    }
+    return cache;
+  }
+  // Written to a temporary file and renamed over the store, so a crash never leaves half a file
+  async function persist(data: StoreFile){
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, file);
+  }
+  function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    apply(records){
+      return serialized(async () => {
+        const data = await read();
+        const next: StoreFile = { seq: data.seq, records: { ...data.records } };
+        for (const r of records){
+          if (!isSyncRecord(r)) continue;
+          const key = recordKey(r);
+          if (!isNewer(r, next.records[key])) continue;
+          next.seq++;
+          next.records[key] = { kind: r.kind, id: r.id, value: r.deleted ? null : r.value, deleted: r.deleted || undefined, updatedAt: r.updatedAt, seq: next.seq };
+        }
+        if (next.seq !== data.seq){
+          await persist(next);
+          cache = next;
+        }
+        return next.seq;
+      });
+    },
+    async since(seq){
+      const data = await read();
+      const records = Object.values(data.records).filter(r => r.seq > seq).sort((a, b) => a.seq - b.seq);
+      return { cursor: data.seq, records };
+    },
+    async values(kind){
+      const data = await read();
+      return Object.values(data.records).filter(r => r.kind === kind && !r.deleted).sort((a, b) => a.seq - b.seq);
+    },
+    async get(kind, id){
+      const data = await read();
+      const r = data.records[recordKey({ kind, id })];
+      return r && !r.deleted ? r : undefined;
+    }
+  };
+}
+
+let shared: SyncStore | null = null;
+/** The store at BUDGET_SYNC_FILE (default `.data/budget-sync.json` in the working directory). */
+export function serverStore(){
+  shared ||= createFileStore(process.env.BUDGET_SYNC_FILE || path.join(process.cwd(), '.data', 'budget-sync.json'));
+  return shared;
+}
+
+/**
+ * Checks `Authorization: Bearer <passphrase>` against BUDGET_SYNC_PASSPHRASE. Returns the error
+ * response to send, or null when the request may proceed. Without a passphrase the API is off.
+ */
+export function authorize(req: Request): Response | null {
+  const expected = process.env.BUDGET_SYNC_PASSPHRASE;
+  if (!expected) return Response.json({ error: 'Sync is not enabled on this server' }, { status: 404 });
+  const given = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return Response.json({ error: 'Wrong passphrase' }, { status: 401 });
+  return null;
+}
+
+/** Reads a JSON request body, or null when it is not valid JSON. */
+export async function readJson(req: Request): Promise<any> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { valuer } from "./aggregate";
+import { DEFAULT_RATES } from "./rates";
+import { allTags, formatTags, normalizeTag, parseTags, tagErrors, tagTotals } from "./tags";
+
+describe('parsing tags', () => {
+  it('normalizes what was typed', () => {
+    expect(normalizeTag(' #Trip ')).toBe('trip');
+    expect(parseTags('#Trip-Jeju, work  trip-jeju,,')).toEqual(['trip-jeju', 'work']);
+    expect(parseTags('  ')).toEqual([]);
+    expect(formatTags(['trip-jeju', 'work'])).toBe('trip-jeju, work');
+  });
+  it('accepts only normalized tags in stored data', () => {
+    expect(tagErrors(['work'])).toEqual([]);
+    expect(tagErrors(['Work'])).toHaveLength(1);
+    expect(tagErrors('work')).toHaveLength(1);
+  });
+});
+
+describe('tagTotals', () => {
+  const valueAt = valuer('today', { ...DEFAULT_RATES, USD: 1000 }, []);
+  const income = [{ id: 'i', date: '2026-03-01', category: 'Other', desc: 'Refund', amount: 30000, tags: ['trip-jeju'] }];
+  const expenses = [
+    { id: 'a', date: '2026-03-02', category: 'Travel', desc: 'Flight', amount: 120000, tags: ['trip-jeju'] },
+    { id: 'b', date: '2026-03-03', category: 'Food', desc: 'Lunch', amount: 20000, tags: ['trip-jeju', 'work'] },
+    { id: 'c', date: '2026-03-04', category: 'Food', desc: 'Dinner', amount: 10000 }
+  ];
+  it('adds up each tag, most spent first', () => {
+    expect(tagTotals(income, expenses, valueAt)).toEqual([
+      { tag: 'trip-jeju', count: 3, income: 30000, expense: 140000, incomeUSD: 30, expenseUSD: 140 },
+      { tag: 'work', count: 1, income: 0, expense: 20000, incomeUSD: 0, expenseUSD: 20 }
+    ]);
+  });
+  it('lists every tag in use', () => {
+    expect(allTags(income, expenses)).toEqual(['trip-jeju', 'work']);
+  });
+});
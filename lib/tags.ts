@@ -0,0 +1,49 @@
+import type { Valuer } from "./aggregate";
+import type { ExpenseRow, IncomeRow } from "./types";
+
+/**
+ * Free-form tags on income and expense rows, for labels that cut across categories such as
+ * "trip-jeju" or "reimbursable". Stored lowercase without a leading #, spaces turned into dashes.
+ */
+type Tagged = { tags?: string[] };
+
+export function normalizeTag(raw: string){
+  return raw.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+}
+
+/** Tags typed into a field, separated by commas or spaces (so "#trip-jeju #work" works too). */
+export function parseTags(input: string): string[] {
+  return Array.from(new Set(input.split(/[\s,]+/).map(normalizeTag).filter(Boolean)));
+}
+export function formatTags(tags?: string[]){
+  return (tags || []).join(', ');
+}
+
+export function tagErrors(tags: unknown): string[] {
+  if (!Array.isArray(tags) || !tags.every(t => typeof t === 'string' && t && t === normalizeTag(t))) return ['tags must be a list of lowercase names'];
+  return [];
+}
+
+/** Every tag in use, sorted. */
+export function allTags(...lists: Tagged[][]){
+  return Array.from(new Set(lists.flatMap(rows => rows.flatMap(r => r.tags || [])))).sort();
+}
+
+export type TagTotal = { tag: string; count: number; income: number; expense: number; incomeUSD: number; expenseUSD: number };
+
+/** KRW and USD totals per tag, most spent first. A row with several tags counts toward each. */
+export function tagTotals(income: IncomeRow[], expenses: ExpenseRow[], valueAt: Valuer): TagTotal[] {
+  const byTag = new Map<string, TagTotal>();
+  const add = (r: IncomeRow | ExpenseRow, kind: 'income' | 'expense') => {
+    for (const tag of r.tags || []){
+      let t = byTag.get(tag);
+      if (!t) byTag.set(tag, t = { tag, count: 0, income: 0, expense: 0, incomeUSD: 0, expenseUSD: 0 });
+      t.count++;
+      t[kind] += r.amount;
+      t[kind === 'income' ? 'incomeUSD' : 'expenseUSD'] += valueAt(r, 'USD');
+    }
+  };
+  income.forEach(r => add(r, 'income'));
+  expenses.forEach(r => add(r, 'expense'));
+  return Array.from(byTag.values()).sort((a, b) => b.expense - a.expense || b.income - a.income || a.tag.localeCompare(b.tag));
+}
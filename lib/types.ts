@@ -0,0 +1,77 @@
+import type { Currency } from "./rates";
+
+// `amount` is always KRW. Rows entered in another currency also keep the original
+// amount and the KRW rate used at entry, so later rate refreshes never change them.
+export type Money = { amount: number; currency?: Currency; originalAmount?: number; fxRate?: number };
+// `accountId` is optional: rows from before accounts existed count as unassigned. `tags` are free-form labels (lib/tags.ts).
+export type IncomeRow = Money & { id: string; date: string; category: string; desc: string; notes?: string; recurringId?: string; accountId?: string; tags?: string[] };
+/** Part of a split expense: a KRW amount in one category (see lib/splits.ts). */
+export type SplitLine = { category: string; amount: number };
+// `receipts` lists ids of attached receipt images (see lib/receipts.ts), which stay on the device.
+// `splits`, when present, divides the amount between categories; `category` is then the first line's.
+export type ExpenseRow = IncomeRow & { receipts?: string[]; splits?: SplitLine[] };
+
+export type BudgetSettings = { limits: Record<string, number>; warnAt: number };
+/** Display settings for an expense category, keyed by category name like budget limits. */
+export type CategoryStyle = { color?: string; icon?: string };
+
+export type Schedule =
+  | { freq: "monthly"; day: number }
+  | { freq: "weekly"; weekday: number }
+  | { freq: "yearly"; month: number; day: number };
+export type RecurringTemplate = {
+  id: string;
+  type: "income" | "expense";
+  desc: string;
+  amount: number;
+  category?: string;
+  notes?: string;
+  accountId?: string;
+  schedule: Schedule;
+  startDate: string;
+  endDate?: string;
+  paused: boolean;
+  lastRun?: string; // last date occurrences were generated up to (inclusive)
+};
+
+/** A repayment against a loan; `rowId` links the income/expense row that moved the money. */
+export type Repayment = { id: string; date: string; amount: number; rowId?: string; notes?: string };
+/**
+ * Money lent to ("lent") or borrowed from ("borrowed") a named person, in KRW.
+ * `rowId` links the expense (lent) or income (borrowed) row for the original transfer.
+ */
+export type Loan = {
+  id: string;
+  person: string;
+  direction: "lent" | "borrowed";
+  date: string;
+  amount: number;
+  desc?: string;
+  rowId?: string;
+  repayments: Repayment[];
+};
+
+/** Where money is kept. `openingBalance` is KRW; `reconciled` is the last real balance entered for it. */
+export type Account = {
+  id: string;
+  name: string;
+  openingBalance: number;
+  archived?: boolean;
+  reconciled?: { date: string; balance: number };
+};
+/** Moves money between two accounts; never counted as income or expense. */
+export type Transfer = { id: string; date: string; from: string; to: string; amount: number; notes?: string };
+
+/**
+ * Money put toward a goal, in the goal's currency. "allocation" earmarks part of what is already
+ * left over; "contribution" logs money set aside separately, e.g. into a savings account.
+ */
+export type GoalEntry = { id: string; date: string; amount: number; kind: "allocation" | "contribution"; notes?: string };
+export type SavingsGoal = {
+  id: string;
+  name: string;
+  target: number;
+  currency: "KRW" | "USD";
+  deadline: string;
+  entries: GoalEntry[];
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip } from "./zip";
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+/** Reads names and contents back through the central directory, as unzip tools do. */
+function readZip(zip: Uint8Array){
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const out: { name: string; text: string; crc: number }[] = [];
+  for (let i = 0; i < count; i++){
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(at + 46, at + 46 + nameLength));
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    out.push({ name, text: new TextDecoder().decode(zip.subarray(dataStart, dataStart + size)), crc: view.getUint32(at + 16, true) });
+    at += 46 + nameLength;
+  }
+  return out;
+}
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+  it('stores entries that can be read back by name', () => {
+    const zip = createZip([
+      { name: 'budget.json', data: bytes('{"a":1}') },
+      { name: 'receipts/영수증.txt', data: bytes('paid') }
+    ], new Date(2026, 2, 1, 12, 30));
+    expect(readZip(zip)).toEqual([
+      { name: 'budget.json', text: '{"a":1}', crc: crc32(bytes('{"a":1}')) },
+      { name: 'receipts/영수증.txt', text: 'paid', crc: crc32(bytes('paid')) }
+    ]);
+  });
+  it('writes an empty archive', () => {
+    expect(createZip([])).toHaveLength(22);
+  });
+});
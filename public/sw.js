@@ -0,0 +1,68 @@
+/*
+ * Service worker: keeps the app shell (the page and its hashed Next.js assets) in a cache so the
+ * tracker opens without a connection. Data never goes through here; it lives in IndexedDB.
+ * Bump CACHE when the caching rules change.
+ */
+const CACHE = 'budget-shell-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/favicon.png', '/icon-192.png', '/icon-512.png', '/apple-touch-icon.png'];
+const REPLAY_TAG = 'budget-replay';
+
+async function cacheShell(){
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  // The page's scripts and styles, so the first offline start does not need a second visit
+  const html = await (await cache.match('/')).text();
+  const assets = Array.from(new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || []));
+  await Promise.all(assets.map(url => cache.add(url).catch(() => undefined)));
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) if (key !== CACHE) await caches.delete(key);
+    await self.clients.claim();
+  })());
+});
+
+async function networkFirst(request, fallback){
+  const cache = await caches.open(CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) cache.put(fallback || request, res.clone());
+    return res;
+  } catch (err) {
+    const cached = await cache.match(fallback || request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request){
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) cache.put(request, res.clone());
+  return res;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Rates, the sync API and anything that is not a plain GET go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  if (request.mode === 'navigate') event.respondWith(networkFirst(request, '/'));
+  else if (url.pathname.startsWith('/_next/static/')) event.respondWith(cacheFirst(request));
+  else if (SHELL.includes(url.pathname)) event.respondWith(networkFirst(request));
+});
+
+// Background Sync (where supported): wake open pages so they send queued changes and refresh rates
+self.addEventListener('sync', event => {
+  if (event.tag !== REPLAY_TAG) return;
+  event.waitUntil(self.clients.matchAll({ type: 'window' }).then(clients => {
+    for (const client of clients) client.postMessage({ type: 'replay' });
+  }));
+});